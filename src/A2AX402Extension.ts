@@ -8,6 +8,7 @@
  */
 
 import { NetworkConfig } from './types';
+import { canonicalHash } from './utils/canonical';
 
 export enum PaymentMethod {
   BASIC_CARD = 'basic-card',
@@ -353,10 +354,8 @@ export class A2AX402Extension {
       agent_payee: this.agentName
     };
 
-    // Create proof hash
-    const proofJson = JSON.stringify(proofData);
-    const crypto = require('crypto');
-    const proofHash = crypto.createHash('sha256').update(proofJson).digest('hex');
+    // Create proof hash (RFC 8785 canonical JSON)
+    const proofHash = canonicalHash(proofData);
 
     return {
       proof_type: 'a2a_x402_payment',
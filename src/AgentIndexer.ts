@@ -0,0 +1,365 @@
+/**
+ * Agent directory built from ERC-8004 identity registry events.
+ *
+ * The indexer backfills Registered, UriUpdated, MetadataSet and Transfer
+ * events in block ranges, resolves each agent's registration file and keeps
+ * the result in a pluggable store. After the backfill it follows the chain
+ * incrementally from the last checkpointed block, so agents can be discovered
+ * by capability, domain, role, owner, supported trust model or lifecycle
+ * status without knowing their IDs.
+ */
+
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { ethers } from 'ethers';
+import { AgentMetadata } from './types';
+import { UriResolutionError } from './exceptions';
+import { IDENTITY_REGISTRY_ABI } from './utils/contracts';
+import { METADATA_KEYS } from './utils/metadata';
+import { AgentStatus, AgentStatusRecord, resolveAgentStatus } from './AgentLifecycle';
+import { UriResolver } from './resolver';
+import {
+  AgentRegistrationFile,
+  isRegistrationFile,
+  registrationFileFromMetadata,
+} from './RegistrationFile';
+
+export interface IndexedAgent {
+  /** Agent ID as a decimal string (JSON-safe) */
+  agentId: string;
+  owner: string;
+  tokenUri: string;
+  /** Resolved registration file, null until resolved or when resolution failed */
+  registration: AgentRegistrationFile | null;
+  /** Why the token URI could not be resolved, if it could not */
+  resolutionError: { reason: string; message: string } | null;
+  /** On-chain metadata entries (key → hex-encoded bytes) */
+  metadata: Record<string, string>;
+  /** Lifecycle status from the agentStatus metadata entry or the registration file */
+  status: AgentStatusRecord;
+  registeredBlock: number;
+  updatedBlock: number;
+}
+
+export interface AgentQuery {
+  /** Agents listing this capability */
+  capability?: string;
+  /** Agents serving this domain (case-insensitive) */
+  domain?: string;
+  role?: string;
+  owner?: string;
+  /** Agents supporting every listed trust model */
+  supportedTrust?: string | string[];
+  /** Agents in any of these lifecycle statuses */
+  status?: AgentStatus | AgentStatus[];
+}
+
+/**
+ * Storage for indexed agents. `commit` must persist the agents and the
+ * checkpoint together so a crash never skips events.
+ */
+export interface AgentIndexStore {
+  getAgent(agentId: string): Promise<IndexedAgent | null>;
+  listAgents(): Promise<IndexedAgent[]>;
+  getCheckpoint(): Promise<number | null>;
+  commit(agents: IndexedAgent[], checkpoint: number): Promise<void>;
+}
+
+export interface AgentIndexerConfig {
+  /** Identity registry address */
+  identityRegistry: string;
+  provider: ethers.Provider;
+  /** Where indexed agents are kept (default in-memory) */
+  store?: AgentIndexStore;
+  /** Resolver for registration files (default UriResolver with default gateways) */
+  uriResolver?: UriResolver;
+  /** First block to backfill from when there is no checkpoint (default 0) */
+  startBlock?: number;
+  /** Blocks per eth_getLogs request (default 2000) */
+  blockRange?: number;
+  /** Blocks to stay behind the head to avoid reorgs (default 0) */
+  confirmations?: number;
+}
+
+export interface IndexerSyncResult {
+  fromBlock: number;
+  toBlock: number;
+  events: number;
+  agentsUpdated: number;
+}
+
+const INDEXED_EVENTS = new Set(['Registered', 'UriUpdated', 'MetadataSet', 'Transfer']);
+
+/**
+ * In-memory agent index store
+ */
+export class MemoryAgentIndexStore implements AgentIndexStore {
+  protected agents: Map<string, IndexedAgent> = new Map();
+  protected checkpoint: number | null = null;
+
+  async getAgent(agentId: string): Promise<IndexedAgent | null> {
+    const agent = this.agents.get(agentId);
+    return agent ? structuredClone(agent) : null;
+  }
+
+  async listAgents(): Promise<IndexedAgent[]> {
+    return [...this.agents.values()].map((agent) => structuredClone(agent));
+  }
+
+  async getCheckpoint(): Promise<number | null> {
+    return this.checkpoint;
+  }
+
+  async commit(agents: IndexedAgent[], checkpoint: number): Promise<void> {
+    agents.forEach((agent) => this.agents.set(agent.agentId, structuredClone(agent)));
+    this.checkpoint = checkpoint;
+  }
+}
+
+/**
+ * Agent index store persisted to a JSON file (written atomically)
+ */
+export class JsonFileAgentIndexStore extends MemoryAgentIndexStore {
+  constructor(private path: string) {
+    super();
+    if (existsSync(path)) {
+      const data = JSON.parse(readFileSync(path, 'utf8'));
+      this.checkpoint = data.checkpoint ?? null;
+      (data.agents ?? []).forEach((agent: IndexedAgent) => this.agents.set(agent.agentId, agent));
+    }
+  }
+
+  async commit(agents: IndexedAgent[], checkpoint: number): Promise<void> {
+    await super.commit(agents, checkpoint);
+    const data = { checkpoint: this.checkpoint, agents: [...this.agents.values()] };
+    const tmp = `${this.path}.tmp`;
+    writeFileSync(tmp, JSON.stringify(data, null, 2));
+    renameSync(tmp, this.path);
+  }
+}
+
+/**
+ * Indexes agents from identity registry events.
+ */
+export class AgentIndexer {
+  private contract: ethers.Contract;
+  private provider: ethers.Provider;
+  private store: AgentIndexStore;
+  private uriResolver: UriResolver;
+  private startBlock: number;
+  private blockRange: number;
+  private confirmations: number;
+  private timer?: NodeJS.Timeout;
+  private syncing?: Promise<IndexerSyncResult>;
+
+  constructor(config: AgentIndexerConfig) {
+    this.provider = config.provider;
+    this.contract = new ethers.Contract(
+      config.identityRegistry,
+      IDENTITY_REGISTRY_ABI,
+      config.provider
+    );
+    this.store = config.store ?? new MemoryAgentIndexStore();
+    this.uriResolver = config.uriResolver ?? new UriResolver();
+    this.startBlock = config.startBlock ?? 0;
+    this.blockRange = config.blockRange ?? 2000;
+    this.confirmations = config.confirmations ?? 0;
+  }
+
+  /**
+   * Index events from the checkpoint up to `toBlock` (default the confirmed
+   * head). Progress is committed after every block range.
+   */
+  async sync(toBlock?: number): Promise<IndexerSyncResult> {
+    // Never run two syncs over the same range
+    if (!this.syncing) {
+      this.syncing = this.runSync(toBlock).finally(() => (this.syncing = undefined));
+    }
+    return this.syncing;
+  }
+
+  /**
+   * Sync now and then every `intervalMs`
+   */
+  start(intervalMs: number = 15000): void {
+    if (this.timer) return;
+    const tick = () =>
+      this.sync().catch((error) => console.error('❌ Agent indexer sync failed:', error));
+    tick();
+    this.timer = setInterval(tick, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async getCheckpoint(): Promise<number | null> {
+    return this.store.getCheckpoint();
+  }
+
+  async getAgent(agentId: bigint | string): Promise<IndexedAgent | null> {
+    return this.store.getAgent(agentId.toString());
+  }
+
+  /**
+   * Find indexed agents matching every field of the query
+   */
+  async queryAgents(query: AgentQuery = {}): Promise<IndexedAgent[]> {
+    const agents = await this.store.listAgents();
+    return agents
+      .filter((agent) => matchesQuery(agent, query))
+      .sort((a, b) => Number(BigInt(a.agentId) - BigInt(b.agentId)));
+  }
+
+  private async runSync(toBlock?: number): Promise<IndexerSyncResult> {
+    const checkpoint = await this.store.getCheckpoint();
+    const fromBlock = checkpoint === null ? this.startBlock : checkpoint + 1;
+    const head = toBlock ?? (await this.provider.getBlockNumber()) - this.confirmations;
+    const result: IndexerSyncResult = { fromBlock, toBlock: head, events: 0, agentsUpdated: 0 };
+
+    for (let start = fromBlock; start <= head; start += this.blockRange) {
+      const end = Math.min(start + this.blockRange - 1, head);
+      const { events, agents } = await this.indexRange(start, end);
+      await this.store.commit(agents, end);
+      result.events += events;
+      result.agentsUpdated += agents.length;
+    }
+
+    if (result.events > 0) {
+      console.log(
+        `🗂️  Indexed ${result.events} registry events (${result.agentsUpdated} agent updates) ` +
+          `up to block ${head}`
+      );
+    }
+    return result;
+  }
+
+  private async indexRange(
+    fromBlock: number,
+    toBlock: number
+  ): Promise<{ events: number; agents: IndexedAgent[] }> {
+    const logs = (await this.contract.queryFilter('*', fromBlock, toBlock))
+      .filter((log): log is ethers.EventLog => 'eventName' in log)
+      .filter((log) => INDEXED_EVENTS.has(log.eventName))
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+    const touched = new Map<string, IndexedAgent>();
+    const unresolved = new Set<string>();
+    const load = async (agentId: bigint, blockNumber: number) => {
+      const id = agentId.toString();
+      let agent = touched.get(id) ?? (await this.store.getAgent(id));
+      if (!agent) {
+        agent = {
+          agentId: id,
+          owner: ethers.ZeroAddress,
+          tokenUri: '',
+          registration: null,
+          resolutionError: null,
+          metadata: {},
+          status: { status: 'active' },
+          registeredBlock: blockNumber,
+          updatedBlock: blockNumber,
+        };
+      }
+      agent.updatedBlock = blockNumber;
+      touched.set(id, agent);
+      return agent;
+    };
+
+    for (const log of logs) {
+      const args = log.args;
+      switch (log.eventName) {
+        case 'Registered': {
+          const agent = await load(args.agentId, log.blockNumber);
+          agent.owner = ethers.getAddress(args.owner);
+          agent.tokenUri = args.tokenURI;
+          agent.registeredBlock = log.blockNumber;
+          unresolved.add(agent.agentId);
+          break;
+        }
+        case 'UriUpdated': {
+          const agent = await load(args.agentId, log.blockNumber);
+          agent.tokenUri = args.newUri;
+          unresolved.add(agent.agentId);
+          break;
+        }
+        case 'MetadataSet': {
+          const agent = await load(args.agentId, log.blockNumber);
+          agent.metadata[args.key] = args.value;
+          break;
+        }
+        case 'Transfer': {
+          const agent = await load(args.tokenId, log.blockNumber);
+          agent.owner = ethers.getAddress(args.to);
+          break;
+        }
+      }
+    }
+
+    for (const id of unresolved) {
+      await this.resolveRegistration(touched.get(id)!);
+    }
+    for (const agent of touched.values()) {
+      agent.status = resolveAgentStatus(
+        agent.metadata[METADATA_KEYS.AGENT_STATUS],
+        agent.registration
+      );
+    }
+
+    return { events: logs.length, agents: [...touched.values()] };
+  }
+
+  private async resolveRegistration(agent: IndexedAgent): Promise<void> {
+    agent.registration = null;
+    agent.resolutionError = null;
+    if (!agent.tokenUri) return;
+
+    try {
+      const document = await this.uriResolver.resolveJson<Partial<AgentMetadata> | null>(
+        agent.tokenUri
+      );
+      if (isRegistrationFile(document)) {
+        agent.registration = document;
+      } else if (typeof document?.name === 'string') {
+        // Metadata registered by earlier SDK versions
+        agent.registration = registrationFileFromMetadata(document as AgentMetadata);
+      } else {
+        agent.resolutionError = {
+          reason: 'invalid_content',
+          message: 'Token URI does not point to a registration file',
+        };
+      }
+    } catch (error) {
+      agent.resolutionError = {
+        reason: error instanceof UriResolutionError ? error.reason : 'invalid_content',
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+}
+
+function matchesQuery(agent: IndexedAgent, query: AgentQuery): boolean {
+  const file: Record<string, unknown> = agent.registration ?? {};
+  const lower = (value: unknown) => String(value ?? '').toLowerCase();
+  const list = (value: unknown): string[] => (Array.isArray(value) ? value.map(String) : []);
+
+  if (query.owner && lower(agent.owner) !== lower(query.owner)) return false;
+  if (query.role && lower(file.role) !== lower(query.role)) return false;
+  if (query.domain && lower(file.domain) !== lower(query.domain)) return false;
+  if (query.status) {
+    const statuses = Array.isArray(query.status) ? query.status : [query.status];
+    // Agents indexed before statuses were tracked count as active
+    if (!statuses.includes(agent.status?.status ?? 'active')) return false;
+  }
+  if (query.capability && !list(file.capabilities).includes(query.capability)) return false;
+  if (query.supportedTrust) {
+    const required = Array.isArray(query.supportedTrust)
+      ? query.supportedTrust
+      : [query.supportedTrust];
+    const supported = list(file.supportedTrust);
+    if (!required.every((trust) => supported.includes(trust))) return false;
+  }
+  return true;
+}
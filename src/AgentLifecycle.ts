@@ -0,0 +1,149 @@
+/**
+ * Agent lifecycle status: active, paused, deprecated and retired.
+ *
+ * The status is published twice: as the `lifecycle` field of the
+ * registration file (with the ERC-8004 `active` flag kept in sync) and as the
+ * `agentStatus` on-chain metadata entry. The on-chain entry wins when both
+ * are present, since it cannot go stale behind a cached token URI.
+ *
+ * - paused: temporarily unavailable (maintenance), optionally until a date
+ * - deprecated: still serving, but clients should move to the successor
+ * - retired: permanently shut down; no status change is allowed afterwards
+ */
+
+import { ethers } from 'ethers';
+import { ValidationError } from './exceptions';
+import { MetadataCodecs } from './utils/metadata';
+import { AgentRegistrationFile } from './RegistrationFile';
+
+export type AgentStatus = 'active' | 'paused' | 'deprecated' | 'retired';
+
+export const AGENT_STATUSES: readonly AgentStatus[] = ['active', 'paused', 'deprecated', 'retired'];
+
+export interface AgentStatusRecord {
+  status: AgentStatus;
+  reason?: string;
+  /** Agent ID (decimal string) clients should move to */
+  successor?: string;
+  /** When a pause is expected to end (ISO 8601) */
+  until?: string;
+  /** When the status was set (ISO 8601) */
+  since?: string;
+}
+
+export interface AgentStatusOptions {
+  reason?: string;
+  /** Agent clients should move to (deprecated and retired only) */
+  successor?: bigint;
+  /** When a pause is expected to end (paused only) */
+  until?: Date | string;
+}
+
+export const ACTIVE_STATUS: AgentStatusRecord = { status: 'active' };
+
+/**
+ * Build a status record, checking the options make sense for the status
+ */
+export function createAgentStatus(
+  status: AgentStatus,
+  options: AgentStatusOptions = {}
+): AgentStatusRecord {
+  if (!AGENT_STATUSES.includes(status)) {
+    throw new ValidationError(`Unknown agent status: ${status}`);
+  }
+  if (options.successor !== undefined && status !== 'deprecated' && status !== 'retired') {
+    throw new ValidationError('A successor can only be set for deprecated or retired agents');
+  }
+  if (options.until !== undefined && status !== 'paused') {
+    throw new ValidationError('An end date can only be set for paused agents');
+  }
+
+  const record: AgentStatusRecord = { status, since: new Date().toISOString() };
+  if (options.reason) record.reason = options.reason;
+  if (options.successor !== undefined) record.successor = options.successor.toString();
+  if (options.until !== undefined) {
+    const until = new Date(options.until);
+    if (Number.isNaN(until.getTime())) {
+      throw new ValidationError(`Invalid pause end date: ${options.until}`);
+    }
+    record.until = until.toISOString();
+  }
+  return record;
+}
+
+/**
+ * Check a status change is allowed: retired is final and an agent cannot
+ * name itself as its successor
+ */
+export function assertStatusTransition(
+  agentId: bigint,
+  current: AgentStatusRecord,
+  next: AgentStatusRecord
+): void {
+  if (current.status === 'retired') {
+    throw new ValidationError(`Agent #${agentId} is retired and cannot change status`, {
+      current,
+    });
+  }
+  if (next.successor === agentId.toString()) {
+    throw new ValidationError(`Agent #${agentId} cannot be its own successor`);
+  }
+}
+
+/**
+ * Parse a status record from untrusted data; null when it is not one
+ */
+export function parseAgentStatus(value: unknown): AgentStatusRecord | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const record = value as Record<string, unknown>;
+  if (!AGENT_STATUSES.includes(record.status as AgentStatus)) return null;
+
+  const parsed: AgentStatusRecord = { status: record.status as AgentStatus };
+  for (const key of ['reason', 'successor', 'until', 'since'] as const) {
+    if (typeof record[key] === 'string') parsed[key] = record[key] as string;
+  }
+  return parsed;
+}
+
+/**
+ * Status of an agent from its on-chain `agentStatus` entry (hex bytes) and
+ * its registration file; active when neither publishes one
+ */
+export function resolveAgentStatus(
+  onChain: ethers.BytesLike | null | undefined,
+  registration?: Record<string, unknown> | null
+): AgentStatusRecord {
+  if (onChain && ethers.getBytes(onChain).length > 0) {
+    try {
+      const record = parseAgentStatus(MetadataCodecs.json.decode(onChain));
+      if (record) return record;
+    } catch {
+      // Malformed entries fall back to the registration file
+    }
+  }
+
+  const fromFile = parseAgentStatus(registration?.lifecycle);
+  if (fromFile) return fromFile;
+  if (registration?.active === false) return { status: 'paused' };
+  return { ...ACTIVE_STATUS };
+}
+
+/**
+ * Copy of a registration file publishing the given status
+ */
+export function withAgentStatus(
+  file: AgentRegistrationFile,
+  record: AgentStatusRecord
+): AgentRegistrationFile {
+  const updated: AgentRegistrationFile = { ...file, active: acceptsNewCalls(record) };
+  delete updated.lifecycle;
+  return record.status === 'active' ? updated : { ...updated, lifecycle: record };
+}
+
+/**
+ * Whether an agent in this status should take new (paid) calls. Deprecated
+ * agents keep serving while clients migrate.
+ */
+export function acceptsNewCalls(record: AgentStatusRecord): boolean {
+  return record.status === 'active' || record.status === 'deprecated';
+}
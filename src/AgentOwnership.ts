@@ -0,0 +1,305 @@
+/**
+ * Agent NFT ownership: operator delegation, safe transfers and key rotation.
+ *
+ * The identity registry is an ERC-721, so an owner can delegate metadata
+ * management (setAgentUri, setMetadata) to an operator key through approve or
+ * setApprovalForAll. Transfers go through safeTransferFrom after pre-checks
+ * that catch receivers unable to hold the NFT and in-flight work (pending
+ * validations, outstanding feedback authorizations) that a new owner would
+ * invalidate.
+ */
+
+import { ethers } from 'ethers';
+import { ChaosAgent } from './ChaosAgent';
+import { AgentTransferError } from './exceptions';
+import { MetadataCodecs, METADATA_KEYS } from './utils/metadata';
+import {
+  AgentRegistrationFile,
+  isRegistrationFile,
+  registrationFileFromMetadata,
+  validateRegistrationFile,
+} from './RegistrationFile';
+
+export interface AgentOwnershipConfig {
+  /** Number of feedback authorizations issued for an agent that are still usable */
+  getOutstandingFeedbackAuths?: (agentId: bigint) => Promise<number>;
+  /** First block searched for ApprovalForAll events (default 0) */
+  fromBlock?: number;
+}
+
+export interface TransferPrecheck {
+  agentId: bigint;
+  from: string;
+  to: string;
+  receiverType: 'eoa' | 'contract';
+  /** Validation requests of the agent that have no response yet */
+  pendingValidations: string[];
+  outstandingFeedbackAuths: number;
+  /** Reasons the transfer would fail or strand the agent */
+  blockers: string[];
+  /** Reasons the transfer would break in-flight work */
+  warnings: string[];
+}
+
+export interface SafeTransferOptions {
+  /** Transfer despite warnings (blockers always stop the transfer) */
+  force?: boolean;
+}
+
+export interface KeyRotationOptions extends SafeTransferOptions {
+  /** Wallet to move the agent to (default a fresh random wallet) */
+  newWallet?: ethers.Wallet | ethers.HDNodeWallet;
+}
+
+export interface KeyRotationResult {
+  agentId: bigint;
+  previousOwner: string;
+  newWallet: ethers.Wallet | ethers.HDNodeWallet;
+  /** Re-issued registration file (null when the agent has no token URI) */
+  registrationFile: AgentRegistrationFile | null;
+  steps: { step: 'registration_file' | 'agent_wallet_metadata' | 'transfer'; txHash: string }[];
+}
+
+/**
+ * Manages operators and ownership transfers of agent NFTs.
+ */
+export class AgentOwnership {
+  constructor(
+    private chaosAgent: ChaosAgent,
+    private signer: ethers.Signer,
+    private config: AgentOwnershipConfig = {}
+  ) {}
+
+  // ============================================================================
+  // Delegation
+  // ============================================================================
+
+  /**
+   * Delegate metadata management to an operator, for one agent or (without
+   * agentId) for every agent of the signer
+   */
+  async delegate(operator: string, agentId?: bigint): Promise<string> {
+    const address = ethers.getAddress(operator);
+    const txHash =
+      agentId === undefined
+        ? await this.chaosAgent.setApprovalForAll(address, true)
+        : await this.chaosAgent.approve(agentId, address);
+    console.log(`🔑 Operator ${address} approved for ${agentId ?? 'all agents'}`);
+    return txHash;
+  }
+
+  /**
+   * Revoke an operator approved with delegate()
+   */
+  async revoke(operator: string, agentId?: bigint): Promise<string> {
+    const address = ethers.getAddress(operator);
+    if (agentId === undefined) {
+      return this.chaosAgent.setApprovalForAll(address, false);
+    }
+    const approved = await this.chaosAgent.getApproved(agentId);
+    if (approved.toLowerCase() !== address.toLowerCase()) {
+      throw new AgentTransferError(`${address} is not the approved address of agent #${agentId}`, {
+        approved,
+      });
+    }
+    return this.chaosAgent.approve(agentId, ethers.ZeroAddress);
+  }
+
+  /**
+   * Operators currently approved for all agents of an owner (default the signer)
+   */
+  async listOperators(owner?: string): Promise<string[]> {
+    const address = owner ?? (await this.signer.getAddress());
+    const events = await this.chaosAgent.getOperatorApprovalEvents(address, this.config.fromBlock);
+    const candidates = new Set(events.map((e) => ethers.getAddress(e.args.operator)));
+
+    const operators: string[] = [];
+    for (const operator of candidates) {
+      if (await this.chaosAgent.isApprovedForAll(address, operator)) {
+        operators.push(operator);
+      }
+    }
+    return operators;
+  }
+
+  /**
+   * Address approved for a single agent, or null
+   */
+  async getApproved(agentId: bigint): Promise<string | null> {
+    const approved = await this.chaosAgent.getApproved(agentId);
+    return approved === ethers.ZeroAddress ? null : approved;
+  }
+
+  // ============================================================================
+  // Transfers
+  // ============================================================================
+
+  /**
+   * Check a transfer before sending it
+   */
+  async precheckTransfer(agentId: bigint, to: string): Promise<TransferPrecheck> {
+    const blockers: string[] = [];
+    const warnings: string[] = [];
+    const from = ethers.getAddress(await this.chaosAgent.getAgentOwner(agentId));
+    const caller = await this.signer.getAddress();
+
+    const precheck: TransferPrecheck = {
+      agentId,
+      from,
+      to,
+      receiverType: 'eoa',
+      pendingValidations: [],
+      outstandingFeedbackAuths: 0,
+      blockers,
+      warnings,
+    };
+
+    if (!ethers.isAddress(to) || to.toLowerCase() === ethers.ZeroAddress) {
+      blockers.push(`Receiver ${to} is not a valid address`);
+      return precheck;
+    }
+    precheck.to = ethers.getAddress(to);
+    if (precheck.to === from) {
+      blockers.push(`Agent #${agentId} is already owned by ${from}`);
+    }
+
+    if (caller.toLowerCase() !== from.toLowerCase()) {
+      const approved = await this.chaosAgent.getApproved(agentId);
+      const isOperator = await this.chaosAgent.isApprovedForAll(from, caller);
+      if (approved.toLowerCase() !== caller.toLowerCase() && !isOperator) {
+        blockers.push(`${caller} is neither the owner nor approved for agent #${agentId}`);
+      }
+    }
+
+    const code = await this.signer.provider?.getCode(precheck.to);
+    if (code && code !== '0x') {
+      precheck.receiverType = 'contract';
+      try {
+        await this.chaosAgent.simulateSafeTransfer(agentId, from, precheck.to);
+      } catch (error) {
+        blockers.push(
+          `Contract ${precheck.to} does not accept ERC-721 tokens: ${(error as Error).message}`
+        );
+      }
+    }
+
+    for (const requestHash of await this.chaosAgent.getAgentValidations(agentId)) {
+      const status = await this.chaosAgent.getValidationStatus(requestHash);
+      if (Number(status.response) === 0 && status.responseHash === ethers.ZeroHash) {
+        precheck.pendingValidations.push(requestHash);
+      }
+    }
+    if (precheck.pendingValidations.length > 0) {
+      warnings.push(
+        `${precheck.pendingValidations.length} validation request(s) are still pending`
+      );
+    }
+
+    if (this.config.getOutstandingFeedbackAuths) {
+      precheck.outstandingFeedbackAuths = await this.config.getOutstandingFeedbackAuths(agentId);
+      if (precheck.outstandingFeedbackAuths > 0) {
+        warnings.push(
+          `${precheck.outstandingFeedbackAuths} feedback authorization(s) signed by the ` +
+            'current owner become unusable after the transfer'
+        );
+      }
+    }
+
+    return precheck;
+  }
+
+  /**
+   * Transfer an agent with safeTransferFrom after pre-checks
+   * @throws AgentTransferError when a pre-check blocks the transfer, or warns
+   *   and `force` is not set
+   */
+  async safeTransfer(
+    agentId: bigint,
+    to: string,
+    options: SafeTransferOptions = {}
+  ): Promise<{ txHash: string; precheck: TransferPrecheck }> {
+    const precheck = await this.assertTransferable(agentId, to, options);
+    const txHash = await this.chaosAgent.safeTransferAgent(agentId, precheck.to, precheck.from);
+    console.log(`✅ Agent #${agentId} transferred to ${precheck.to}`);
+    return { txHash, precheck };
+  }
+
+  /**
+   * Move an agent to a fresh key: re-issue the registration file (and the
+   * on-chain agentWallet entry, if set) for the new wallet while the current
+   * key still controls the agent, then transfer it
+   */
+  async rotateKey(agentId: bigint, options: KeyRotationOptions = {}): Promise<KeyRotationResult> {
+    const newWallet = options.newWallet ?? ethers.Wallet.createRandom();
+    const precheck = await this.assertTransferable(agentId, newWallet.address, options);
+    const steps: KeyRotationResult['steps'] = [];
+
+    // Re-issue the registration file with the new wallet; agents without a
+    // token URI have nothing to re-issue
+    const { chainId } = await this.signer.provider!.getNetwork();
+    const current = await this.chaosAgent.getAgentMetadata(agentId);
+    let registrationFile: AgentRegistrationFile | null = null;
+    if (current) {
+      const file = isRegistrationFile(current) ? current : registrationFileFromMetadata(current);
+      registrationFile = validateRegistrationFile({
+        ...file,
+        endpoints: [
+          ...file.endpoints.filter((endpoint) => endpoint.name !== 'agentWallet'),
+          { name: 'agentWallet', endpoint: `eip155:${chainId}:${newWallet.address}` },
+        ],
+      });
+      steps.push({
+        step: 'registration_file',
+        txHash: await this.chaosAgent.updateAgentMetadata(agentId, registrationFile),
+      });
+    }
+
+    const agentWallet = await this.chaosAgent.getMetadata(
+      agentId,
+      METADATA_KEYS.AGENT_WALLET,
+      MetadataCodecs.address
+    );
+    if (agentWallet) {
+      steps.push({
+        step: 'agent_wallet_metadata',
+        txHash: await this.chaosAgent.setMetadata(
+          agentId,
+          METADATA_KEYS.AGENT_WALLET,
+          newWallet.address,
+          MetadataCodecs.address
+        ),
+      });
+    }
+
+    steps.push({
+      step: 'transfer',
+      txHash: await this.chaosAgent.safeTransferAgent(agentId, newWallet.address, precheck.from),
+    });
+
+    console.log(`🔄 Agent #${agentId} rotated to ${newWallet.address}`);
+    console.log('⚠️  Store the new wallet key now: the old key no longer controls the agent');
+    return { agentId, previousOwner: precheck.from, newWallet, registrationFile, steps };
+  }
+
+  private async assertTransferable(
+    agentId: bigint,
+    to: string,
+    options: SafeTransferOptions
+  ): Promise<TransferPrecheck> {
+    const precheck = await this.precheckTransfer(agentId, to);
+    const details = { ...precheck, agentId: agentId.toString() };
+    if (precheck.blockers.length > 0) {
+      throw new AgentTransferError(
+        `Transfer of agent #${agentId} blocked: ${precheck.blockers.join('; ')}`,
+        details
+      );
+    }
+    if (precheck.warnings.length > 0 && !options.force) {
+      throw new AgentTransferError(
+        `Transfer of agent #${agentId} needs force: ${precheck.warnings.join('; ')}`,
+        details
+      );
+    }
+    return precheck;
+  }
+}
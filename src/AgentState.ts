@@ -0,0 +1,49 @@
+/**
+ * Local state file remembering which agent ID a wallet resolved to on each
+ * identity registry, so restarts neither forget the ID nor register again.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+
+export const DEFAULT_AGENT_STATE_FILE = join('.chaoschain', 'agents.json');
+
+export interface AgentStateEntry {
+  agentId: string;
+  owner: string;
+  chainId: number;
+  identityRegistry: string;
+  tokenUri: string;
+  updatedAt: string;
+}
+
+/**
+ * JSON file of agent IDs keyed by chain, registry and owner
+ */
+export class AgentStateFile {
+  constructor(private path: string = DEFAULT_AGENT_STATE_FILE) {}
+
+  static key(chainId: number, identityRegistry: string, owner: string): string {
+    return `eip155:${chainId}:${identityRegistry.toLowerCase()}:${owner.toLowerCase()}`;
+  }
+
+  get(chainId: number, identityRegistry: string, owner: string): AgentStateEntry | null {
+    return this.read()[AgentStateFile.key(chainId, identityRegistry, owner)] ?? null;
+  }
+
+  set(entry: Omit<AgentStateEntry, 'updatedAt'>): AgentStateEntry {
+    const saved = { ...entry, updatedAt: new Date().toISOString() };
+    const data = this.read();
+    data[AgentStateFile.key(entry.chainId, entry.identityRegistry, entry.owner)] = saved;
+
+    mkdirSync(dirname(this.path), { recursive: true });
+    const tmp = `${this.path}.tmp`;
+    writeFileSync(tmp, JSON.stringify(data, null, 2));
+    renameSync(tmp, this.path);
+    return saved;
+  }
+
+  private read(): Record<string, AgentStateEntry> {
+    return existsSync(this.path) ? JSON.parse(readFileSync(this.path, 'utf8')) : {};
+  }
+}
@@ -13,25 +13,48 @@ import {
   ValidationRequest,
   ValidationStatus,
   ContractAddresses,
+  LogQueryConfig,
+  MetadataEntry,
+  MetadataHistoryEntry,
 } from './types';
 import {
   IDENTITY_REGISTRY_ABI,
   REPUTATION_REGISTRY_ABI,
   VALIDATION_REGISTRY_ABI,
 } from './utils/contracts';
+import { MetadataCodec } from './utils/metadata';
+import { ConfigurationError } from './exceptions';
+import {
+  AgentRegistrationFile,
+  encodeRegistrationDataUri,
+  isRegistrationFile,
+  registrationFileFromMetadata,
+} from './RegistrationFile';
+import { UriResolver } from './resolver';
+import { encodeTag } from './FeedbackTags';
 
 export class ChaosAgent {
   private identityContract: ethers.Contract;
   private reputationContract: ethers.Contract;
   private validationContract: ethers.Contract;
   private signer: ethers.Signer;
+  private provider: ethers.Provider;
+  private uriResolver: UriResolver;
+  private startBlock?: number;
+  private blockRange: number;
 
   constructor(
     addresses: ContractAddresses,
     signer: ethers.Signer,
-    _provider: ethers.Provider
+    provider: ethers.Provider,
+    uriResolver: UriResolver = new UriResolver(),
+    logQuery: LogQueryConfig = {}
   ) {
     this.signer = signer;
+    this.provider = provider;
+    this.uriResolver = uriResolver;
+    this.startBlock = logQuery.startBlock ?? addresses.deploymentBlock;
+    this.blockRange = logQuery.blockRange ?? 2000;
 
     // Initialize contract instances
     this.identityContract = new ethers.Contract(
@@ -57,16 +80,40 @@ export class ChaosAgent {
 
   /**
    * Register a new agent identity (ERC-8004)
+   *
+   * The metadata is converted to an ERC-8004 registration file and stored
+   * inline as a base64 data URI.
+   * @param metadata Agent metadata or a complete registration file
+   * @param onChainMetadata Key/value entries stored in the registry at registration
    */
-  async registerIdentity(metadata?: AgentMetadata): Promise<AgentRegistration> {
-    // Create metadata URI (JSON)
-    const uri = metadata ? `data:application/json,${JSON.stringify(metadata)}` : '';
+  async registerIdentity(
+    metadata?: AgentMetadata | AgentRegistrationFile,
+    onChainMetadata: MetadataEntry[] = []
+  ): Promise<AgentRegistration> {
+    const uri = metadata ? encodeRegistrationDataUri(this.toRegistrationFile(metadata)) : '';
+    return this.registerWithTokenUri(uri, onChainMetadata);
+  }
 
+  /**
+   * Register a new agent identity pointing at an existing token URI (ERC-8004)
+   * @param tokenUri URI of the registration file (ipfs://, https://, data:, ...)
+   * @param onChainMetadata Key/value entries stored in the registry at registration
+   */
+  async registerWithTokenUri(
+    tokenUri: string,
+    onChainMetadata: MetadataEntry[] = []
+  ): Promise<AgentRegistration> {
     // Call register with the appropriate overload
     let tx;
-    if (uri) {
+    if (onChainMetadata.length > 0) {
+      // Use register(string, (string,bytes)[]) overload
+      tx = await this.identityContract['register(string,(string,bytes)[])'](
+        tokenUri,
+        onChainMetadata.map((entry) => [entry.key, entry.value])
+      );
+    } else if (tokenUri) {
       // Use register(string) overload
-      tx = await this.identityContract['register(string)'](uri);
+      tx = await this.identityContract['register(string)'](tokenUri);
     } else {
       // Use register() overload
       tx = await this.identityContract['register()']();
@@ -100,39 +147,28 @@ export class ChaosAgent {
 
   /**
    * Get agent metadata
+   *
+   * Returns null when the agent has no token URI. Content that cannot be
+   * fetched, fails verification or is not JSON throws a UriResolutionError.
    */
   async getAgentMetadata(agentId: bigint): Promise<AgentMetadata | null> {
-    try {
-      const uri = await this.identityContract.tokenURI(agentId);
-      
-      if (!uri) {
-        return null;
-      }
-
-      // Parse data URI
-      if (uri.startsWith('data:application/json,')) {
-        const json = uri.substring('data:application/json,'.length);
-        return JSON.parse(decodeURIComponent(json));
-      }
+    const uri = await this.identityContract.tokenURI(agentId);
+    if (!uri) {
+      return null;
+    }
 
-      // Parse ipfs:// URI (fetch from gateway)
-      if (uri.startsWith('ipfs://')) {
-        const cid = uri.substring(7);
-        const response = await fetch(`https://ipfs.io/ipfs/${cid}`);
-        return response.json();
-      }
+    return this.uriResolver.resolveJson<AgentMetadata>(uri);
+  }
 
-      // Parse https:// URI
-      if (uri.startsWith('https://') || uri.startsWith('http://')) {
-        const response = await fetch(uri);
-        return response.json();
-      }
+  /**
+   * Resolver used for token URIs (data:, ipfs://, ar://, 0g://, https://)
+   */
+  getUriResolver(): UriResolver {
+    return this.uriResolver;
+  }
 
-      return null;
-    } catch (error) {
-      console.error('Failed to get agent metadata:', error);
-      return null;
-    }
+  setUriResolver(resolver: UriResolver): void {
+    this.uriResolver = resolver;
   }
 
   /**
@@ -147,11 +183,87 @@ export class ChaosAgent {
   /**
    * Update agent metadata
    */
-  async updateAgentMetadata(agentId: bigint, metadata: AgentMetadata): Promise<string> {
-    const uri = `data:application/json,${JSON.stringify(metadata)}`;
+  async updateAgentMetadata(
+    agentId: bigint,
+    metadata: AgentMetadata | AgentRegistrationFile
+  ): Promise<string> {
+    const uri = encodeRegistrationDataUri(this.toRegistrationFile(metadata));
     return this.setAgentUri(agentId, uri);
   }
 
+  private toRegistrationFile(
+    metadata: AgentMetadata | AgentRegistrationFile
+  ): AgentRegistrationFile {
+    return isRegistrationFile(metadata)
+      ? metadata
+      : registrationFileFromMetadata(metadata as AgentMetadata);
+  }
+
+  /**
+   * Set an on-chain metadata value (ERC-8004)
+   * @param codec Encoding of the value, e.g. MetadataCodecs.address
+   */
+  async setMetadata<T>(
+    agentId: bigint,
+    key: string,
+    value: T,
+    codec: MetadataCodec<T>
+  ): Promise<string> {
+    const tx = await this.identityContract.setMetadata(agentId, key, codec.encode(value));
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+
+  /**
+   * Get an on-chain metadata value (ERC-8004)
+   * @returns The decoded value, or null when the key is not set
+   */
+  async getMetadata<T>(agentId: bigint, key: string, codec: MetadataCodec<T>): Promise<T | null> {
+    const value: string = await this.identityContract.getMetadata(agentId, key);
+    if (!value || value === '0x') {
+      return null;
+    }
+    return codec.decode(value);
+  }
+
+  /**
+   * List every value a metadata key has held, oldest first, from MetadataSet events
+   * @param fromBlock First block to search (defaults to the configured start block)
+   */
+  async getMetadataHistory<T>(
+    agentId: bigint,
+    key: string,
+    codec: MetadataCodec<T>,
+    fromBlock?: number
+  ): Promise<MetadataHistoryEntry<T>[]> {
+    const filter = this.identityContract.filters.MetadataSet(agentId, key);
+    const events = await this.queryLogs(this.identityContract, filter, fromBlock);
+
+    return events.map((e) => ({
+        agentId: e.args.agentId,
+        key: e.args.key,
+        value: codec.decode(e.args.value),
+        rawValue: e.args.value,
+        blockNumber: e.blockNumber,
+        txHash: e.transactionHash,
+        logIndex: e.index,
+      }));
+  }
+
+  /**
+   * Registered, UriUpdated and MetadataSet events of an agent, oldest first
+   */
+  async getIdentityEvents(agentId: bigint, fromBlock?: number): Promise<ethers.EventLog[]> {
+    const { filters } = this.identityContract;
+    const batches = await Promise.all(
+      [filters.Registered(agentId), filters.UriUpdated(agentId), filters.MetadataSet(agentId)].map(
+        (filter) => this.queryLogs(this.identityContract, filter, fromBlock)
+      )
+    );
+
+    return sortLogs(batches.flat());
+  }
+
   /**
    * Check if agent exists
    */
@@ -166,6 +278,44 @@ export class ChaosAgent {
     return this.identityContract.ownerOf(agentId);
   }
 
+  /**
+   * Get agent token URI
+   */
+  async getAgentUri(agentId: bigint): Promise<string> {
+    return this.identityContract.tokenURI(agentId);
+  }
+
+  /**
+   * IDs of the agents an address currently owns, found through Transfer and
+   * Registered logs
+   */
+  async getOwnedAgentIds(owner: string, fromBlock?: number): Promise<bigint[]> {
+    const balance: bigint = await this.identityContract.balanceOf(owner);
+    if (balance === 0n) {
+      return [];
+    }
+
+    const { filters } = this.identityContract;
+    const [transfers, registrations] = await Promise.all([
+      this.queryLogs(this.identityContract, filters.Transfer(null, owner), fromBlock),
+      this.queryLogs(this.identityContract, filters.Registered(null, null, owner), fromBlock),
+    ]);
+    const candidates = new Set(
+      [...transfers, ...registrations].map(
+        (e) => (e.eventName === 'Transfer' ? e.args.tokenId : e.args.agentId) as bigint
+      )
+    );
+
+    const owned: bigint[] = [];
+    for (const agentId of candidates) {
+      const current: string = await this.identityContract.ownerOf(agentId);
+      if (current.toLowerCase() === owner.toLowerCase()) {
+        owned.push(agentId);
+      }
+    }
+    return owned.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  }
+
   /**
    * Get total number of agents
    */
@@ -183,6 +333,70 @@ export class ChaosAgent {
     return receipt.hash;
   }
 
+  /**
+   * Transfer agent ownership with safeTransferFrom (contract receivers must
+   * implement onERC721Received)
+   */
+  async safeTransferAgent(agentId: bigint, to: string, from?: string): Promise<string> {
+    const owner = from ?? (await this.signer.getAddress());
+    const tx = await this.identityContract['safeTransferFrom(address,address,uint256)'](
+      owner,
+      to,
+      agentId
+    );
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+
+  /**
+   * Simulate a safe transfer; resolves when it would succeed, rejects with the
+   * revert otherwise
+   */
+  async simulateSafeTransfer(agentId: bigint, from: string, to: string): Promise<void> {
+    await this.identityContract['safeTransferFrom(address,address,uint256)'].staticCall(
+      from,
+      to,
+      agentId
+    );
+  }
+
+  /**
+   * Approve an address to manage a single agent (zero address clears it)
+   */
+  async approve(agentId: bigint, operator: string): Promise<string> {
+    const tx = await this.identityContract.approve(operator, agentId);
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+
+  /**
+   * Approve or revoke an operator for every agent of the signer
+   */
+  async setApprovalForAll(operator: string, approved: boolean): Promise<string> {
+    const tx = await this.identityContract.setApprovalForAll(operator, approved);
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+
+  /**
+   * Address approved for a single agent (zero address when none)
+   */
+  async getApproved(agentId: bigint): Promise<string> {
+    return this.identityContract.getApproved(agentId);
+  }
+
+  async isApprovedForAll(owner: string, operator: string): Promise<boolean> {
+    return this.identityContract.isApprovedForAll(owner, operator);
+  }
+
+  /**
+   * ApprovalForAll events emitted for an owner, oldest first
+   */
+  async getOperatorApprovalEvents(owner: string, fromBlock?: number): Promise<ethers.EventLog[]> {
+    const filter = this.identityContract.filters.ApprovalForAll(owner);
+    return this.queryLogs(this.identityContract, filter, fromBlock);
+  }
+
   // ============================================================================
   // Reputation Registry Methods
   // ============================================================================
@@ -264,12 +478,13 @@ export class ChaosAgent {
 
     // ERC-8004 v1.0 requires: (agentId, score, tag1, tag2, feedbackUri, feedbackHash, feedbackAuth)
     const score = rating; // 0-100
-    const tag1 = feedbackData?.tag1 || ethers.ZeroHash; // bytes32
-    const tag2 = feedbackData?.tag2 || ethers.ZeroHash; // bytes32
+    const tag1 = encodeTag(feedbackData?.tag1 as string | undefined); // bytes32
+    const tag2 = encodeTag(feedbackData?.tag2 as string | undefined); // bytes32
 
-    // Calculate feedback hash
+    // Calculate feedback hash (unless the caller hashed the uploaded file bytes)
     const feedbackContent = feedbackData?.content || feedbackUri;
-    const feedbackHash = ethers.keccak256(ethers.toUtf8Bytes(feedbackContent));
+    const feedbackHash =
+      params.feedbackHash ?? ethers.keccak256(ethers.toUtf8Bytes(feedbackContent));
 
     // Feedback auth (289 bytes: struct + signature)
     // If not provided, use empty bytes (will work if no auth required or for self-feedback)
@@ -289,6 +504,37 @@ export class ChaosAgent {
     return receipt.hash;
   }
 
+  /**
+   * NewFeedback events of an agent, oldest first
+   * @param clientAddress Only feedback from this client
+   * @param fromBlock First block to search (defaults to the configured start block)
+   */
+  async getFeedbackEvents(
+    agentId: bigint,
+    clientAddress?: string,
+    fromBlock?: number
+  ): Promise<ethers.EventLog[]> {
+    const filter = this.reputationContract.filters.NewFeedback(agentId, clientAddress ?? null);
+    return this.queryLogs(this.reputationContract, filter, fromBlock);
+  }
+
+  /**
+   * ResponseAppended events of an agent's feedback, oldest first
+   * @param clientAddress Only responses to feedback from this client
+   * @param fromBlock First block to search (defaults to the configured start block)
+   */
+  async getResponseEvents(
+    agentId: bigint,
+    clientAddress?: string,
+    fromBlock?: number
+  ): Promise<ethers.EventLog[]> {
+    const filter = this.reputationContract.filters.ResponseAppended(
+      agentId,
+      clientAddress ?? null
+    );
+    return this.queryLogs(this.reputationContract, filter, fromBlock);
+  }
+
   /**
    * Revoke feedback (ERC-8004 v1.0)
    * @param agentId Agent ID that received the feedback
@@ -355,8 +601,8 @@ export class ChaosAgent {
    * Read all feedback for an agent (ERC-8004 v1.0)
    * @param agentId Agent ID
    * @param clientAddresses Array of client addresses (empty array for all clients)
-   * @param tag1 First tag filter (ZeroHash for no filter)
-   * @param tag2 Second tag filter (ZeroHash for no filter)
+   * @param tag1 First tag filter, readable or bytes32 (ZeroHash for no filter)
+   * @param tag2 Second tag filter, readable or bytes32 (ZeroHash for no filter)
    * @param includeRevoked Whether to include revoked feedback
    */
   async readAllFeedback(
@@ -375,8 +621,8 @@ export class ChaosAgent {
     const result = await this.reputationContract.readAllFeedback(
       agentId,
       clientAddresses,
-      tag1,
-      tag2,
+      encodeTag(tag1),
+      encodeTag(tag2),
       includeRevoked
     );
     return {
@@ -392,8 +638,8 @@ export class ChaosAgent {
    * Get summary statistics (ERC-8004 v1.0)
    * @param agentId Agent ID
    * @param clientAddresses Array of client addresses (empty array for all clients)
-   * @param tag1 First tag filter (ZeroHash for no filter)
-   * @param tag2 Second tag filter (ZeroHash for no filter)
+   * @param tag1 First tag filter, readable or bytes32 (ZeroHash for no filter)
+   * @param tag2 Second tag filter, readable or bytes32 (ZeroHash for no filter)
    */
   async getSummary(
     agentId: bigint,
@@ -404,7 +650,12 @@ export class ChaosAgent {
     count: bigint;
     averageScore: number;
   }> {
-    const result = await this.reputationContract.getSummary(agentId, clientAddresses, tag1, tag2);
+    const result = await this.reputationContract.getSummary(
+      agentId,
+      clientAddresses,
+      encodeTag(tag1),
+      encodeTag(tag2)
+    );
     return {
       count: result.count,
       averageScore: Number(result.averageScore),
@@ -472,7 +723,7 @@ export class ChaosAgent {
    * @param response Response score (0-100, where 100 = approved)
    * @param responseUri URI containing response data
    * @param responseHash Hash of the response content (bytes32)
-   * @param tag Optional tag for categorization (bytes32)
+   * @param tag Optional tag for categorization, readable or bytes32
    */
   async respondToValidation(
     requestHash: string,
@@ -489,7 +740,7 @@ export class ChaosAgent {
     // Ensure hashes are bytes32 format
     const reqHashBytes = requestHash.startsWith('0x') ? requestHash : ethers.id(requestHash);
     const resHashBytes = responseHash.startsWith('0x') ? responseHash : ethers.id(responseHash);
-    const tagBytes = tag.startsWith('0x') ? tag : ethers.ZeroHash;
+    const tagBytes = encodeTag(tag);
 
     const tx = await this.validationContract.validationResponse(
       reqHashBytes,
@@ -530,7 +781,7 @@ export class ChaosAgent {
    * Get validation summary statistics (ERC-8004 v1.0)
    * @param agentId Agent ID
    * @param validatorAddresses Array of validator addresses (empty for all)
-   * @param tag Tag filter (ZeroHash for no filter)
+   * @param tag Tag filter, readable or bytes32 (ZeroHash for no filter)
    */
   async getValidationSummary(
     agentId: bigint,
@@ -540,7 +791,7 @@ export class ChaosAgent {
     count: bigint;
     avgResponse: number;
   }> {
-    const tagBytes = tag.startsWith('0x') ? tag : ethers.ZeroHash;
+    const tagBytes = encodeTag(tag);
     const result = await this.validationContract.getSummary(agentId, validatorAddresses, tagBytes);
     return {
       count: result.count,
@@ -583,7 +834,17 @@ export class ChaosAgent {
   }
 
   /**
-   * Listen for NewFeedback events (ERC-8004 v1.0)
+   * Listen for MetadataSet events (ERC-8004 v1.0)
+   */
+  onMetadataSet(
+    callback: (agentId: bigint, indexedKey: ethers.Indexed, key: string, value: string) => void
+  ): void {
+    this.identityContract.on('MetadataSet', callback);
+  }
+
+  /**
+   * Listen for NewFeedback events (ERC-8004 v1.0); `event.log` locates the
+   * feedback on chain
    */
   onNewFeedback(
     callback: (
@@ -593,7 +854,8 @@ export class ChaosAgent {
       tag1: string,
       tag2: string,
       feedbackUri: string,
-      feedbackHash: string
+      feedbackHash: string,
+      event: ethers.ContractEventPayload
     ) => void
   ): void {
     this.reputationContract.on('NewFeedback', callback);
@@ -649,5 +911,33 @@ export class ChaosAgent {
     this.reputationContract.removeAllListeners();
     this.validationContract.removeAllListeners();
   }
+
+  /**
+   * Read a contract's logs from `fromBlock` (default the configured start
+   * block) to the head in `blockRange`-sized requests, oldest first
+   */
+  private async queryLogs(
+    contract: ethers.Contract,
+    filter: ethers.ContractEventName,
+    fromBlock: number | undefined = this.startBlock
+  ): Promise<ethers.EventLog[]> {
+    if (fromBlock === undefined) {
+      throw new ConfigurationError(
+        'Registry deployment block is unknown for this network; ' +
+          'set logQuery.startBlock or pass fromBlock'
+      );
+    }
+    const head = await this.provider.getBlockNumber();
+    const logs: Array<ethers.EventLog | ethers.Log> = [];
+    for (let start = fromBlock; start <= head; start += this.blockRange) {
+      const end = Math.min(start + this.blockRange - 1, head);
+      logs.push(...(await contract.queryFilter(filter, start, end)));
+    }
+    return sortLogs(logs.filter((e): e is ethers.EventLog => 'args' in e));
+  }
+}
+
+function sortLogs(events: ethers.EventLog[]): ethers.EventLog[] {
+  return events.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
 }
 
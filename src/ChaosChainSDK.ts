@@ -3,6 +3,7 @@
  * Production-ready SDK for building verifiable AI agents with complete feature parity to Python SDK
  */
 
+import { createHash } from 'crypto';
 import { ethers } from 'ethers';
 import { WalletManager } from './WalletManager';
 import { ChaosAgent } from './ChaosAgent';
@@ -11,8 +12,71 @@ import { PaymentManager, PaymentMethodCredentials } from './PaymentManager';
 import { X402Server } from './X402Server';
 import { GoogleAP2Integration, GoogleAP2IntegrationResult } from './GoogleAP2Integration';
 import { A2AX402Extension } from './A2AX402Extension';
-import { ProcessIntegrity } from './ProcessIntegrity';
+import {
+  ProcessIntegrity,
+  ProofVerificationResult,
+  RegisterFunctionOptions
+} from './ProcessIntegrity';
 import { AutoStorageManager, StorageBackend } from './StorageBackends';
+import { IntegrityProofBatcher, AnchoredProofBatch, ProofBatcherConfig } from './ProofBatcher';
+import { ProcessInsurance, ProcessInsuranceConfig } from './ProcessInsurance';
+import { TeeAttestationVerifier, TeeAttestationVerifierConfig } from './attestation';
+import { UriResolver } from './resolver';
+import { AgentIndexer, AgentIndexerConfig } from './AgentIndexer';
+import { AgentStateFile } from './AgentState';
+import { AgentOwnership, AgentOwnershipConfig } from './AgentOwnership';
+import {
+  FeedbackFile,
+  VerifiedFeedback,
+  buildFeedbackFile,
+  computeFeedbackHash,
+  encodeFeedbackFile,
+  verifyFeedbackEvents
+} from './FeedbackFile';
+import {
+  FeedbackAuthGrantReport,
+  FeedbackAuthLedger,
+  FeedbackAuthVerification,
+  FeedbackAuthGrant,
+  decodeFeedbackAuth,
+  verifyFeedbackAuth
+} from './FeedbackAuth';
+import { encodeTag } from './FeedbackTags';
+import {
+  FeedbackResponder,
+  FeedbackResponderConfig,
+  FeedbackThread,
+  readFeedbackThreads
+} from './FeedbackResponse';
+import {
+  ReputationScore,
+  ScoringOptions,
+  buildFeedbackSamples,
+  scoreReputation
+} from './ReputationScoring';
+import {
+  ACTIVE_STATUS,
+  AgentStatus,
+  AgentStatusOptions,
+  AgentStatusRecord,
+  assertStatusTransition,
+  createAgentStatus,
+  resolveAgentStatus,
+  withAgentStatus
+} from './AgentLifecycle';
+import { MetadataTimeline, buildMetadataTimeline } from './MetadataHistory';
+import {
+  DomainVerificationResult,
+  buildWellKnownRegistration,
+  verifyAgentDomain
+} from './DomainVerification';
+import {
+  CrossChainLinkReport,
+  MultiNetworkIdentity,
+  MultiNetworkIdentityConfig,
+  NetworkIdentity,
+  RegisterOnNetworksOptions
+} from './MultiNetworkIdentity';
 // import { IPFSLocalStorage } from './providers/storage/IPFSLocal'; // Not used
 import {
   ChaosChainSDKConfig,
@@ -25,9 +89,26 @@ import {
   UploadResult,
   UploadOptions,
   ComputeProvider,
+  ComputeJobProvider,
+  CodeProvenanceReference,
+  MetadataEntry,
+  MetadataHistoryEntry,
+  RegisterIdentityOptions,
+  EnsureRegisteredOptions,
+  EnsureRegisteredResult,
+  FeedbackFileOptions,
 } from './types';
 import { PaymentMethod } from './PaymentManager';
 import { getNetworkInfo, getContractAddresses } from './utils/networks';
+import { canonicalize } from './utils/canonical';
+import { MetadataCodec, MetadataCodecs, METADATA_KEYS } from './utils/metadata';
+import {
+  AgentRegistrationFile,
+  encodeRegistrationDataUri,
+  isRegistrationFile,
+  isSameAgent,
+  registrationFileFromMetadata,
+} from './RegistrationFile';
 
 /**
  * Main ChaosChain SDK Class - Complete TypeScript implementation
@@ -50,13 +131,15 @@ export class ChaosChainSDK {
   private x402PaymentManager?: X402PaymentManager;
   private paymentManager?: PaymentManager;
   private storageBackend: StorageBackend;
-  private computeProvider?: ComputeProvider;
+  private computeProvider?: ComputeProvider | ComputeJobProvider;
   private provider: ethers.Provider;
 
   // Advanced integrations
   public googleAP2?: GoogleAP2Integration;
   public a2aX402Extension?: A2AX402Extension;
   public processIntegrity?: ProcessIntegrity;
+  public proofBatcher?: IntegrityProofBatcher;
+  public processInsurance?: ProcessInsurance;
 
   // Configuration
   public readonly agentName: string;
@@ -67,9 +150,16 @@ export class ChaosChainSDK {
 
   // Current agent ID (set after registration)
   private _agentId?: bigint;
+  private codeProvenance: CodeProvenanceReference[] = [];
+  private agentStateFile?: string;
+  private agentStatus: AgentStatusRecord = ACTIVE_STATUS;
+  private paywallServers: X402Server[] = [];
+  private feedbackAuthLedger: FeedbackAuthLedger;
 
   constructor(config: ChaosChainSDKConfig) {
     this.agentName = config.agentName;
+    this.agentStateFile = config.agentStateFile;
+    this.feedbackAuthLedger = new FeedbackAuthLedger(config.feedbackAuthLedgerFile);
     this.agentDomain = config.agentDomain;
     this.agentRole = config.agentRole;
     this.network = config.network;
@@ -96,7 +186,9 @@ export class ChaosChainSDK {
     this.chaosAgent = new ChaosAgent(
       contractAddresses,
       this.walletManager.getWallet(),
-      this.provider
+      this.provider,
+      new UriResolver(config.uriResolver),
+      config.logQuery
     );
 
     // Initialize storage provider
@@ -153,17 +245,28 @@ export class ChaosChainSDK {
       );
     }
 
-    // Initialize Process Integrity (if enabled)
+    // Initialize compute provider (if provided)
+    this.computeProvider = config.computeProvider;
+
+    // Initialize Process Integrity (if enabled); job-based compute providers
+    // supply TEE attestations, and proofs are stored through the storage backend
     if (config.enableProcessIntegrity !== false) {
+      const computeProvider = this.computeProvider;
+      const proofStorage =
+        config.storageProvider || config.enableStorage !== false
+          ? { uploadJson: async (data: unknown) => (await this.upload(data)).cid }
+          : null;
       this.processIntegrity = new ProcessIntegrity(
-        this.storageBackend,
-        this.computeProvider
+        this.agentName,
+        proofStorage,
+        computeProvider && 'submit' in computeProvider ? computeProvider : null
+      );
+      this.processIntegrity.configureSigning(
+        this.walletManager.getWallet(),
+        this.networkInfo.chainId
       );
     }
 
-    // Initialize compute provider (if provided)
-    this.computeProvider = config.computeProvider;
-
     console.log(`🚀 ChaosChain SDK initialized for ${this.agentName}`);
     console.log(`   Network: ${this.network}`);
     console.log(`   Wallet: ${this.walletManager.getAddress()}`);
@@ -182,21 +285,135 @@ export class ChaosChainSDK {
 
   /**
    * Register agent identity on-chain
+   *
+   * Publishes an ERC-8004 registration file that lists this agent's wallet.
+   * By default the file is stored inline as a base64 data URI; with
+   * `options.upload` it is uploaded to the storage backend first and the
+   * returned URI is registered instead.
+   * @param onChainMetadata Key/value entries stored in the registry at registration
    */
-  async registerIdentity(metadata?: AgentMetadata): Promise<AgentRegistration> {
-    const meta: AgentMetadata = metadata || {
-      name: this.agentName,
-      domain: this.agentDomain,
-      role: this.agentRole,
-    };
+  async registerIdentity(
+    metadata?: AgentMetadata | AgentRegistrationFile,
+    onChainMetadata: MetadataEntry[] = [],
+    options: RegisterIdentityOptions = {}
+  ): Promise<AgentRegistration> {
+    const file = this.toRegistrationFile(metadata);
+    let tokenUri = encodeRegistrationDataUri(file);
+    if (options.upload) {
+      tokenUri = (await this.upload(file)).uri;
+      console.log(`📁 Registration file uploaded: ${tokenUri}`);
+    }
 
-    const registration = await this.chaosAgent.registerIdentity(meta);
+    const registration = await this.chaosAgent.registerWithTokenUri(tokenUri, onChainMetadata);
     this._agentId = registration.agentId;
+    this.processIntegrity?.setAgentId(registration.agentId);
 
     console.log(`✅ Agent #${registration.agentId} registered on-chain`);
     return registration;
   }
 
+  /**
+   * Resolve this wallet's agent instead of minting a new one on every call.
+   *
+   * The agent ID comes from the local state file when the wallet still owns
+   * it, otherwise from the wallet's agents in the registry (balanceOf plus
+   * Transfer and Registered logs) whose name and domain match. A new agent is
+   * registered only when none matches. The token URI is rewritten when the
+   * published registration file has drifted from the desired one.
+   */
+  async ensureRegistered(options: EnsureRegisteredOptions = {}): Promise<EnsureRegisteredResult> {
+    const owner = this.walletManager.getAddress();
+    const chainId = this.networkInfo.chainId;
+    const identityRegistry = getContractAddresses(this.network).identity;
+    const state = new AgentStateFile(options.stateFile ?? this.agentStateFile);
+    const desired = this.toRegistrationFile(options.metadata);
+
+    let agentId: bigint | undefined;
+    let current: Record<string, unknown> | null = null;
+    let unreadable = false;
+    let source: EnsureRegisteredResult['source'] = 'registration';
+
+    const saved = state.get(chainId, identityRegistry, owner);
+    if (saved) {
+      const savedId = BigInt(saved.agentId);
+      const savedOwner = await this.chaosAgent.getAgentOwner(savedId).catch(() => null);
+      if (savedOwner?.toLowerCase() === owner.toLowerCase()) {
+        agentId = savedId;
+        source = 'state_file';
+        try {
+          const metadata = await this.chaosAgent.getAgentMetadata(savedId);
+          current = metadata as Record<string, unknown> | null;
+        } catch (error) {
+          console.warn(`⚠️  Could not read registration file of agent #${savedId}:`, error);
+          unreadable = true;
+        }
+      } else {
+        console.warn(
+          `⚠️  Agent #${saved.agentId} from state file is no longer owned by ${owner}`
+        );
+      }
+    }
+
+    if (agentId === undefined) {
+      for (const candidate of await this.chaosAgent.getOwnedAgentIds(owner, options.fromBlock)) {
+        const document = await this.readRegistrationFile(candidate);
+        if (isSameAgent(document, desired)) {
+          agentId = candidate;
+          current = document;
+          source = 'registry_logs';
+          break;
+        }
+      }
+    }
+
+    let status: EnsureRegisteredResult['status'];
+    let txHash: string | undefined;
+    if (agentId === undefined) {
+      const registration = await this.registerIdentity(desired, options.onChainMetadata, options);
+      agentId = registration.agentId;
+      txHash = registration.txHash;
+      status = 'registered';
+    } else {
+      this._agentId = agentId;
+      this.processIntegrity?.setAgentId(agentId);
+
+      // Desired fields are merged into the published file, so fields published
+      // elsewhere (lifecycle status, provenance, registrations on other
+      // networks) are kept
+      const expected = { ...current, ...desired, registrations: current?.registrations ?? [] };
+      if (unreadable) {
+        status = 'unchanged';
+        console.warn(`⚠️  Agent #${agentId} registration file could not be read, left as is`);
+      } else if (current && canonicalize(current) === canonicalize(expected)) {
+        status = 'unchanged';
+      } else {
+        const tokenUri = options.upload
+          ? (await this.upload(expected)).uri
+          : encodeRegistrationDataUri(expected);
+        txHash = await this.chaosAgent.setAgentUri(agentId, tokenUri);
+        status = 'updated';
+        console.log(`🔄 Agent #${agentId} registration file updated`);
+      }
+    }
+
+    const tokenUri = await this.chaosAgent.getAgentUri(agentId);
+    state.set({ agentId: agentId.toString(), owner, chainId, identityRegistry, tokenUri });
+    console.log(`✅ Agent #${agentId} ready (${status}, from ${source})`);
+    return { agentId, status, source, tokenUri, txHash };
+  }
+
+  /**
+   * Registration file of an agent, or null when it cannot be read
+   */
+  private async readRegistrationFile(agentId: bigint): Promise<Record<string, unknown> | null> {
+    try {
+      return (await this.chaosAgent.getAgentMetadata(agentId)) as Record<string, unknown> | null;
+    } catch (error) {
+      console.warn(`⚠️  Could not read registration file of agent #${agentId}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Get agent metadata
    */
@@ -207,10 +424,198 @@ export class ChaosChainSDK {
   /**
    * Update agent metadata
    */
-  async updateAgentMetadata(agentId: bigint, metadata: AgentMetadata): Promise<string> {
+  async updateAgentMetadata(
+    agentId: bigint,
+    metadata: AgentMetadata | AgentRegistrationFile
+  ): Promise<string> {
     return this.chaosAgent.updateAgentMetadata(agentId, metadata);
   }
 
+  /**
+   * Set an on-chain metadata value for this agent
+   * @param codec Encoding of the value, e.g. MetadataCodecs.string
+   */
+  async setOnChainMetadata<T>(key: string, value: T, codec: MetadataCodec<T>): Promise<string> {
+    if (this._agentId === undefined) {
+      throw new Error('Agent must be registered before setting on-chain metadata');
+    }
+    return this.chaosAgent.setMetadata(this._agentId, key, value, codec);
+  }
+
+  /**
+   * Get an on-chain metadata value of an agent (null when unset)
+   */
+  async getOnChainMetadata<T>(
+    agentId: bigint,
+    key: string,
+    codec: MetadataCodec<T>
+  ): Promise<T | null> {
+    return this.chaosAgent.getMetadata(agentId, key, codec);
+  }
+
+  /**
+   * List every value an agent's metadata key has held, oldest first
+   */
+  async getOnChainMetadataHistory<T>(
+    agentId: bigint,
+    key: string,
+    codec: MetadataCodec<T>,
+    fromBlock?: number
+  ): Promise<MetadataHistoryEntry<T>[]> {
+    return this.chaosAgent.getMetadataHistory(agentId, key, codec, fromBlock);
+  }
+
+  /**
+   * Timeline of an agent's registration files and on-chain metadata, with a
+   * structured diff per version
+   * @param options.flagNonOwnerChanges Flag versions made by an address other than
+   *   the current owner
+   */
+  async getMetadataHistory(
+    agentId: bigint,
+    options: { flagNonOwnerChanges?: boolean; fromBlock?: number } = {}
+  ): Promise<MetadataTimeline> {
+    const events = await this.chaosAgent.getIdentityEvents(agentId, options.fromBlock);
+    const currentOwner = options.flagNonOwnerChanges
+      ? await this.chaosAgent.getAgentOwner(agentId)
+      : undefined;
+    return buildMetadataTimeline(agentId, events, this.chaosAgent.getUriResolver(), {
+      currentOwner
+    });
+  }
+
+  /**
+   * Check that an agent's claimed domain serves a well-known file listing the
+   * agent in this network's identity registry
+   */
+  async verifyAgentDomain(agentId: bigint): Promise<DomainVerificationResult> {
+    const metadata = await this.getAgentMetadata(agentId);
+    return verifyAgentDomain({
+      agentId,
+      domain: metadata?.domain,
+      chainId: this.networkInfo.chainId,
+      identityRegistry: getContractAddresses(this.network).identity,
+      uriResolver: this.chaosAgent.getUriResolver()
+    });
+  }
+
+  /**
+   * Build the well-known file this agent's domain should serve at
+   * /.well-known/agent-card.json (and /.well-known/agent-registration.json)
+   */
+  generateWellKnownRegistration(
+    metadata?: AgentMetadata | AgentRegistrationFile
+  ): AgentRegistrationFile {
+    if (this._agentId === undefined) {
+      throw new Error('Agent must be registered before generating its well-known file');
+    }
+
+    return buildWellKnownRegistration(this.toRegistrationFile(metadata), {
+      agentId: this._agentId,
+      chainId: this.networkInfo.chainId,
+      identityRegistry: getContractAddresses(this.network).identity
+    });
+  }
+
+  /**
+   * Create a manager for this agent's identities on several networks
+   */
+  createMultiNetworkIdentity(
+    networks: (NetworkConfig | string)[],
+    options: Omit<MultiNetworkIdentityConfig, 'networks'> = {}
+  ): MultiNetworkIdentity {
+    return new MultiNetworkIdentity(this.walletManager.getWallet(), {
+      networks,
+      uriResolver: this.chaosAgent.getUriResolver(),
+      ...options
+    });
+  }
+
+  /**
+   * Register (or reuse) this agent's identity on several networks and link
+   * them through the registrations list of the registration file
+   */
+  async registerOnNetworks(
+    networks: (NetworkConfig | string)[],
+    metadata?: AgentMetadata | AgentRegistrationFile,
+    options: RegisterOnNetworksOptions = {}
+  ): Promise<NetworkIdentity[]> {
+    const manager = this.createMultiNetworkIdentity(networks);
+    const { identities } = await manager.register(this.toRegistrationFile(metadata), options);
+
+    const own = identities.find((identity) => identity.network === String(this.network));
+    if (own) {
+      this._agentId = own.agentId;
+      this.processIntegrity?.setAgentId(own.agentId);
+    }
+    return identities;
+  }
+
+  /**
+   * Check that this agent's identities on several networks point back to each other
+   */
+  async verifyCrossChainLinks(
+    networks: (NetworkConfig | string)[],
+    metadata?: AgentMetadata | AgentRegistrationFile
+  ): Promise<CrossChainLinkReport> {
+    return this.createMultiNetworkIdentity(networks).verifyLinks(
+      this.toRegistrationFile(metadata)
+    );
+  }
+
+  /**
+   * Create an indexer that discovers agents from this network's identity registry
+   */
+  createAgentIndexer(
+    options: Omit<AgentIndexerConfig, 'identityRegistry' | 'provider'> = {}
+  ): AgentIndexer {
+    return new AgentIndexer({
+      identityRegistry: getContractAddresses(this.network).identity,
+      provider: this.provider,
+      uriResolver: this.chaosAgent.getUriResolver(),
+      ...options
+    });
+  }
+
+  /**
+   * Operator delegation, safe transfers and key rotation for agents owned by
+   * (or delegated to) this wallet
+   */
+  createAgentOwnership(config: AgentOwnershipConfig = {}): AgentOwnership {
+    return new AgentOwnership(this.chaosAgent, this.walletManager.getWallet(), {
+      getOutstandingFeedbackAuths: async (agentId) => {
+        const report = await this.getFeedbackAuthReport(agentId);
+        return report.filter((grant) => grant.status === 'outstanding').length;
+      },
+      ...config
+    });
+  }
+
+  /**
+   * Registration file for this agent, built from the SDK config when no
+   * metadata is given
+   */
+  private toRegistrationFile(
+    metadata?: AgentMetadata | AgentRegistrationFile
+  ): AgentRegistrationFile {
+    if (metadata && isRegistrationFile(metadata)) {
+      return metadata;
+    }
+
+    let meta: AgentMetadata = (metadata as AgentMetadata | undefined) || {
+      name: this.agentName,
+      domain: this.agentDomain,
+      role: this.agentRole,
+    };
+    if (this.codeProvenance.length > 0 && !meta.codeProvenance) {
+      meta = { ...meta, codeProvenance: this.codeProvenance };
+    }
+    return registrationFileFromMetadata(meta, {
+      address: this.walletManager.getAddress(),
+      chainId: this.networkInfo.chainId,
+    });
+  }
+
   /**
    * Get current agent ID
    */
@@ -218,12 +623,114 @@ export class ChaosChainSDK {
     return this._agentId;
   }
 
+  // ============================================================================
+  // Agent Lifecycle Methods
+  // ============================================================================
+
+  /**
+   * Publish this agent's lifecycle status in its registration file and the
+   * agentStatus on-chain metadata entry. Paywall servers created by this SDK
+   * stop taking paid calls while the agent is paused or retired.
+   */
+  async setAgentStatus(
+    status: AgentStatus,
+    options: AgentStatusOptions = {}
+  ): Promise<{ status: AgentStatusRecord; uriTxHash: string; metadataTxHash: string }> {
+    if (this._agentId === undefined) {
+      throw new Error('Agent must be registered before changing its status');
+    }
+    const agentId = this._agentId;
+    const record = createAgentStatus(status, options);
+    assertStatusTransition(agentId, await this.getAgentStatus(agentId), record);
+
+    const current = await this.readRegistrationFile(agentId);
+    const file = withAgentStatus(
+      this.toRegistrationFile((current as AgentMetadata | null) ?? undefined),
+      record
+    );
+    const uriTxHash = await this.chaosAgent.updateAgentMetadata(agentId, file);
+    const metadataTxHash = await this.chaosAgent.setMetadata(
+      agentId,
+      METADATA_KEYS.AGENT_STATUS,
+      record,
+      MetadataCodecs.json
+    );
+
+    this.agentStatus = record;
+    this.paywallServers.forEach((server) => server.setAgentStatus(record));
+    console.log(`🚦 Agent #${agentId} is now ${status}`);
+    return { status: record, uriTxHash, metadataTxHash };
+  }
+
+  /**
+   * Pause this agent (e.g. for maintenance), optionally until a given time
+   */
+  async pauseAgent(options: { reason?: string; until?: Date | string } = {}) {
+    return this.setAgentStatus('paused', options);
+  }
+
+  /**
+   * Return a paused or deprecated agent to active
+   */
+  async resumeAgent() {
+    return this.setAgentStatus('active');
+  }
+
+  /**
+   * Deprecate this agent in favor of a successor agent
+   */
+  async deprecateAgent(successor: bigint, reason?: string) {
+    return this.setAgentStatus('deprecated', { successor, reason });
+  }
+
+  /**
+   * Retire this agent permanently. This cannot be undone.
+   */
+  async retireAgent(options: { successor?: bigint; reason?: string } = {}) {
+    return this.setAgentStatus('retired', options);
+  }
+
+  /**
+   * Lifecycle status of an agent (default this agent); active when none is published
+   */
+  async getAgentStatus(agentId?: bigint): Promise<AgentStatusRecord> {
+    const id = agentId ?? this._agentId;
+    if (id === undefined) {
+      throw new Error('Agent must be registered before reading its status');
+    }
+    const onChain = await this.chaosAgent.getMetadata(
+      id,
+      METADATA_KEYS.AGENT_STATUS,
+      MetadataCodecs.bytes
+    );
+    const status = resolveAgentStatus(onChain, await this.readRegistrationFile(id));
+    if (id === this._agentId) {
+      this.agentStatus = status;
+      this.paywallServers.forEach((server) => server.setAgentStatus(status));
+    }
+    return status;
+  }
+
+  /**
+   * Read an agent's lifecycle status for display alongside other data,
+   * returning null (rather than failing the whole read) when it is unavailable
+   */
+  private async tryGetAgentStatus(agentId: bigint): Promise<AgentStatusRecord | null> {
+    try {
+      return await this.getAgentStatus(agentId);
+    } catch (error) {
+      console.warn(`⚠️  Could not read status of agent #${agentId}: ${error}`);
+      return null;
+    }
+  }
+
   // ============================================================================
   // ERC-8004 Reputation Methods
   // ============================================================================
 
   /**
-   * Generate feedback authorization (EIP-191 signing)
+   * Generate feedback authorization (EIP-191 signing), recorded in the
+   * feedback authorization ledger
    */
   async generateFeedbackAuthorization(
     agentId: bigint,
@@ -231,7 +738,106 @@ export class ChaosChainSDK {
     indexLimit: bigint,
     expiry: bigint
   ): Promise<string> {
-    return this.chaosAgent.generateFeedbackAuthorization(agentId, clientAddress, indexLimit, expiry);
+    const feedbackAuth = await this.chaosAgent.generateFeedbackAuthorization(
+      agentId,
+      clientAddress,
+      indexLimit,
+      expiry
+    );
+    this.recordFeedbackAuth(feedbackAuth);
+    return feedbackAuth;
+  }
+
+  /**
+   * Authorize a client to give this agent more feedback. The index limit is
+   * computed from the client's current feedback index on-chain.
+   * @param options.feedbackCount Number of feedback entries allowed (default 1)
+   * @param options.expiresIn Seconds the authorization stays valid (default 1 day)
+   * @returns The authorization and its ledger entry (null if the ledger could not be written)
+   */
+  async issueFeedbackAuth(
+    clientAddress: string,
+    options: { feedbackCount?: number; expiresIn?: number } = {}
+  ): Promise<{ feedbackAuth: string; grant: FeedbackAuthGrant | null }> {
+    if (this._agentId === undefined) {
+      throw new Error('Agent must be registered before authorizing feedback');
+    }
+    const lastIndex = await this.chaosAgent.getLastIndex(this._agentId, clientAddress);
+    const indexLimit = lastIndex + BigInt(options.feedbackCount ?? 1);
+    const expiry = BigInt(Math.floor(Date.now() / 1000) + (options.expiresIn ?? 86400));
+
+    const feedbackAuth = await this.chaosAgent.generateFeedbackAuthorization(
+      this._agentId,
+      clientAddress,
+      indexLimit,
+      expiry
+    );
+    return { feedbackAuth, grant: this.recordFeedbackAuth(feedbackAuth) };
+  }
+
+  /**
+   * Record an issued authorization in the ledger. It is already signed, so a
+   * ledger that cannot be written is logged rather than failing the call.
+   */
+  private recordFeedbackAuth(feedbackAuth: string): FeedbackAuthGrant | null {
+    try {
+      return this.feedbackAuthLedger.record(feedbackAuth);
+    } catch (error) {
+      console.warn(`⚠️  Could not record feedback authorization in the ledger: ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Verify a feedbackAuth blob against this network's identity registry: the
+   * signature, expiry, that the signer owns or operates the agent and that
+   * the client has not used up the index limit
+   */
+  async verifyFeedbackAuth(
+    feedbackAuth: string,
+    expected: { agentId?: bigint; clientAddress?: string } = {}
+  ): Promise<FeedbackAuthVerification> {
+    const auth = decodeFeedbackAuth(feedbackAuth);
+    return verifyFeedbackAuth(feedbackAuth, {
+      ...expected,
+      chainId: this.networkInfo.chainId,
+      identityRegistry: getContractAddresses(this.network).identity,
+      lastIndex: await this.chaosAgent.getLastIndex(auth.agentId, auth.clientAddress),
+      isAuthorizedSigner: async (signer, agentId) => {
+        const owner = await this.chaosAgent.getAgentOwner(agentId);
+        if (owner.toLowerCase() === signer.toLowerCase()) return true;
+        const approved = await this.chaosAgent.getApproved(agentId);
+        return (
+          approved.toLowerCase() === signer.toLowerCase() ||
+          (await this.chaosAgent.isApprovedForAll(owner, signer))
+        );
+      }
+    });
+  }
+
+  /**
+   * Status (outstanding, used, expired) of every feedback authorization
+   * issued for an agent (default this agent)
+   */
+  async getFeedbackAuthReport(agentId?: bigint): Promise<FeedbackAuthGrantReport[]> {
+    const id = agentId ?? this._agentId;
+    if (id === undefined) {
+      throw new Error('Agent must be registered before reporting feedback authorizations');
+    }
+    return this.feedbackAuthLedger.report(id, (client) =>
+      this.chaosAgent.getLastIndex(id, client)
+    );
+  }
+
+  /**
+   * Drop expired feedback authorizations from the ledger
+   */
+  expireFeedbackAuths(): FeedbackAuthGrant[] {
+    const expired = this.feedbackAuthLedger.expire();
+    if (expired.length > 0) {
+      console.log(`🧹 Removed ${expired.length} expired feedback authorization(s)`);
+    }
+    return expired;
   }
 
   /**
@@ -277,6 +883,76 @@ export class ChaosChainSDK {
     return { feedbackTxHash: txHash, feedbackUri };
   }
 
+  /**
+   * Give feedback backed by an ERC-8004 feedback file. The file is uploaded
+   * (or inlined as a data: URI) and its exact bytes are hashed into the
+   * on-chain feedbackHash.
+   */
+  async giveFeedbackWithFile(
+    agentId: bigint,
+    score: number,
+    options: FeedbackFileOptions = {}
+  ): Promise<{ txHash: string; feedbackUri: string; feedbackHash: string; file: FeedbackFile }> {
+    const { inline, ...fields } = options;
+    const file = buildFeedbackFile({
+      ...fields,
+      agentId,
+      score,
+      chainId: this.networkInfo.chainId,
+      identityRegistry: getContractAddresses(this.network).identity,
+      clientAddress: this.walletManager.getAddress()
+    });
+
+    const bytes = encodeFeedbackFile(file);
+    const feedbackHash = computeFeedbackHash(bytes);
+    const feedbackUri = inline
+      ? `data:application/json;base64,${Buffer.from(bytes).toString('base64')}`
+      : (await this.upload(ethers.toUtf8String(bytes))).uri;
+
+    const txHash = await this.chaosAgent.giveFeedback({
+      agentId,
+      rating: score,
+      feedbackUri,
+      feedbackHash,
+      feedbackData: {
+        tag1: encodeTag(file.tag1),
+        tag2: encodeTag(file.tag2),
+        feedbackAuth: file.feedbackAuth
+      }
+    });
+
+    console.log(`✅ Feedback file published for agent #${agentId}`);
+    console.log(`   URI: ${feedbackUri}`);
+    console.log(`   Hash: ${feedbackHash}`);
+    return { txHash, feedbackUri, feedbackHash, file };
+  }
+
+  /**
+   * Read an agent's feedback from NewFeedback events, fetch each feedback
+   * file and check it against the on-chain feedbackHash. Events are read
+   * from the start so per-client feedback indexes are right; `fromBlock`
+   * only limits which entries are returned.
+   */
+  async readFeedbackFiles(
+    agentId: bigint,
+    options: { clientAddress?: string; fromBlock?: number } = {}
+  ): Promise<VerifiedFeedback[]> {
+    const events = await this.chaosAgent.getFeedbackEvents(agentId, options.clientAddress);
+    const feedback = await verifyFeedbackEvents(
+      events,
+      this.chaosAgent.getUriResolver(),
+      options.fromBlock
+    );
+
+    const mismatched = feedback.filter((entry) => entry.verification === 'mismatch');
+    if (mismatched.length > 0) {
+      console.warn(
+        `⚠️  ${mismatched.length} feedback file(s) of agent #${agentId} do not match their hash`
+      );
+    }
+    return feedback;
+  }
+
   /**
    * Get agent reputation score (ERC-8004 v1.0)
    */
@@ -286,7 +962,31 @@ export class ChaosChainSDK {
   }
 
   /**
-   * Read all feedback for an agent
+   * Score an agent client-side from its raw feedback instead of the
+   * registry's unweighted average: revoked entries are dropped, the
+   * strategies weigh each entry (timestamps come from the NewFeedback
+   * blocks) and the result explains every entry's contribution
+   */
+  async scoreReputation(
+    agentId: bigint,
+    options: ScoringOptions = {}
+  ): Promise<ReputationScore> {
+    const [feedback, events] = await Promise.all([
+      this.chaosAgent.readAllFeedback(agentId, [], ethers.ZeroHash, ethers.ZeroHash, true),
+      this.chaosAgent.getFeedbackEvents(agentId)
+    ]);
+    const samples = await buildFeedbackSamples(feedback, events, async (blockNumber) => {
+      const block = await this.provider.getBlock(blockNumber);
+      if (!block) throw new Error(`Block ${blockNumber} not found`);
+      return block.timestamp;
+    });
+    return scoreReputation(samples, options);
+  }
+
+  /**
+   * Read all feedback for an agent, with the agent's lifecycle status (null if
+   * it could not be read).
+   * Tag filters may be readable tags (see FeedbackTags) or bytes32 values.
    */
   async readAllFeedback(
     agentId: bigint,
@@ -295,11 +995,16 @@ export class ChaosChainSDK {
     tag2: string = ethers.ZeroHash,
     includeRevoked: boolean = false
   ) {
-    return this.chaosAgent.readAllFeedback(agentId, clientAddresses, tag1, tag2, includeRevoked);
+    const [feedback, agentStatus] = await Promise.all([
+      this.chaosAgent.readAllFeedback(agentId, clientAddresses, tag1, tag2, includeRevoked),
+      this.tryGetAgentStatus(agentId)
+    ]);
+    return { ...feedback, agentStatus };
   }
 
   /**
-   * Get feedback summary statistics
+   * Get feedback summary statistics, with the agent's lifecycle status.
+   * Tag filters may be readable tags (see FeedbackTags) or bytes32 values.
    */
   async getFeedbackSummary(
     agentId: bigint,
@@ -307,7 +1012,11 @@ export class ChaosChainSDK {
     tag1: string = ethers.ZeroHash,
     tag2: string = ethers.ZeroHash
   ) {
-    return this.chaosAgent.getSummary(agentId, clientAddresses, tag1, tag2);
+    const [summary, agentStatus] = await Promise.all([
+      this.chaosAgent.getSummary(agentId, clientAddresses, tag1, tag2),
+      this.tryGetAgentStatus(agentId)
+    ]);
+    return { ...summary, agentStatus };
   }
 
   /**
@@ -317,6 +1026,78 @@ export class ChaosChainSDK {
     return this.chaosAgent.getClients(agentId);
   }
 
+  /**
+   * Append a response to a feedback entry (ERC-8004 v1.0)
+   * @param feedbackIndex 1-based index of the feedback among the client's feedback
+   * @param responseHash keccak256 of the response file bytes
+   */
+  async appendResponse(
+    agentId: bigint,
+    clientAddress: string,
+    feedbackIndex: bigint,
+    responseUri: string,
+    responseHash: string
+  ): Promise<string> {
+    return this.chaosAgent.appendResponse(
+      agentId,
+      clientAddress,
+      feedbackIndex,
+      responseUri,
+      responseHash
+    );
+  }
+
+  /**
+   * Listen for responses appended to feedback (ERC-8004 v1.0)
+   */
+  onResponseAppended(
+    callback: (
+      agentId: bigint,
+      clientAddress: string,
+      feedbackIndex: bigint,
+      responder: string,
+      responseUri: string,
+      responseHash: string
+    ) => void
+  ): void {
+    this.chaosAgent.onResponseAppended(callback);
+  }
+
+  /**
+   * An agent's feedback, each with the responses appended to it
+   */
+  async getFeedbackThreads(
+    agentId: bigint,
+    options: { clientAddress?: string; fromBlock?: number } = {}
+  ): Promise<FeedbackThread[]> {
+    return readFeedbackThreads(this.chaosAgent, agentId, this.chaosAgent.getUriResolver(), options);
+  }
+
+  /**
+   * Respond to this agent's low-score feedback: drafts response files with
+   * evidence, uploads them to storage and appends them on-chain. Call
+   * `watch()` on the result to draft responses as feedback arrives.
+   */
+  createFeedbackResponder(
+    options: Omit<
+      FeedbackResponderConfig,
+      'agentId' | 'chainId' | 'identityRegistry' | 'responder' | 'upload' | 'uriResolver'
+    > = {}
+  ): FeedbackResponder {
+    if (this._agentId === undefined) {
+      throw new Error('Agent must be registered before responding to feedback');
+    }
+    return new FeedbackResponder(this.chaosAgent, {
+      ...options,
+      agentId: this._agentId,
+      chainId: this.networkInfo.chainId,
+      identityRegistry: getContractAddresses(this.network).identity,
+      responder: this.walletManager.getAddress(),
+      upload: async (bytes) => (await this.upload(ethers.toUtf8String(bytes))).uri,
+      uriResolver: this.chaosAgent.getUriResolver()
+    });
+  }
+
   // ============================================================================
   // ERC-8004 Validation Methods
   // ============================================================================
@@ -334,7 +1115,7 @@ export class ChaosChainSDK {
   }
 
   /**
-   * Respond to validation request (ERC-8004 v1.0)
+   * Respond to validation request (ERC-8004 v1.0); the tag may be readable or bytes32
    */
   async respondToValidation(
     requestHash: string,
@@ -420,13 +1201,21 @@ export class ChaosChainSDK {
   }
 
   /**
-   * Create x402 paywall server
+   * Create x402 paywall server (it follows this agent's lifecycle status).
+   * For a registered agent the published status is loaded before the
+   * server answers its first request.
    */
   createX402PaywallServer(port: number = 8402): X402Server {
     if (!this.x402PaymentManager) {
       throw new Error('x402 payments not enabled');
     }
-    return new X402Server(this.x402PaymentManager, { port });
+    const server = new X402Server(this.x402PaymentManager, { port });
+    server.setAgentStatus(this.agentStatus);
+    if (this._agentId !== undefined) {
+      server.loadAgentStatus(() => this.getAgentStatus());
+    }
+    this.paywallServers.push(server);
+    return server;
   }
 
   /**
@@ -571,11 +1360,58 @@ export class ChaosChainSDK {
   /**
    * Register function for integrity verification
    */
-  registerFunction(func: (...args: any[]) => Promise<any>): void {
+  registerFunction(
+    func: (...args: any[]) => Promise<any>,
+    functionName?: string,
+    options?: RegisterFunctionOptions
+  ): void {
     if (!this.processIntegrity) {
       throw new Error('Process integrity not enabled');
     }
-    this.processIntegrity.registerFunction(func);
+    this.processIntegrity.registerFunction(func, functionName, options);
+  }
+
+  /**
+   * Publish the provenance manifest of a function registered with provenance
+   *
+   * Uploads the manifest and lists it under `codeProvenance` in the agent's
+   * ERC-8004 metadata: included at registration, or written on-chain right
+   * away when the agent is already registered.
+   */
+  async publishCodeProvenance(functionName: string): Promise<CodeProvenanceReference> {
+    const manifest = this.processIntegrity?.getProvenanceManifest(functionName);
+    if (!manifest) {
+      throw new Error(`Function ${functionName} was not registered with provenance`);
+    }
+
+    const manifestJson = canonicalize(manifest);
+    const uploaded = await this.upload(manifestJson);
+    const reference: CodeProvenanceReference = {
+      function: functionName,
+      codeHash: manifest.subject[0].digest.sha256,
+      manifestUri: uploaded.uri,
+      manifestHash: createHash('sha256').update(manifestJson).digest('hex')
+    };
+
+    this.codeProvenance = [
+      ...this.codeProvenance.filter((ref) => ref.function !== functionName),
+      reference
+    ];
+
+    if (this._agentId !== undefined) {
+      const current = (await this.getAgentMetadata(this._agentId)) ?? {
+        name: this.agentName,
+        domain: this.agentDomain,
+        role: this.agentRole
+      };
+      await this.updateAgentMetadata(this._agentId, {
+        ...current,
+        codeProvenance: this.codeProvenance
+      });
+    }
+
+    console.log(`📜 Code provenance published for ${functionName}: ${reference.manifestUri}`);
+    return reference;
   }
 
   /**
@@ -594,13 +1430,110 @@ export class ChaosChainSDK {
 
   /**
    * Verify integrity proof
+   *
+   * Returns a structured verdict; check `valid` and inspect `checks` for the
+   * individual code hash, execution hash, TEE attestation, signature and
+   * identity ownership results. The EIP-712 signer is checked against the
+   * on-chain owner of the agent ID the proof claims.
    */
-  async verifyIntegrityProof(_proof: Record<string, any>): Promise<boolean> {
+  async verifyIntegrityProof(proof: Record<string, unknown>): Promise<ProofVerificationResult> {
     if (!this.processIntegrity) {
       throw new Error('Process integrity not enabled');
     }
-    // TODO: Implement verifyProof in ProcessIntegrity
-    return true;
+    return this.processIntegrity.verifyProof(proof, {
+      ownerOf: (agentId) => this.chaosAgent.getAgentOwner(agentId)
+    });
+  }
+
+  /**
+   * Verify TEE attestation documents offline
+   *
+   * Nitro documents and SGX/TDX quotes are checked against the pinned roots and
+   * expected measurements in `config`; the verdict is reported as the
+   * `tee_attestation_document` check of verifyIntegrityProof.
+   */
+  enableAttestationVerification(config: TeeAttestationVerifierConfig): TeeAttestationVerifier {
+    if (!this.processIntegrity) {
+      throw new Error('Process integrity not enabled');
+    }
+
+    const verifier = new TeeAttestationVerifier(config);
+    this.processIntegrity.setAttestationVerifier(verifier);
+    return verifier;
+  }
+
+  /**
+   * Anchor integrity proofs in Merkle batches through the Validation Registry
+   *
+   * Every subsequent executeWithIntegrityProof call queues its proof; the batch
+   * root is submitted to `validatorAddress` as the validation request hash.
+   */
+  enableProofBatching(
+    validatorAddress: string,
+    options: Omit<ProofBatcherConfig, 'validatorAddress' | 'agentId'> = {}
+  ): IntegrityProofBatcher {
+    if (!this.processIntegrity) {
+      throw new Error('Process integrity not enabled');
+    }
+    if (this._agentId === undefined) {
+      throw new Error('Agent must be registered before enabling proof batching');
+    }
+
+    this.proofBatcher?.stop();
+    this.proofBatcher = new IntegrityProofBatcher(this.chaosAgent, this.storageBackend, {
+      ...options,
+      validatorAddress,
+      agentId: this._agentId,
+    });
+    this.processIntegrity.setProofBatcher(this.proofBatcher);
+    return this.proofBatcher;
+  }
+
+  /**
+   * Underwrite registered functions with signed insurance policies
+   *
+   * Claims are submitted to `validatorAddress` through the Validation Registry
+   * and paid out with the x402 payment manager once approved.
+   */
+  enableProcessInsurance(
+    validatorAddress: string,
+    options: Omit<
+      ProcessInsuranceConfig,
+      'agentName' | 'signer' | 'chainId' | 'agentId' | 'validatorAddress'
+    > = {}
+  ): ProcessInsurance {
+    if (!this.processIntegrity) {
+      throw new Error('Process integrity not enabled');
+    }
+    if (this._agentId === undefined) {
+      throw new Error('Agent must be registered before enabling process insurance');
+    }
+
+    this.processInsurance = new ProcessInsurance(
+      this.processIntegrity,
+      this.chaosAgent,
+      this.storageBackend,
+      {
+        paymentManager: this.x402PaymentManager,
+        ...options,
+        agentName: this.agentName,
+        signer: this.walletManager.getWallet(),
+        chainId: this.networkInfo.chainId,
+        agentId: this._agentId,
+        validatorAddress,
+      }
+    );
+    return this.processInsurance;
+  }
+
+  /**
+   * Anchor all pending integrity proofs now
+   */
+  async anchorPendingProofs(): Promise<AnchoredProofBatch | null> {
+    if (!this.proofBatcher) {
+      throw new Error('Proof batching not enabled');
+    }
+    return this.proofBatcher.flush();
   }
 
   // ============================================================================
@@ -0,0 +1,133 @@
+/**
+ * Domain ownership verification for ERC-8004 agents.
+ *
+ * `AgentMetadata.domain` is self-asserted, so a domain only counts as verified
+ * when the domain itself publishes a well-known file (the A2A agent card or
+ * the ERC-8004 registration file) whose `registrations` list the same agent
+ * ID in the same identity registry on the same chain.
+ */
+
+import { UriResolver } from './resolver';
+import { UriResolutionError } from './exceptions';
+import { AgentRegistrationFile, RegistrationEntry, withRegistration } from './RegistrationFile';
+
+export const AGENT_CARD_PATH = '/.well-known/agent-card.json';
+export const AGENT_REGISTRATION_PATH = '/.well-known/agent-registration.json';
+
+export type DomainVerificationFailure =
+  | 'no_domain'
+  | 'invalid_domain'
+  | 'unreachable'
+  | 'not_listed';
+
+export interface DomainVerificationCheck {
+  url: string;
+  /** Whether the file lists the agent */
+  listed: boolean;
+  /** Why the file could not be read, if it could not */
+  error?: string;
+}
+
+export interface DomainVerificationResult {
+  agentId: string;
+  domain: string | null;
+  verified: boolean;
+  /** Well-known file that lists the agent */
+  source?: string;
+  reason?: DomainVerificationFailure;
+  checks: DomainVerificationCheck[];
+}
+
+export interface DomainVerificationParams {
+  agentId: bigint;
+  /** Domain claimed by the agent (host name or URL) */
+  domain: string | null | undefined;
+  chainId: number;
+  /** Identity registry address */
+  identityRegistry: string;
+  uriResolver: UriResolver;
+}
+
+/**
+ * CAIP-10 ID of an identity registry
+ */
+export function registryCaip10(chainId: number, identityRegistry: string): string {
+  return `eip155:${chainId}:${identityRegistry}`;
+}
+
+/**
+ * Host name of a claimed domain (`example.com`, `https://example.com/`, ...)
+ */
+export function normalizeAgentDomain(domain: string): string | null {
+  try {
+    const url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(domain) ? domain : `https://${domain}`);
+    const isBare = url.pathname === '/' && !url.search && !url.hash && !url.username;
+    return isBare ? url.host.toLowerCase() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check that an agent's claimed domain publishes a well-known file listing it
+ */
+export async function verifyAgentDomain(
+  params: DomainVerificationParams
+): Promise<DomainVerificationResult> {
+  const agentId = params.agentId.toString();
+  const result: DomainVerificationResult = {
+    agentId,
+    domain: params.domain ?? null,
+    verified: false,
+    checks: [],
+  };
+
+  if (!params.domain) {
+    return { ...result, reason: 'no_domain' };
+  }
+  const host = normalizeAgentDomain(params.domain);
+  if (!host) {
+    return { ...result, reason: 'invalid_domain' };
+  }
+  result.domain = host;
+
+  const registry = registryCaip10(params.chainId, params.identityRegistry).toLowerCase();
+  for (const path of [AGENT_CARD_PATH, AGENT_REGISTRATION_PATH]) {
+    const url = `https://${host}${path}`;
+    try {
+      const document = await params.uriResolver.resolveJson<{ registrations?: unknown }>(url);
+      const registrations: Partial<RegistrationEntry>[] = Array.isArray(document?.registrations)
+        ? document.registrations
+        : [];
+      const listed = registrations.some(
+        (entry) =>
+          String(entry?.agentId) === agentId &&
+          String(entry?.agentRegistry).toLowerCase() === registry
+      );
+      result.checks.push({ url, listed });
+      if (listed) {
+        return { ...result, verified: true, source: url };
+      }
+    } catch (error) {
+      const message = error instanceof UriResolutionError ? error.reason : String(error);
+      result.checks.push({ url, listed: false, error: message });
+    }
+  }
+
+  const reachable = result.checks.some((check) => !check.error);
+  return { ...result, reason: reachable ? 'not_listed' : 'unreachable' };
+}
+
+/**
+ * Well-known file for an agent to serve at AGENT_CARD_PATH and
+ * AGENT_REGISTRATION_PATH on its domain
+ */
+export function buildWellKnownRegistration(
+  file: AgentRegistrationFile,
+  registration: { agentId: bigint; chainId: number; identityRegistry: string }
+): AgentRegistrationFile {
+  return withRegistration(file, {
+    agentId: registration.agentId,
+    agentRegistry: registryCaip10(registration.chainId, registration.identityRegistry),
+  });
+}
@@ -0,0 +1,351 @@
+/**
+ * Execution trace recording and deterministic replay for integrity proofs.
+ *
+ * A proof on its own commits to inputs and result, which says nothing about
+ * hidden network calls or randomness. When tracing is enabled, registered
+ * functions receive an ExecutionContext as their second argument and perform
+ * I/O through it: outbound HTTP via `fetch`, clock reads via `now`, random
+ * draws via `random` and nested registered-function calls via `call`. Every
+ * operation is appended to a trace whose hash is folded into the execution
+ * hash. Replaying feeds the recorded responses back to the function in order
+ * and fails as soon as the function asks for something that was not recorded.
+ *
+ * Events are numbered when the operation starts, so concurrent operations are
+ * recorded in call order, and failed operations are recorded with their error.
+ * Credentials in request and response headers are redacted before recording.
+ */
+
+import { IntegrityVerificationError } from './exceptions';
+import { canonicalHash, canonicalize } from './utils/canonical';
+
+export type TraceEventType = 'fetch' | 'now' | 'random' | 'call';
+
+/**
+ * Headers recorded as REDACTED unless ExecutionTraceOptions.redactHeaders
+ * says otherwise
+ */
+export const SENSITIVE_HEADERS = [
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+  'api-key',
+  'x-auth-token',
+  'x-payment-token',
+];
+
+export const REDACTED = '[REDACTED]';
+
+export interface TracedRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body: string | null;
+}
+
+export interface TracedResponseData {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface TraceEvent {
+  seq: number;
+  type: TraceEventType;
+  /** fetch: TracedRequest; call: { function_name, inputs } */
+  request?: unknown;
+  /** fetch: TracedResponseData; now/random: number; call: { result }; null if failed */
+  response: unknown;
+  /** Error message of an operation that failed */
+  error?: string;
+}
+
+export interface ExecutionTrace {
+  version: 1;
+  events: TraceEvent[];
+  trace_hash: string;
+}
+
+export interface TracedFetchInit {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+/**
+ * Response handed to traced functions; identical when recording and replaying
+ */
+export interface TracedResponse {
+  ok: boolean;
+  status: number;
+  headers: Record<string, string>;
+  text(): Promise<string>;
+  json<T = unknown>(): Promise<T>;
+}
+
+/**
+ * I/O surface available to traced functions
+ */
+export interface ExecutionContext {
+  fetch(url: string, init?: TracedFetchInit): Promise<TracedResponse>;
+  now(): number;
+  random(): number;
+  call<T = unknown>(functionName: string, inputs: Record<string, unknown>): Promise<T>;
+}
+
+export interface ExecutionTraceOptions {
+  /** fetch implementation used while recording (default globalThis.fetch) */
+  fetch?: typeof fetch;
+  /** Header names (case-insensitive) whose values are redacted (default SENSITIVE_HEADERS) */
+  redactHeaders?: string[];
+}
+
+/**
+ * Runs a nested registered function with the given context
+ */
+export type NestedCallRunner = (
+  functionName: string,
+  inputs: Record<string, unknown>,
+  ctx: ExecutionContext
+) => Promise<unknown>;
+
+/**
+ * Hash of a list of trace events
+ */
+export function computeTraceHash(events: TraceEvent[]): string {
+  return canonicalHash(events);
+}
+
+function toTracedResponse(data: TracedResponseData): TracedResponse {
+  return {
+    ok: data.status >= 200 && data.status < 300,
+    status: data.status,
+    headers: { ...data.headers },
+    text: async () => data.body,
+    json: async () => JSON.parse(data.body),
+  };
+}
+
+function toTracedRequest(url: string, init: TracedFetchInit = {}): TracedRequest {
+  return {
+    url,
+    method: (init.method ?? 'GET').toUpperCase(),
+    headers: { ...(init.headers ?? {}) },
+    body: init.body ?? null,
+  };
+}
+
+function redactHeaders(headers: Record<string, string>, names: Set<string>) {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [
+      name,
+      names.has(name.toLowerCase()) ? REDACTED : value,
+    ])
+  );
+}
+
+function redactedHeaderNames(options: ExecutionTraceOptions): Set<string> {
+  return new Set((options.redactHeaders ?? SENSITIVE_HEADERS).map((name) => name.toLowerCase()));
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Context that performs real I/O and records it
+ */
+export class ExecutionTraceRecorder implements ExecutionContext {
+  private events: TraceEvent[] = [];
+  private fetchImpl: typeof fetch;
+  private runNested: NestedCallRunner;
+  private redacted: Set<string>;
+
+  constructor(runNested: NestedCallRunner, options: ExecutionTraceOptions = {}) {
+    this.runNested = runNested;
+    this.fetchImpl = options.fetch ?? globalThis.fetch;
+    this.redacted = redactedHeaderNames(options);
+  }
+
+  async fetch(url: string, init?: TracedFetchInit): Promise<TracedResponse> {
+    const request = toTracedRequest(url, init);
+    const event = this.reserve('fetch', {
+      ...request,
+      headers: redactHeaders(request.headers, this.redacted),
+    });
+
+    try {
+      const response = await this.fetchImpl(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body ?? undefined,
+      });
+
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        headers[key] = value;
+      });
+      // The function sees the recorded (redacted) response, as it will on replay
+      const data: TracedResponseData = {
+        status: response.status,
+        headers: redactHeaders(headers, this.redacted),
+        body: await response.text(),
+      };
+      event.response = data;
+      return toTracedResponse(data);
+    } catch (error) {
+      event.error = errorMessage(error);
+      throw error;
+    }
+  }
+
+  now(): number {
+    const now = Date.now();
+    this.reserve('now').response = now;
+    return now;
+  }
+
+  random(): number {
+    const random = Math.random();
+    this.reserve('random').response = random;
+    return random;
+  }
+
+  async call<T = unknown>(functionName: string, inputs: Record<string, unknown>): Promise<T> {
+    // The call event precedes the events of the nested function
+    const event = this.reserve('call', { function_name: functionName, inputs });
+    try {
+      const result = await this.runNested(functionName, inputs, this);
+      event.response = { result };
+      return result as T;
+    } catch (error) {
+      event.error = errorMessage(error);
+      throw error;
+    }
+  }
+
+  /**
+   * The trace recorded so far
+   */
+  getTrace(): ExecutionTrace {
+    const events = this.events.map((event) => ({ ...event }));
+    return { version: 1, events, trace_hash: computeTraceHash(events) };
+  }
+
+  /**
+   * Append an event for an operation that is starting; its response (or
+   * error) is filled in when the operation settles
+   */
+  private reserve(type: TraceEventType, request?: unknown): TraceEvent {
+    const event: TraceEvent = { seq: this.events.length, type, response: null };
+    if (request !== undefined) {
+      event.request = request;
+    }
+    this.events.push(event);
+    return event;
+  }
+}
+
+/**
+ * Context that answers from a recorded trace and detects divergence
+ */
+export class ExecutionTraceReplayer implements ExecutionContext {
+  private events: TraceEvent[];
+  private cursor = 0;
+  private runNested: NestedCallRunner;
+  private redacted: Set<string>;
+
+  /**
+   * @param options Must redact the same headers as the recording did
+   */
+  constructor(
+    trace: ExecutionTrace,
+    runNested: NestedCallRunner,
+    options: ExecutionTraceOptions = {}
+  ) {
+    this.events = trace.events;
+    this.runNested = runNested;
+    this.redacted = redactedHeaderNames(options);
+  }
+
+  async fetch(url: string, init?: TracedFetchInit): Promise<TracedResponse> {
+    const request = toTracedRequest(url, init);
+    request.headers = redactHeaders(request.headers, this.redacted);
+    const event = this.next('fetch');
+    if (canonicalize(event.request) !== canonicalize(request)) {
+      this.diverge(event, `fetch ${request.method} ${request.url} differs from recorded request`);
+    }
+    if (event.error !== undefined) {
+      throw new Error(event.error);
+    }
+    return toTracedResponse(event.response as TracedResponseData);
+  }
+
+  now(): number {
+    return this.next('now').response as number;
+  }
+
+  random(): number {
+    return this.next('random').response as number;
+  }
+
+  async call<T = unknown>(functionName: string, inputs: Record<string, unknown>): Promise<T> {
+    const event = this.next('call');
+    const expected = canonicalize({ function_name: functionName, inputs });
+    if (canonicalize(event.request) !== expected) {
+      this.diverge(event, `call to ${functionName} differs from recorded call`);
+    }
+
+    let result: unknown;
+    try {
+      result = await this.runNested(functionName, inputs, this);
+    } catch (error) {
+      if (error instanceof IntegrityVerificationError || event.error !== undefined) {
+        throw error;
+      }
+      this.diverge(event, `nested call ${functionName} failed: ${errorMessage(error)}`);
+    }
+    if (event.error !== undefined) {
+      this.diverge(event, `nested call ${functionName} succeeded but failed when recorded`);
+    }
+    const recorded = event.response as { result: unknown };
+    if (canonicalize(recorded.result) !== canonicalize(result)) {
+      this.diverge(event, `nested call ${functionName} returned a different result`);
+    }
+    return result as T;
+  }
+
+  /**
+   * Throw unless every recorded event was consumed
+   */
+  assertComplete(): void {
+    if (this.cursor !== this.events.length) {
+      throw new IntegrityVerificationError(
+        `Replay consumed ${this.cursor} of ${this.events.length} trace events`,
+        { seq: this.cursor }
+      );
+    }
+  }
+
+  private next(type: TraceEventType): TraceEvent {
+    const event = this.events[this.cursor];
+    if (!event) {
+      throw new IntegrityVerificationError(`Replay requested ${type} beyond the end of the trace`, {
+        seq: this.cursor,
+      });
+    }
+    if (event.type !== type) {
+      this.diverge(event, `expected ${event.type}, function requested ${type}`);
+    }
+    this.cursor++;
+    return event;
+  }
+
+  private diverge(event: TraceEvent, message: string): never {
+    throw new IntegrityVerificationError(`Trace divergence at event ${event.seq}: ${message}`, {
+      seq: event.seq,
+      type: event.type,
+    });
+  }
+}
@@ -0,0 +1,305 @@
+/**
+ * ERC-8004 feedback authorizations
+ *
+ * An agent owner lets a client give feedback by signing a FeedbackAuth
+ * struct (agentId, clientAddress, indexLimit, expiry, chainId,
+ * identityRegistry, signerAddress). The blob passed to giveFeedback is the
+ * 224-byte struct followed by the 65-byte EIP-191 signature over its packed
+ * keccak256. This module decodes and verifies those blobs and keeps a ledger
+ * of issued authorizations so an agent knows which clients may still rate it.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { ethers } from 'ethers';
+import { ValidationError } from './exceptions';
+
+export const FEEDBACK_AUTH_LENGTH = 289;
+
+export const DEFAULT_FEEDBACK_AUTH_LEDGER_FILE = join('.chaoschain', 'feedback-auths.json');
+
+const STRUCT_LENGTH = 224;
+
+export interface FeedbackAuth {
+  agentId: bigint;
+  clientAddress: string;
+  indexLimit: bigint;
+  expiry: bigint;
+  chainId: bigint;
+  identityRegistry: string;
+  signerAddress: string;
+  /** 65-byte signature (r, s, v) */
+  signature: string;
+  /**
+   * How the uint64 indexLimit sits in its 32-byte word: `left` as written by
+   * ChaosAgent.generateFeedbackAuthorization, `right` as in ABI encoding
+   */
+  indexLimitAlignment: 'left' | 'right';
+}
+
+export type FeedbackAuthFailure =
+  | 'bad_signature'
+  | 'expired'
+  | 'wrong_chain'
+  | 'wrong_registry'
+  | 'wrong_agent'
+  | 'wrong_client'
+  | 'unauthorized_signer'
+  | 'index_limit_reached';
+
+export interface FeedbackAuthExpectations {
+  chainId?: bigint | number;
+  identityRegistry?: string;
+  agentId?: bigint;
+  clientAddress?: string;
+  /** Unix time the expiry is checked against (default now) */
+  now?: bigint | number;
+  /** Client's current feedback index for the agent (ReputationRegistry.getLastIndex) */
+  lastIndex?: bigint;
+  /** Whether the signer may authorize feedback for the agent (owner or operator) */
+  isAuthorizedSigner?: (signer: string, agentId: bigint) => Promise<boolean>;
+}
+
+export interface FeedbackAuthVerification {
+  valid: boolean;
+  auth: FeedbackAuth;
+  /** Address recovered from the signature */
+  recoveredSigner: string | null;
+  failures: FeedbackAuthFailure[];
+}
+
+/**
+ * Decode a feedbackAuth blob (struct + signature)
+ * @throws ValidationError when the blob is malformed
+ */
+export function decodeFeedbackAuth(feedbackAuth: ethers.BytesLike): FeedbackAuth {
+  const bytes = ethers.getBytes(feedbackAuth);
+  if (bytes.length !== FEEDBACK_AUTH_LENGTH) {
+    throw new ValidationError(
+      `feedbackAuth must be ${FEEDBACK_AUTH_LENGTH} bytes, got ${bytes.length}`
+    );
+  }
+
+  const word = (index: number) => bytes.slice(index * 32, (index + 1) * 32);
+  const address = (index: number) => {
+    const value = word(index);
+    if (value.slice(0, 12).some((byte) => byte !== 0)) {
+      throw new ValidationError(`feedbackAuth word ${index} is not a padded address`);
+    }
+    return ethers.getAddress(ethers.hexlify(value.slice(12)));
+  };
+
+  // The SDK has always written indexLimit left-aligned; ABI encoders right-align it
+  const limitWord = word(2);
+  const head = limitWord.slice(0, 8);
+  const tail = limitWord.slice(24);
+  const leftAligned = limitWord.slice(8).every((byte) => byte === 0);
+  const rightAligned = limitWord.slice(0, 24).every((byte) => byte === 0);
+  if (!leftAligned && !rightAligned) {
+    throw new ValidationError('feedbackAuth indexLimit does not fit in a uint64');
+  }
+
+  return {
+    agentId: ethers.toBigInt(word(0)),
+    clientAddress: address(1),
+    indexLimit: ethers.toBigInt(leftAligned ? head : tail),
+    expiry: ethers.toBigInt(word(3)),
+    chainId: ethers.toBigInt(word(4)),
+    identityRegistry: address(5),
+    signerAddress: address(6),
+    signature: ethers.hexlify(bytes.slice(STRUCT_LENGTH)),
+    indexLimitAlignment: leftAligned && !rightAligned ? 'left' : 'right',
+  };
+}
+
+/**
+ * Digest the signer signs (EIP-191) for a FeedbackAuth struct
+ */
+export function feedbackAuthDigest(
+  auth: Omit<FeedbackAuth, 'signature' | 'indexLimitAlignment'>
+): string {
+  return ethers.solidityPackedKeccak256(
+    ['uint256', 'address', 'uint64', 'uint256', 'uint256', 'address', 'address'],
+    [
+      auth.agentId,
+      auth.clientAddress,
+      auth.indexLimit,
+      auth.expiry,
+      auth.chainId,
+      auth.identityRegistry,
+      auth.signerAddress,
+    ]
+  );
+}
+
+/**
+ * Decode a feedbackAuth blob and check its signature, expiry, chain,
+ * registry, agent, client and index limit against what is expected
+ */
+export async function verifyFeedbackAuth(
+  feedbackAuth: ethers.BytesLike,
+  expected: FeedbackAuthExpectations = {}
+): Promise<FeedbackAuthVerification> {
+  const auth = decodeFeedbackAuth(feedbackAuth);
+  const failures: FeedbackAuthFailure[] = [];
+  const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+  let recoveredSigner: string | null = null;
+  try {
+    recoveredSigner = ethers.verifyMessage(
+      ethers.getBytes(feedbackAuthDigest(auth)),
+      auth.signature
+    );
+  } catch {
+    // Malformed signatures are reported as bad_signature below
+  }
+  if (!recoveredSigner || !same(recoveredSigner, auth.signerAddress)) {
+    failures.push('bad_signature');
+  }
+
+  const now = BigInt(expected.now ?? Math.floor(Date.now() / 1000));
+  if (auth.expiry <= now) failures.push('expired');
+  if (expected.chainId !== undefined && auth.chainId !== BigInt(expected.chainId)) {
+    failures.push('wrong_chain');
+  }
+  if (expected.identityRegistry && !same(auth.identityRegistry, expected.identityRegistry)) {
+    failures.push('wrong_registry');
+  }
+  if (expected.agentId !== undefined && auth.agentId !== expected.agentId) {
+    failures.push('wrong_agent');
+  }
+  if (expected.clientAddress && !same(auth.clientAddress, expected.clientAddress)) {
+    failures.push('wrong_client');
+  }
+  if (expected.lastIndex !== undefined && expected.lastIndex >= auth.indexLimit) {
+    failures.push('index_limit_reached');
+  }
+  if (
+    expected.isAuthorizedSigner &&
+    !(await expected.isAuthorizedSigner(auth.signerAddress, auth.agentId))
+  ) {
+    failures.push('unauthorized_signer');
+  }
+
+  return { valid: failures.length === 0, auth, recoveredSigner, failures };
+}
+
+// ============================================================================
+// Issuance ledger
+// ============================================================================
+
+export interface FeedbackAuthGrant {
+  agentId: string;
+  clientAddress: string;
+  indexLimit: string;
+  /** Unix time */
+  expiry: number;
+  chainId: number;
+  identityRegistry: string;
+  issuedAt: string;
+  feedbackAuth: string;
+}
+
+/**
+ * - outstanding: unexpired and the client has feedback left to give
+ * - used: the client reached the index limit
+ * - expired: past its expiry
+ */
+export type FeedbackAuthGrantStatus = 'outstanding' | 'used' | 'expired';
+
+export interface FeedbackAuthGrantReport extends FeedbackAuthGrant {
+  status: FeedbackAuthGrantStatus;
+  /** Client's feedback index when the report was made */
+  lastIndex: string;
+}
+
+/**
+ * JSON file of the feedback authorizations an agent has issued
+ */
+export class FeedbackAuthLedger {
+  constructor(private path: string = DEFAULT_FEEDBACK_AUTH_LEDGER_FILE) {}
+
+  /**
+   * Record an issued feedbackAuth blob
+   */
+  record(feedbackAuth: string): FeedbackAuthGrant {
+    const auth = decodeFeedbackAuth(feedbackAuth);
+    const grant: FeedbackAuthGrant = {
+      agentId: auth.agentId.toString(),
+      clientAddress: auth.clientAddress,
+      indexLimit: auth.indexLimit.toString(),
+      expiry: Number(auth.expiry),
+      chainId: Number(auth.chainId),
+      identityRegistry: auth.identityRegistry,
+      issuedAt: new Date().toISOString(),
+      feedbackAuth: ethers.hexlify(feedbackAuth),
+    };
+    this.write([...this.read(), grant]);
+    return grant;
+  }
+
+  /**
+   * Issued grants, optionally for one agent and/or client
+   */
+  list(filter: { agentId?: bigint; clientAddress?: string } = {}): FeedbackAuthGrant[] {
+    return this.read().filter(
+      (grant) =>
+        (filter.agentId === undefined || grant.agentId === filter.agentId.toString()) &&
+        (!filter.clientAddress ||
+          grant.clientAddress.toLowerCase() === filter.clientAddress.toLowerCase())
+    );
+  }
+
+  /**
+   * Status of every grant of an agent
+   * @param getLastIndex Client's current feedback index (ReputationRegistry.getLastIndex)
+   */
+  async report(
+    agentId: bigint,
+    getLastIndex: (clientAddress: string) => Promise<bigint>,
+    now: number = Math.floor(Date.now() / 1000)
+  ): Promise<FeedbackAuthGrantReport[]> {
+    const lastIndexes = new Map<string, bigint>();
+    const reports: FeedbackAuthGrantReport[] = [];
+
+    for (const grant of this.list({ agentId })) {
+      const client = grant.clientAddress.toLowerCase();
+      if (!lastIndexes.has(client)) {
+        lastIndexes.set(client, await getLastIndex(grant.clientAddress));
+      }
+      const lastIndex = lastIndexes.get(client)!;
+      const status: FeedbackAuthGrantStatus =
+        lastIndex >= BigInt(grant.indexLimit)
+          ? 'used'
+          : grant.expiry <= now
+            ? 'expired'
+            : 'outstanding';
+      reports.push({ ...grant, status, lastIndex: lastIndex.toString() });
+    }
+    return reports;
+  }
+
+  /**
+   * Remove grants that expired before `now`
+   * @returns The removed grants
+   */
+  expire(now: number = Math.floor(Date.now() / 1000)): FeedbackAuthGrant[] {
+    const grants = this.read();
+    const expired = grants.filter((grant) => grant.expiry <= now);
+    if (expired.length > 0) {
+      this.write(grants.filter((grant) => grant.expiry > now));
+    }
+    return expired;
+  }
+
+  private read(): FeedbackAuthGrant[] {
+    return existsSync(this.path) ? JSON.parse(readFileSync(this.path, 'utf8')) : [];
+  }
+
+  private write(grants: FeedbackAuthGrant[]): void {
+    mkdirSync(dirname(this.path), { recursive: true });
+    const tmp = `${this.path}.tmp`;
+    writeFileSync(tmp, JSON.stringify(grants, null, 2));
+    renameSync(tmp, this.path);
+  }
+}
@@ -0,0 +1,267 @@
+/**
+ * ERC-8004 feedback files
+ *
+ * Feedback given through the Reputation Registry carries a `feedbackUri`
+ * pointing to an off-chain file and a `feedbackHash` committing to it. This
+ * module defines the file format (agent registry and ID, client, score,
+ * tags, skill, task, proof of payment and free-form context), serializes it
+ * to canonical JSON bytes whose keccak256 is the feedback hash, and checks
+ * published feedback against those hashes on read.
+ */
+
+import { z } from 'zod';
+import { ethers } from 'ethers';
+import { ValidationError, UriResolutionError } from './exceptions';
+import { UriResolver } from './resolver';
+import { canonicalize } from './utils/canonical';
+
+/** CAIP-10 account ID, e.g. eip155:84532:0xabc... */
+const CAIP10_PATTERN = /^[-a-z0-9]{3,8}:[-_a-zA-Z0-9]{1,32}:[-.%a-zA-Z0-9]{1,128}$/;
+
+export const ProofOfPaymentSchema = z
+  .object({
+    fromAddress: z.string(),
+    toAddress: z.string(),
+    chainId: z.union([z.number().int(), z.string()]),
+    txHash: z.string(),
+  })
+  .passthrough();
+
+export const FeedbackFileSchema = z
+  .object({
+    /** CAIP-10 address of the Identity Registry */
+    agentRegistry: z.string().regex(CAIP10_PATTERN, 'agentRegistry must be a CAIP-10 address'),
+    agentId: z.union([z.number().int().nonnegative(), z.string().regex(/^\d+$/)]),
+    /** CAIP-10 address of the client giving the feedback */
+    clientAddress: z.string().regex(CAIP10_PATTERN, 'clientAddress must be a CAIP-10 address'),
+    createdAt: z.string().datetime({ offset: true }),
+    score: z.number().int().min(0).max(100),
+    tag1: z.string().optional(),
+    tag2: z.string().optional(),
+    /** Skill (A2A) or capability the feedback is about */
+    skill: z.string().optional(),
+    /** Reference to the task the feedback is about */
+    task: z.string().optional(),
+    feedbackAuth: z.string().optional(),
+    proof_of_payment: ProofOfPaymentSchema.optional(),
+    /** Free-form context */
+    context: z.unknown().optional(),
+  })
+  .passthrough();
+
+export type ProofOfPayment = z.infer<typeof ProofOfPaymentSchema>;
+export type FeedbackFile = z.infer<typeof FeedbackFileSchema>;
+
+export interface FeedbackFileParams {
+  agentId: bigint;
+  chainId: number;
+  identityRegistry: string;
+  clientAddress: string;
+  score: number;
+  tag1?: string;
+  tag2?: string;
+  skill?: string;
+  task?: string;
+  feedbackAuth?: string;
+  proofOfPayment?: ProofOfPayment;
+  context?: unknown;
+  /** Defaults to now */
+  createdAt?: Date;
+}
+
+/**
+ * Build a validated feedback file
+ */
+export function buildFeedbackFile(params: FeedbackFileParams): FeedbackFile {
+  const file: Record<string, unknown> = {
+    agentRegistry: `eip155:${params.chainId}:${params.identityRegistry}`,
+    agentId: params.agentId.toString(),
+    clientAddress: `eip155:${params.chainId}:${params.clientAddress}`,
+    createdAt: (params.createdAt ?? new Date()).toISOString(),
+    score: params.score,
+    tag1: params.tag1,
+    tag2: params.tag2,
+    skill: params.skill,
+    task: params.task,
+    feedbackAuth: params.feedbackAuth,
+    proof_of_payment: params.proofOfPayment,
+    context: params.context,
+  };
+  Object.keys(file).forEach((key) => file[key] === undefined && delete file[key]);
+  return validateFeedbackFile(file);
+}
+
+/**
+ * Validate a parsed feedback file
+ */
+export function validateFeedbackFile(data: unknown): FeedbackFile {
+  const parsed = FeedbackFileSchema.safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => ({
+      path: issue.path.join('.'),
+      message: issue.message,
+    }));
+    throw new ValidationError(
+      `Invalid ERC-8004 feedback file: ${issues
+        .map((issue) => `${issue.path || '<root>'}: ${issue.message}`)
+        .join('; ')}`,
+      { issues }
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Serialize a feedback file to the bytes that get uploaded and hashed
+ * (RFC 8785 canonical JSON, UTF-8)
+ */
+export function encodeFeedbackFile(file: FeedbackFile): Uint8Array {
+  return ethers.toUtf8Bytes(canonicalize(file));
+}
+
+/**
+ * Feedback hash committed on-chain: keccak256 of the exact file bytes
+ */
+export function computeFeedbackHash(bytes: Uint8Array): string {
+  return ethers.keccak256(bytes);
+}
+
+/**
+ * Outcome of checking a feedback entry against its off-chain file
+ * - verified: the file bytes hash to the on-chain feedbackHash
+ * - mismatch: the file bytes do not hash to the on-chain feedbackHash
+ * - unhashed: no feedbackHash was committed (allowed for content-addressed URIs)
+ * - unresolvable: the feedbackUri could not be fetched
+ * - no_uri: the feedback has no feedbackUri
+ */
+export type FeedbackVerification = 'verified' | 'mismatch' | 'unhashed' | 'unresolvable' | 'no_uri';
+
+export interface VerifiedFeedback {
+  agentId: bigint;
+  clientAddress: string;
+  /** 1-based index of the feedback among the client's feedback for the agent */
+  feedbackIndex: bigint;
+  score: number;
+  tag1: string;
+  tag2: string;
+  feedbackUri: string;
+  feedbackHash: string;
+  blockNumber: number;
+  txHash: string;
+  verification: FeedbackVerification;
+  /** Parsed feedback file, null when missing or not a valid feedback file */
+  file: FeedbackFile | null;
+  /** Fields where the file disagrees with the on-chain feedback */
+  inconsistencies: string[];
+  error?: string;
+}
+
+/**
+ * Fetch the feedback file of every NewFeedback event (as returned by
+ * ChaosAgent.getFeedbackEvents, oldest first) and check it against the
+ * on-chain hash. Events before `fromBlock` only count towards the
+ * per-client feedback indexes; pass every event so those are right.
+ */
+export async function verifyFeedbackEvents(
+  events: ethers.EventLog[],
+  uriResolver: UriResolver,
+  fromBlock: number = 0
+): Promise<VerifiedFeedback[]> {
+  const counts = new Map<string, bigint>();
+  const results: VerifiedFeedback[] = [];
+
+  for (const event of events) {
+    const { agentId, clientAddress } = event.args;
+    const key = `${agentId}:${clientAddress.toLowerCase()}`;
+    const feedbackIndex = (counts.get(key) ?? 0n) + 1n;
+    counts.set(key, feedbackIndex);
+    if (event.blockNumber < fromBlock) continue;
+
+    results.push(await verifyFeedbackEvent(event, feedbackIndex, uriResolver));
+  }
+
+  return results;
+}
+
+/**
+ * Fetch the feedback file of one NewFeedback event and check it against the
+ * on-chain hash
+ * @param feedbackIndex 1-based index of the event among the client's feedback
+ */
+export async function verifyFeedbackEvent(
+  event: ethers.EventLog,
+  feedbackIndex: bigint,
+  uriResolver: UriResolver
+): Promise<VerifiedFeedback> {
+  const { agentId, clientAddress, score, tag1, tag2, feedbackUri, feedbackHash } = event.args;
+  const entry: VerifiedFeedback = {
+    agentId,
+    clientAddress: ethers.getAddress(clientAddress),
+    feedbackIndex,
+    score: Number(score),
+    tag1,
+    tag2,
+    feedbackUri,
+    feedbackHash,
+    blockNumber: event.blockNumber,
+    txHash: event.transactionHash,
+    verification: 'no_uri',
+    file: null,
+    inconsistencies: [],
+  };
+
+  const { verification, bytes, error } = await resolveCommittedFile(
+    feedbackUri,
+    feedbackHash,
+    uriResolver
+  );
+  entry.verification = verification;
+  if (error) entry.error = error;
+  if (!bytes) return entry;
+
+  try {
+    entry.file = validateFeedbackFile(JSON.parse(ethers.toUtf8String(bytes)));
+    entry.inconsistencies = findInconsistencies(entry, entry.file);
+  } catch (error) {
+    entry.error = error instanceof Error ? error.message : String(error);
+  }
+  return entry;
+}
+
+/**
+ * Fetch a file committed on-chain by URI and hash, and check the hash
+ * against the fetched bytes (shared by feedback and response files)
+ */
+export async function resolveCommittedFile(
+  uri: string,
+  hash: string,
+  uriResolver: UriResolver
+): Promise<{ verification: FeedbackVerification; bytes: Uint8Array | null; error?: string }> {
+  if (!uri) return { verification: 'no_uri', bytes: null };
+
+  let bytes: Uint8Array;
+  try {
+    bytes = (await uriResolver.resolve(uri)).bytes;
+  } catch (error) {
+    return {
+      verification: 'unresolvable',
+      bytes: null,
+      error:
+        error instanceof UriResolutionError ? `${error.reason}: ${error.message}` : String(error),
+    };
+  }
+
+  if (hash === ethers.ZeroHash) return { verification: 'unhashed', bytes };
+  return { verification: computeFeedbackHash(bytes) === hash ? 'verified' : 'mismatch', bytes };
+}
+
+function findInconsistencies(entry: VerifiedFeedback, file: FeedbackFile): string[] {
+  const inconsistencies: string[] = [];
+  if (file.agentId.toString() !== entry.agentId.toString()) inconsistencies.push('agentId');
+  if (file.score !== entry.score) inconsistencies.push('score');
+  const client = file.clientAddress.split(':').pop()!;
+  if (client.toLowerCase() !== entry.clientAddress.toLowerCase()) {
+    inconsistencies.push('clientAddress');
+  }
+  return inconsistencies;
+}
@@ -0,0 +1,473 @@
+/**
+ * Responses to ERC-8004 feedback
+ *
+ * Anyone, usually the rated agent, can append a response to a feedback entry
+ * through the Reputation Registry (`appendResponse`) with a `responseUri` and
+ * a `responseHash` committing to an off-chain file. This module defines that
+ * file (the feedback it answers, the kind of response, a message and evidence
+ * links such as payment receipts and integrity proofs), groups feedback and
+ * responses into threads, and provides a responder that watches an agent's
+ * incoming feedback and drafts responses to low scores.
+ */
+
+import { z } from 'zod';
+import { ethers } from 'ethers';
+import { ChaosAgent } from './ChaosAgent';
+import { ValidationError } from './exceptions';
+import { UriResolver } from './resolver';
+import { canonicalize } from './utils/canonical';
+import {
+  FeedbackVerification,
+  VerifiedFeedback,
+  computeFeedbackHash,
+  resolveCommittedFile,
+  verifyFeedbackEvent,
+  verifyFeedbackEvents,
+} from './FeedbackFile';
+
+/** CAIP-10 account ID, e.g. eip155:84532:0xabc... */
+const CAIP10_PATTERN = /^[-a-z0-9]{3,8}:[-_a-zA-Z0-9]{1,32}:[-.%a-zA-Z0-9]{1,128}$/;
+
+export const ResponseEvidenceSchema = z
+  .object({
+    type: z.enum(['payment_receipt', 'integrity_proof', 'validation', 'other']),
+    uri: z.string().optional(),
+    txHash: z.string().optional(),
+    /** Hash committing to the evidence (e.g. an integrity proof hash) */
+    hash: z.string().optional(),
+    description: z.string().optional(),
+  })
+  .passthrough();
+
+export const FeedbackResponseSchema = z
+  .object({
+    /** CAIP-10 address of the Identity Registry */
+    agentRegistry: z.string().regex(CAIP10_PATTERN, 'agentRegistry must be a CAIP-10 address'),
+    agentId: z.string().regex(/^\d+$/),
+    /** CAIP-10 address of the client whose feedback is answered */
+    clientAddress: z.string().regex(CAIP10_PATTERN, 'clientAddress must be a CAIP-10 address'),
+    /** 1-based index of the feedback among the client's feedback for the agent */
+    feedbackIndex: z.string().regex(/^[1-9]\d*$/),
+    /** On-chain feedbackHash of the answered feedback */
+    feedbackHash: z.string().optional(),
+    /** CAIP-10 address of the responder */
+    responder: z.string().regex(CAIP10_PATTERN, 'responder must be a CAIP-10 address'),
+    createdAt: z.string().datetime({ offset: true }),
+    kind: z.enum(['acknowledgement', 'clarification', 'remediation', 'dispute']),
+    message: z.string().min(1),
+    evidence: z.array(ResponseEvidenceSchema),
+  })
+  .passthrough();
+
+export type ResponseEvidence = z.infer<typeof ResponseEvidenceSchema>;
+export type FeedbackResponse = z.infer<typeof FeedbackResponseSchema>;
+export type FeedbackResponseKind = FeedbackResponse['kind'];
+
+export interface FeedbackResponseParams {
+  agentId: bigint;
+  chainId: number;
+  identityRegistry: string;
+  clientAddress: string;
+  feedbackIndex: bigint;
+  feedbackHash?: string;
+  responder: string;
+  kind: FeedbackResponseKind;
+  message: string;
+  evidence?: ResponseEvidence[];
+  /** Defaults to now */
+  createdAt?: Date;
+}
+
+/**
+ * Build a validated response file
+ */
+export function buildFeedbackResponse(params: FeedbackResponseParams): FeedbackResponse {
+  const response: Record<string, unknown> = {
+    agentRegistry: `eip155:${params.chainId}:${params.identityRegistry}`,
+    agentId: params.agentId.toString(),
+    clientAddress: `eip155:${params.chainId}:${params.clientAddress}`,
+    feedbackIndex: params.feedbackIndex.toString(),
+    feedbackHash: params.feedbackHash,
+    responder: `eip155:${params.chainId}:${params.responder}`,
+    createdAt: (params.createdAt ?? new Date()).toISOString(),
+    kind: params.kind,
+    message: params.message,
+    evidence: params.evidence ?? [],
+  };
+  Object.keys(response).forEach((key) => response[key] === undefined && delete response[key]);
+  return validateFeedbackResponse(response);
+}
+
+/**
+ * Validate a parsed response file
+ */
+export function validateFeedbackResponse(data: unknown): FeedbackResponse {
+  const parsed = FeedbackResponseSchema.safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => ({
+      path: issue.path.join('.'),
+      message: issue.message,
+    }));
+    throw new ValidationError(
+      `Invalid feedback response file: ${issues
+        .map((issue) => `${issue.path || '<root>'}: ${issue.message}`)
+        .join('; ')}`,
+      { issues }
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Serialize a response file to the bytes that get uploaded and hashed
+ * (RFC 8785 canonical JSON, UTF-8); the response hash is their keccak256
+ */
+export function encodeFeedbackResponse(response: FeedbackResponse): Uint8Array {
+  return ethers.toUtf8Bytes(canonicalize(response));
+}
+
+/**
+ * Draft a response to a feedback entry. Feedback whose file does not match
+ * its hash or contradicts the on-chain entry is disputed, anything else is
+ * acknowledged; the payment recorded in the feedback file is attached as a
+ * receipt.
+ */
+export function draftFeedbackResponse(
+  feedback: VerifiedFeedback,
+  params: Pick<FeedbackResponseParams, 'chainId' | 'identityRegistry' | 'responder'> &
+    Partial<Pick<FeedbackResponseParams, 'kind' | 'message' | 'evidence'>>
+): FeedbackResponse {
+  const disputed = feedback.verification === 'mismatch' || feedback.inconsistencies.length > 0;
+  const kind = params.kind ?? (disputed ? 'dispute' : 'acknowledgement');
+
+  const evidence = [...(params.evidence ?? [])];
+  const payment = feedback.file?.proof_of_payment;
+  if (payment && !evidence.some((item) => item.txHash === payment.txHash)) {
+    evidence.unshift({
+      type: 'payment_receipt',
+      txHash: payment.txHash,
+      description:
+        `Payment from ${payment.fromAddress} to ${payment.toAddress} ` +
+        `on chain ${payment.chainId}`,
+    });
+  }
+
+  const problem =
+    feedback.verification === 'mismatch'
+      ? 'does not match its on-chain hash'
+      : `disagrees with the on-chain entry (${feedback.inconsistencies.join(', ')})`;
+  const message =
+    params.message ??
+    (disputed
+      ? `The feedback file for this score ${problem}.`
+      : `We are sorry the result scored ${feedback.score}/100 and are looking into it.`);
+
+  return buildFeedbackResponse({
+    ...params,
+    agentId: feedback.agentId,
+    clientAddress: feedback.clientAddress,
+    feedbackIndex: feedback.feedbackIndex,
+    feedbackHash: feedback.feedbackHash,
+    kind,
+    message,
+    evidence,
+  });
+}
+
+// ============================================================================
+// Threads
+// ============================================================================
+
+export interface FeedbackResponseEntry {
+  responder: string;
+  responseUri: string;
+  responseHash: string;
+  blockNumber: number;
+  txHash: string;
+  verification: FeedbackVerification;
+  /** Parsed response file, null when missing or not a valid response file */
+  response: FeedbackResponse | null;
+  error?: string;
+}
+
+export interface FeedbackThread {
+  feedback: VerifiedFeedback;
+  /** Responses, oldest first */
+  responses: FeedbackResponseEntry[];
+}
+
+/**
+ * Attach ResponseAppended events (as returned by
+ * ChaosAgent.getResponseEvents, oldest first) to the feedback they answer,
+ * fetching and checking each response file
+ */
+export async function buildFeedbackThreads(
+  feedback: VerifiedFeedback[],
+  responseEvents: ethers.EventLog[],
+  uriResolver: UriResolver
+): Promise<FeedbackThread[]> {
+  const threads: FeedbackThread[] = feedback.map((entry) => ({ feedback: entry, responses: [] }));
+  const key = (client: string, index: bigint) => `${client.toLowerCase()}:${index}`;
+  const byKey = new Map<string, FeedbackThread>(
+    threads.map((thread) => [
+      key(thread.feedback.clientAddress, thread.feedback.feedbackIndex),
+      thread,
+    ])
+  );
+
+  for (const event of responseEvents) {
+    const { clientAddress, feedbackIndex, responder, responseUri, responseHash } = event.args;
+    const thread = byKey.get(key(clientAddress, feedbackIndex));
+    if (!thread) continue;
+
+    const { verification, bytes, error } = await resolveCommittedFile(
+      responseUri,
+      responseHash,
+      uriResolver
+    );
+    const entry: FeedbackResponseEntry = {
+      responder: ethers.getAddress(responder),
+      responseUri,
+      responseHash,
+      blockNumber: event.blockNumber,
+      txHash: event.transactionHash,
+      verification,
+      response: null,
+    };
+    if (error) entry.error = error;
+    if (bytes) {
+      try {
+        entry.response = validateFeedbackResponse(JSON.parse(ethers.toUtf8String(bytes)));
+      } catch (parseError) {
+        entry.error = parseError instanceof Error ? parseError.message : String(parseError);
+      }
+    }
+    thread.responses.push(entry);
+  }
+
+  return threads;
+}
+
+/**
+ * Read an agent's feedback and responses from chain and group them into threads
+ * @param options.fromBlock Only feedback and responses from this block on
+ */
+export async function readFeedbackThreads(
+  chaosAgent: ChaosAgent,
+  agentId: bigint,
+  uriResolver: UriResolver,
+  options: { clientAddress?: string; fromBlock?: number } = {}
+): Promise<FeedbackThread[]> {
+  const [feedbackEvents, responseEvents] = await Promise.all([
+    chaosAgent.getFeedbackEvents(agentId, options.clientAddress),
+    chaosAgent.getResponseEvents(agentId, options.clientAddress, options.fromBlock),
+  ]);
+  // Feedback is read from the start so the per-client indexes are right
+  const feedback = await verifyFeedbackEvents(feedbackEvents, uriResolver, options.fromBlock);
+  return buildFeedbackThreads(feedback, responseEvents, uriResolver);
+}
+
+// ============================================================================
+// Responder
+// ============================================================================
+
+export interface FeedbackResponderConfig {
+  /** Agent whose feedback is answered */
+  agentId: bigint;
+  chainId: number;
+  identityRegistry: string;
+  /** Address appendResponse is sent from */
+  responder: string;
+  /** Upload response file bytes, returning their URI */
+  upload: (bytes: Uint8Array) => Promise<string>;
+  uriResolver: UriResolver;
+  /** Feedback scoring below this (0-100) gets a drafted response (default 50) */
+  scoreThreshold?: number;
+  /** Extra evidence for a draft, e.g. integrity proofs of the rated task */
+  gatherEvidence?: (feedback: VerifiedFeedback) => Promise<ResponseEvidence[]>;
+  /**
+   * Review each draft as it is made: return the response to publish (edited
+   * or as drafted) or null to keep it as a pending draft
+   */
+  review?: (
+    draft: FeedbackResponse,
+    feedback: VerifiedFeedback
+  ) => Promise<FeedbackResponse | null>;
+}
+
+export interface PublishedFeedbackResponse {
+  txHash: string;
+  responseUri: string;
+  responseHash: string;
+  response: FeedbackResponse;
+}
+
+export interface PendingFeedbackResponse {
+  feedback: VerifiedFeedback;
+  draft: FeedbackResponse;
+}
+
+/**
+ * Drafts and publishes responses to an agent's low-score feedback
+ */
+export class FeedbackResponder {
+  private chaosAgent: ChaosAgent;
+  private config: FeedbackResponderConfig;
+  private scoreThreshold: number;
+  private pending: Map<string, PendingFeedbackResponse> = new Map();
+  private handled: Set<string> = new Set();
+  private watching = false;
+
+  constructor(chaosAgent: ChaosAgent, config: FeedbackResponderConfig) {
+    this.chaosAgent = chaosAgent;
+    this.config = config;
+    this.scoreThreshold = config.scoreThreshold ?? 50;
+    if (this.scoreThreshold < 0 || this.scoreThreshold > 100) {
+      throw new ValidationError('Score threshold must be between 0 and 100');
+    }
+  }
+
+  /**
+   * Draft a response to a feedback entry, with the configured evidence
+   */
+  async draft(
+    feedback: VerifiedFeedback,
+    options: { kind?: FeedbackResponseKind; message?: string; evidence?: ResponseEvidence[] } = {}
+  ): Promise<FeedbackResponse> {
+    const gathered = this.config.gatherEvidence ? await this.config.gatherEvidence(feedback) : [];
+    return draftFeedbackResponse(feedback, {
+      chainId: this.config.chainId,
+      identityRegistry: this.config.identityRegistry,
+      responder: this.config.responder,
+      ...options,
+      evidence: [...gathered, ...(options.evidence ?? [])],
+    });
+  }
+
+  /**
+   * Upload a response file and append it to the feedback it answers
+   */
+  async respond(response: FeedbackResponse): Promise<PublishedFeedbackResponse> {
+    const validated = validateFeedbackResponse(response);
+    if (validated.agentId !== this.config.agentId.toString()) {
+      throw new ValidationError(
+        `Response is for agent #${validated.agentId}, not #${this.config.agentId}`
+      );
+    }
+
+    const bytes = encodeFeedbackResponse(validated);
+    const responseHash = computeFeedbackHash(bytes);
+    const responseUri = await this.config.upload(bytes);
+    const clientAddress = validated.clientAddress.split(':').pop()!;
+    const feedbackIndex = BigInt(validated.feedbackIndex);
+
+    const txHash = await this.chaosAgent.appendResponse(
+      this.config.agentId,
+      clientAddress,
+      feedbackIndex,
+      responseUri,
+      responseHash
+    );
+    const key = `${clientAddress.toLowerCase()}:${feedbackIndex}`;
+    this.pending.delete(key);
+    this.handled.add(key);
+
+    console.log(`✅ Response appended to feedback #${feedbackIndex} from ${clientAddress}`);
+    return { txHash, responseUri, responseHash, response: validated };
+  }
+
+  /**
+   * The agent's feedback threads, with every response
+   */
+  async getThreads(
+    options: { clientAddress?: string; fromBlock?: number } = {}
+  ): Promise<FeedbackThread[]> {
+    return readFeedbackThreads(
+      this.chaosAgent,
+      this.config.agentId,
+      this.config.uriResolver,
+      options
+    );
+  }
+
+  /**
+   * Low-score feedback we have not responded to yet
+   */
+  async findUnanswered(): Promise<VerifiedFeedback[]> {
+    const responder = this.config.responder.toLowerCase();
+    return (await this.getThreads())
+      .filter(
+        (thread) =>
+          thread.feedback.score < this.scoreThreshold &&
+          !thread.responses.some((response) => response.responder.toLowerCase() === responder)
+      )
+      .map((thread) => thread.feedback);
+  }
+
+  /**
+   * Drafts waiting for review, oldest first
+   */
+  getPendingDrafts(): PendingFeedbackResponse[] {
+    return [...this.pending.values()];
+  }
+
+  /**
+   * Draft a response to every new low-score feedback entry as it arrives,
+   * publishing it when the review callback approves it
+   */
+  watch(): void {
+    if (this.watching) return;
+    this.watching = true;
+
+    this.chaosAgent.onNewFeedback(
+      (agentId, clientAddress, score, _tag1, _tag2, _uri, _hash, { log }) => {
+        if (agentId !== this.config.agentId || Number(score) >= this.scoreThreshold) return;
+        this.handleFeedback(clientAddress, log.blockNumber, log.index).catch((e) =>
+          console.warn(`⚠️  Failed to draft a response to feedback from ${clientAddress}: ${e}`)
+        );
+      }
+    );
+  }
+
+  /**
+   * Draft (and, if approved, publish) a response to the feedback a client
+   * left in the NewFeedback log at `blockNumber` and `logIndex`. Only that
+   * feedback's file is fetched; its index comes from counting the client's
+   * earlier events.
+   */
+  async handleFeedback(
+    clientAddress: string,
+    blockNumber: number,
+    logIndex: number
+  ): Promise<PendingFeedbackResponse | PublishedFeedbackResponse | null> {
+    const events = await this.chaosAgent.getFeedbackEvents(this.config.agentId, clientAddress);
+    const position = events.findIndex(
+      (event) => event.blockNumber === blockNumber && event.index === logIndex
+    );
+    if (position === -1 || Number(events[position].args.score) >= this.scoreThreshold) {
+      return null;
+    }
+
+    const feedbackIndex = BigInt(position + 1);
+    const key = `${clientAddress.toLowerCase()}:${feedbackIndex}`;
+    if (this.handled.has(key)) return null;
+    this.handled.add(key);
+
+    const feedback = await verifyFeedbackEvent(
+      events[position],
+      feedbackIndex,
+      this.config.uriResolver
+    );
+    const draft = await this.draft(feedback);
+    const approved = this.config.review ? await this.config.review(draft, feedback) : null;
+    if (approved) return this.respond(approved);
+
+    const pending = { feedback, draft };
+    this.pending.set(key, pending);
+    console.log(
+      `📝 Drafted a response to feedback #${feedback.feedbackIndex} ` +
+        `(score ${feedback.score}) from ${feedback.clientAddress}`
+    );
+    return pending;
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Feedback and validation tags
+ *
+ * The Reputation and Validation Registries store tags as bytes32. This module
+ * maps readable tags onto them: tags up to 31 UTF-8 bytes are stored as a
+ * null-padded bytes32 string, longer tags as their keccak256 with a registry
+ * that maps the hash back to the tag. Values that already are bytes32 hex pass
+ * through unchanged, and empty tags encode as ZeroHash (no tag / no filter).
+ */
+
+import { ethers } from 'ethers';
+import { ValidationError } from './exceptions';
+
+/**
+ * Standard feedback dimensions
+ */
+export const FEEDBACK_TAGS = {
+  QUALITY: 'quality',
+  ACCURACY: 'accuracy',
+  LATENCY: 'latency',
+  RELIABILITY: 'reliability',
+  COST: 'cost',
+  SAFETY: 'safety',
+  HELPFULNESS: 'helpfulness',
+  COMMUNICATION: 'communication',
+  TASK_COMPLETION: 'task-completion',
+} as const;
+
+export type StandardFeedbackTag = (typeof FEEDBACK_TAGS)[keyof typeof FEEDBACK_TAGS];
+
+export const FEEDBACK_TAG_DESCRIPTIONS: Record<StandardFeedbackTag, string> = {
+  quality: 'Overall quality of the result',
+  accuracy: 'Correctness of the output against the task',
+  latency: 'Speed of the response (higher score = faster)',
+  reliability: 'Availability and consistency across calls',
+  cost: 'Value for the price paid (higher score = cheaper)',
+  safety: 'Absence of harmful, unsafe or policy-violating output',
+  helpfulness: 'How well the result served the request',
+  communication: 'Clarity of messages and status updates',
+  'task-completion': 'Whether the task was completed as agreed',
+};
+
+/**
+ * Reverse lookup from bytes32 tag hashes to the long tags they came from
+ */
+export class FeedbackTagRegistry {
+  private longTags = new Map<string, string>();
+
+  constructor(tags: string[] = Object.values(FEEDBACK_TAGS)) {
+    tags.forEach((tag) => this.register(tag));
+  }
+
+  /**
+   * Encode a readable tag, remembering it if it has to be hashed
+   * @returns The bytes32 value
+   */
+  register(tag: string): string {
+    const bytes = ethers.toUtf8Bytes(tag);
+    if (bytes.length <= 31) return ethers.encodeBytes32String(tag);
+    const hash = ethers.keccak256(bytes);
+    this.longTags.set(hash, tag);
+    return hash;
+  }
+
+  /**
+   * Long tag a hash was registered for
+   */
+  lookup(value: string): string | undefined {
+    return this.longTags.get(value.toLowerCase());
+  }
+}
+
+/** Registry used when none is passed; pre-loaded with FEEDBACK_TAGS */
+export const defaultTagRegistry = new FeedbackTagRegistry();
+
+/**
+ * Encode a readable tag (or pass through a bytes32 value) for the registries
+ * @throws ValidationError when the tag is hex but not 32 bytes
+ */
+export function encodeTag(
+  tag: string | null | undefined,
+  registry: FeedbackTagRegistry = defaultTagRegistry
+): string {
+  if (!tag) return ethers.ZeroHash;
+  if (ethers.isHexString(tag)) {
+    if (ethers.dataLength(tag) !== 32) {
+      throw new ValidationError(`Tag ${tag} is hex but not 32 bytes`, { tag });
+    }
+    return tag.toLowerCase();
+  }
+  return registry.register(tag);
+}
+
+/**
+ * Readable form of a bytes32 tag: '' for ZeroHash, the registered tag for a
+ * known hash, the string for a bytes32 string, or the hex itself otherwise
+ */
+export function decodeTag(
+  value: string,
+  registry: FeedbackTagRegistry = defaultTagRegistry
+): string {
+  if (!value || value === ethers.ZeroHash) return '';
+  const registered = registry.lookup(value);
+  if (registered !== undefined) return registered;
+  try {
+    const tag = ethers.decodeBytes32String(value);
+    // Only accept values that round-trip, so hashes are not mistaken for strings
+    if (ethers.encodeBytes32String(tag) === value.toLowerCase()) return tag;
+  } catch {
+    // Not a bytes32 string
+  }
+  return value;
+}
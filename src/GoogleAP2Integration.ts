@@ -10,6 +10,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as jose from 'jose';
 import { ConfigurationError, PaymentError } from './exceptions';
+import { canonicalHash } from './utils/canonical';
 
 export interface IntentMandate {
   user_cart_confirmation_required: boolean;
@@ -290,9 +291,8 @@ export class GoogleAP2Integration {
    * Create a JWT token for merchant authorization as per Google's AP2 spec
    */
   private async createMerchantJwt(cartContents: CartContents): Promise<string> {
-    // Create cart hash for integrity
-    const cartJson = JSON.stringify(cartContents);
-    const cartHash = crypto.createHash('sha256').update(cartJson).digest('hex');
+    // Create cart hash for integrity (RFC 8785 canonical JSON)
+    const cartHash = canonicalHash(cartContents);
 
     // JWT Payload
     const now = Math.floor(Date.now() / 1000);
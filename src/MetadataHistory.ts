@@ -0,0 +1,196 @@
+/**
+ * Agent metadata version history.
+ *
+ * Replays an agent's Registered, UriUpdated and MetadataSet events into a
+ * timeline. Every token URI the agent has published is resolved, and each
+ * version carries a structured diff against the state before it, so
+ * counterparties can see when capabilities or endpoints changed and who
+ * changed them.
+ */
+
+import { ethers } from 'ethers';
+import { UriResolver } from './resolver';
+import { UriResolutionError } from './exceptions';
+import { canonicalize } from './utils/canonical';
+
+export interface MetadataChange {
+  /** Dotted path of the changed field, e.g. `endpoints[A2A].endpoint` */
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface MetadataVersion {
+  kind: 'registered' | 'uri_updated' | 'metadata_set';
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
+  /** Address that made the change */
+  updatedBy: string;
+  /** Token URI published by this version (registered and uri_updated) */
+  tokenUri?: string;
+  /** Registration file the token URI resolved to */
+  document?: Record<string, unknown> | null;
+  resolutionError?: { reason: string; message: string };
+  /** On-chain metadata key and hex value (metadata_set) */
+  key?: string;
+  value?: string;
+  /** Changes against the previous version */
+  changes: MetadataChange[];
+  /** Set when flagging: the change was made by an address other than the current owner */
+  byNonOwner?: boolean;
+}
+
+export interface MetadataTimeline {
+  agentId: bigint;
+  /** Current owner (only looked up when flagging non-owner changes) */
+  owner?: string;
+  versions: MetadataVersion[];
+  /** Versions made by an address other than the current owner */
+  flagged: MetadataVersion[];
+}
+
+export interface MetadataTimelineOptions {
+  /** Flag versions made by an address other than this owner */
+  currentOwner?: string;
+}
+
+/**
+ * Build an agent's metadata timeline from its identity registry events
+ * (as returned by ChaosAgent.getIdentityEvents)
+ */
+export async function buildMetadataTimeline(
+  agentId: bigint,
+  events: ethers.EventLog[],
+  uriResolver: UriResolver,
+  options: MetadataTimelineOptions = {}
+): Promise<MetadataTimeline> {
+  const versions: MetadataVersion[] = [];
+  let document: Record<string, unknown> | null = null;
+  const onChain: Record<string, string> = {};
+  const resolved = new Map<string, Promise<Record<string, unknown>>>();
+
+  for (const event of events) {
+    const base = {
+      blockNumber: event.blockNumber,
+      txHash: event.transactionHash,
+      logIndex: event.index,
+    };
+
+    if (event.eventName === 'MetadataSet') {
+      const { key, value } = event.args;
+      const updatedBy = (await event.getTransaction()).from;
+      const changes = diffMetadata({ [key]: onChain[key] }, { [key]: value }, 'onChain');
+      onChain[key] = value;
+      versions.push({ kind: 'metadata_set', ...base, updatedBy, key, value, changes });
+      continue;
+    }
+
+    const registered = event.eventName === 'Registered';
+    const tokenUri: string = registered ? event.args.tokenURI : event.args.newUri;
+    const updatedBy: string = registered ? event.args.owner : event.args.updatedBy;
+    const version: MetadataVersion = {
+      kind: registered ? 'registered' : 'uri_updated',
+      ...base,
+      updatedBy,
+      tokenUri,
+      document: null,
+      changes: [],
+    };
+
+    try {
+      if (tokenUri) {
+        // The same URI is often republished; resolve it once
+        if (!resolved.has(tokenUri)) resolved.set(tokenUri, uriResolver.resolveJson(tokenUri));
+        version.document = await resolved.get(tokenUri)!;
+      }
+      version.changes = diffMetadata(document, version.document);
+      document = version.document ?? null;
+    } catch (error) {
+      // Unresolvable versions keep the last known document as the baseline
+      version.resolutionError = {
+        reason: error instanceof UriResolutionError ? error.reason : 'invalid_content',
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+    versions.push(version);
+  }
+
+  const owner = options.currentOwner;
+  if (owner) {
+    versions.forEach((v) => (v.byNonOwner = v.updatedBy.toLowerCase() !== owner.toLowerCase()));
+  }
+
+  return {
+    agentId,
+    owner,
+    versions,
+    flagged: versions.filter((version) => version.byNonOwner),
+  };
+}
+
+/**
+ * Structured diff between two metadata documents. Arrays of named objects
+ * (such as `endpoints`) are matched by name and arrays of scalars (such as
+ * `capabilities`) are compared as sets.
+ */
+export function diffMetadata(before: unknown, after: unknown, path: string = ''): MetadataChange[] {
+  if (canonicalize(before ?? null) === canonicalize(after ?? null)) {
+    return [];
+  }
+  if (before === undefined || before === null) {
+    return [{ path: path || '<root>', kind: 'added', after }];
+  }
+  if (after === undefined || after === null) {
+    return [{ path: path || '<root>', kind: 'removed', before }];
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    return diffArrays(before, after, path);
+  }
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+    return keys.flatMap((key) =>
+      diffMetadata(before[key], after[key], path ? `${path}.${key}` : key)
+    );
+  }
+
+  return [{ path: path || '<root>', kind: 'changed', before, after }];
+}
+
+function diffArrays(before: unknown[], after: unknown[], path: string): MetadataChange[] {
+  const named = (items: unknown[]) =>
+    items.every((item) => isPlainObject(item) && typeof item.name === 'string');
+  if (named(before) && named(after)) {
+    const byName = (items: unknown[]) =>
+      new Map(items.map((item) => [(item as Record<string, unknown>).name as string, item]));
+    const old = byName(before);
+    const next = byName(after);
+    const names = [...new Set([...old.keys(), ...next.keys()])];
+    return names.flatMap((name) => diffMetadata(old.get(name), next.get(name), `${path}[${name}]`));
+  }
+
+  const scalar = (items: unknown[]) => items.every((item) => !isPlainObject(item));
+  if (scalar(before) && scalar(after)) {
+    const old = new Set(before.map((item) => canonicalize(item)));
+    const next = new Set(after.map((item) => canonicalize(item)));
+    return [
+      ...before
+        .filter((item) => !next.has(canonicalize(item)))
+        .map((item): MetadataChange => ({ path, kind: 'removed', before: item })),
+      ...after
+        .filter((item) => !old.has(canonicalize(item)))
+        .map((item): MetadataChange => ({ path, kind: 'added', after: item })),
+    ];
+  }
+
+  const length = Math.max(before.length, after.length);
+  return Array.from({ length }, (_, i) =>
+    diffMetadata(before[i], after[i], `${path}[${i}]`)
+  ).flat();
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
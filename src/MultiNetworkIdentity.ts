@@ -0,0 +1,255 @@
+/**
+ * Cross-chain agent identity linking.
+ *
+ * The same agent is registered in the identity registry of several networks.
+ * Each network's registration file lists every registration in its
+ * `registrations` array (agent ID plus the CAIP-10 ID of the registry), so a
+ * verifier starting from any chain can find the others and check that they
+ * point back.
+ */
+
+import { ethers } from 'ethers';
+import { ChaosAgent } from './ChaosAgent';
+import { NetworkConfig } from './types';
+import { UriResolver } from './resolver';
+import { getContractAddresses, getNetworkInfo } from './utils/networks';
+import { registryCaip10 } from './DomainVerification';
+import {
+  AgentRegistrationFile,
+  RegistrationEntry,
+  encodeRegistrationDataUri,
+  isSameAgent,
+  withRegistration,
+} from './RegistrationFile';
+
+export interface MultiNetworkIdentityConfig {
+  networks: (NetworkConfig | string)[];
+  /** RPC URL overrides per network (default the network's configured RPC) */
+  rpcUrls?: Record<string, string>;
+  uriResolver?: UriResolver;
+}
+
+export interface NetworkIdentity {
+  network: string;
+  chainId: number;
+  agentId: bigint;
+  /** CAIP-10 ID of the network's identity registry */
+  agentRegistry: string;
+  /** Whether the identity was created by this call (false when reused) */
+  registered: boolean;
+}
+
+export interface RegisterOnNetworksOptions {
+  /**
+   * Existing agent IDs to reuse; on other networks the wallet's lowest owned
+   * ID with the same name and domain is reused
+   */
+  agentIds?: Record<string, bigint>;
+}
+
+export interface NetworkLinkStatus {
+  network: string;
+  agentId: bigint;
+  owner: string | null;
+  /** Whether this network's registration file lists every identity */
+  linked: boolean;
+  /** Networks whose identity this network's file does not list */
+  missing: string[];
+  error?: string;
+}
+
+export interface CrossChainLinkReport {
+  /** Every file lists every identity and one address owns them all */
+  linked: boolean;
+  networks: NetworkLinkStatus[];
+}
+
+/**
+ * Registers and links one agent identity across several networks.
+ */
+export class MultiNetworkIdentity {
+  private agents: Map<string, ChaosAgent> = new Map();
+  private uriResolver: UriResolver;
+
+  constructor(
+    private wallet: ethers.Wallet | ethers.HDNodeWallet,
+    private config: MultiNetworkIdentityConfig
+  ) {
+    this.uriResolver = config.uriResolver ?? new UriResolver();
+  }
+
+  getNetworks(): string[] {
+    return this.config.networks.map(String);
+  }
+
+  /**
+   * ChaosAgent connected to a network's registries
+   */
+  getAgent(network: string): ChaosAgent {
+    let agent = this.agents.get(network);
+    if (!agent) {
+      const rpcUrl = this.config.rpcUrls?.[network] ?? getNetworkInfo(network).rpcUrl;
+      const provider = new ethers.JsonRpcProvider(rpcUrl);
+      agent = new ChaosAgent(
+        getContractAddresses(network),
+        this.wallet.connect(provider) as ethers.Wallet,
+        provider,
+        this.uriResolver
+      );
+      this.agents.set(network, agent);
+    }
+    return agent;
+  }
+
+  /**
+   * Registration entry for an agent ID on a network
+   */
+  getRegistration(network: string, agentId: bigint): RegistrationEntry {
+    return {
+      agentId: agentId.toString(),
+      agentRegistry: registryCaip10(
+        getNetworkInfo(network).chainId,
+        getContractAddresses(network).identity
+      ),
+    };
+  }
+
+  /**
+   * Find the wallet's existing identity of an agent on every network: the
+   * lowest owned ID whose registration file has the same name and domain
+   */
+  async lookup(file: AgentRegistrationFile): Promise<NetworkIdentity[]> {
+    const identities: NetworkIdentity[] = [];
+    for (const network of this.getNetworks()) {
+      const agentId = await this.findAgentId(network, file);
+      if (agentId !== undefined) {
+        identities.push(this.toIdentity(network, agentId, false));
+      }
+    }
+    return identities;
+  }
+
+  /**
+   * Register the agent on every network that has no identity yet, then
+   * publish a registration file listing all identities on every network
+   */
+  async register(
+    file: AgentRegistrationFile,
+    options: RegisterOnNetworksOptions = {}
+  ): Promise<{ identities: NetworkIdentity[]; file: AgentRegistrationFile }> {
+    const identities: NetworkIdentity[] = [];
+    let linked = file;
+
+    for (const network of this.getNetworks()) {
+      const agent = this.getAgent(network);
+      const existing = options.agentIds?.[network] ?? (await this.findAgentId(network, file));
+
+      let identity: NetworkIdentity;
+      if (existing !== undefined) {
+        identity = this.toIdentity(network, existing, false);
+      } else {
+        const registration = await agent.registerWithTokenUri(encodeRegistrationDataUri(linked));
+        identity = this.toIdentity(network, registration.agentId, true);
+        console.log(`✅ Agent #${identity.agentId} registered on ${network}`);
+      }
+
+      identities.push(identity);
+      linked = withRegistration(linked, {
+        agentId: identity.agentId,
+        agentRegistry: identity.agentRegistry,
+      });
+    }
+
+    // A file registered on-chain cannot list its own agent ID yet, so every
+    // network gets the complete list once all IDs are known
+    for (const identity of identities) {
+      await this.getAgent(identity.network).updateAgentMetadata(identity.agentId, linked);
+    }
+
+    console.log(`🔗 Agent linked across ${identities.length} networks`);
+    return { identities, file: linked };
+  }
+
+  /**
+   * Check that every identity's registration file lists all the others and
+   * that a single address owns them. Given a registration file instead of
+   * identities, the identities are found with lookup().
+   */
+  async verifyLinks(
+    identities: NetworkIdentity[] | AgentRegistrationFile
+  ): Promise<CrossChainLinkReport> {
+    const targets = Array.isArray(identities) ? identities : await this.lookup(identities);
+    const networks: NetworkLinkStatus[] = [];
+
+    for (const identity of targets) {
+      const agent = this.getAgent(identity.network);
+      const status: NetworkLinkStatus = {
+        network: identity.network,
+        agentId: identity.agentId,
+        owner: null,
+        linked: false,
+        missing: [],
+      };
+      try {
+        status.owner = ethers.getAddress(await agent.getAgentOwner(identity.agentId));
+        const uri = await agent.getAgentUri(identity.agentId);
+        const document = uri
+          ? await this.uriResolver.resolveJson<{ registrations?: unknown }>(uri)
+          : {};
+        const listed: Partial<RegistrationEntry>[] = Array.isArray(document?.registrations)
+          ? document.registrations
+          : [];
+
+        status.missing = targets
+          .filter(
+            (other) =>
+              !listed.some(
+                (entry) =>
+                  String(entry?.agentId) === other.agentId.toString() &&
+                  String(entry?.agentRegistry).toLowerCase() === other.agentRegistry.toLowerCase()
+              )
+          )
+          .map((other) => other.network);
+        status.linked = status.missing.length === 0;
+      } catch (error) {
+        status.error = error instanceof Error ? error.message : String(error);
+      }
+      networks.push(status);
+    }
+
+    const owners = new Set(networks.map((status) => status.owner));
+    return {
+      linked: networks.length > 0 && owners.size === 1 && networks.every((s) => s.linked),
+      networks,
+    };
+  }
+
+  /**
+   * Lowest agent ID the wallet owns on a network whose registration file
+   * describes the same agent as `file`
+   */
+  private async findAgentId(
+    network: string,
+    file: AgentRegistrationFile
+  ): Promise<bigint | undefined> {
+    const agent = this.getAgent(network);
+    for (const agentId of await agent.getOwnedAgentIds(this.wallet.address)) {
+      const document = await agent.getAgentMetadata(agentId).catch(() => null);
+      if (isSameAgent(document, file)) {
+        return agentId;
+      }
+    }
+    return undefined;
+  }
+
+  private toIdentity(network: string, agentId: bigint, registered: boolean): NetworkIdentity {
+    const { agentRegistry } = this.getRegistration(network, agentId);
+    return {
+      network,
+      chainId: getNetworkInfo(network).chainId,
+      agentId,
+      agentRegistry,
+      registered,
+    };
+  }
+}
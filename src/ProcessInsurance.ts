@@ -0,0 +1,671 @@
+/**
+ * Process insurance for integrity-checked functions.
+ *
+ * An insuring agent underwrites a specific registered function (pinned by its
+ * code hash) for a coverage amount. Policies are signed by the insurer's
+ * wallet and persisted to a JSON file, and can be backed by USDC escrowed
+ * through the x402 payment manager. A claim is filed with an integrity proof
+ * that fails verification, or with two proofs that contradict each other
+ * (same code and inputs, different results). The claim evidence is uploaded
+ * and submitted to a validator through the ERC-8004 Validation Registry; once
+ * the validator responds with a score at or above the approval threshold the
+ * coverage is paid out to the claimant.
+ */
+
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { ethers } from 'ethers';
+import { ChaosAgent } from './ChaosAgent';
+import { StorageBackend } from './StorageBackends';
+import { X402PaymentManager } from './X402PaymentManager';
+import {
+  ProcessIntegrity,
+  ProcessIntegrityProof,
+  ProofVerificationCheck,
+  ProofVerificationOptions,
+} from './ProcessIntegrity';
+import { PaymentError, ValidationError } from './exceptions';
+import { canonicalize, canonicalKeccak256 } from './utils/canonical';
+
+export type InsurancePolicyStatus = 'active' | 'claimed' | 'cancelled';
+export type InsuranceClaimStatus = 'pending' | 'approved' | 'rejected' | 'paid';
+
+export interface ProcessInsuranceConfig {
+  /** Name of the insuring agent */
+  agentName: string;
+  /** Insuring agent's wallet; signs policies */
+  signer: ethers.Signer;
+  chainId: number;
+  /** ERC-8004 agent ID of the insurer; claims are validation requests for it */
+  agentId: bigint;
+  /** Validator that adjudicates claims */
+  validatorAddress: string;
+  /** Minimum validator response (0-100) that approves a claim (default 50) */
+  approvalThreshold?: number;
+  /** JSON file policies and claims are persisted to (in-memory when omitted) */
+  storePath?: string;
+  /** Insurer's payment manager; funds escrow deposits and direct payouts */
+  paymentManager?: X402PaymentManager;
+  /** Escrow holding policy coverage */
+  escrow?: {
+    address: string;
+    /** Payment manager of the escrow wallet, used to pay out escrowed policies */
+    paymentManager?: X402PaymentManager;
+  };
+}
+
+export interface CreatePolicyOptions {
+  conditions?: Record<string, unknown>;
+  /** Policy lapses after this date */
+  expiresAt?: Date;
+  /** Deposit the coverage amount in escrow before issuing the policy */
+  escrow?: boolean;
+}
+
+/**
+ * Policy fields covered by the insurer's signature
+ */
+export interface InsurancePolicyTerms {
+  type: 'chaoschain_process_insurance_policy_v1';
+  policy_id: string;
+  function_name: string;
+  code_hash: string;
+  insurer_name: string;
+  insurer_address: string;
+  insurer_agent_id: string;
+  chain_id: number;
+  coverage_amount: number;
+  currency: 'USDC';
+  conditions: Record<string, unknown>;
+  escrow_address: string | null;
+  created_at: string;
+  expires_at: string | null;
+}
+
+export interface InsurancePolicy extends InsurancePolicyTerms {
+  signature: string;
+  status: InsurancePolicyStatus;
+  escrow_deposit?: InsurancePayment;
+  claim_ids: string[];
+}
+
+export interface InsurancePayment {
+  payment_id: string;
+  transaction_hash: string;
+  to_address: string;
+  amount: number;
+  currency: string;
+}
+
+export interface FileClaimOptions {
+  /** Address the payout is sent to */
+  beneficiary: string;
+  /** Second proof of the same function and inputs with a different result */
+  contradictingProof?: ProcessIntegrityProof | Record<string, unknown>;
+  reason?: string;
+  verification?: ProofVerificationOptions;
+}
+
+export interface InsuranceClaim {
+  claim_id: string;
+  policy_id: string;
+  beneficiary: string;
+  grounds: 'failed_verification' | 'contradicted';
+  reason: string | null;
+  failed_checks: ProofVerificationCheck[];
+  evidence_uri: string;
+  claim_hash: string;
+  validator_address: string;
+  validation_tx: string;
+  status: InsuranceClaimStatus;
+  filed_at: string;
+  validator_response?: number;
+  adjudicated_at?: string;
+  payout?: InsurancePayment;
+}
+
+interface InsuranceStoreData {
+  version: 1;
+  policies: InsurancePolicy[];
+  claims: InsuranceClaim[];
+}
+
+/**
+ * Policy fields covered by the signature
+ */
+function policyTerms(policy: InsurancePolicy | InsurancePolicyTerms): InsurancePolicyTerms {
+  return {
+    type: policy.type,
+    policy_id: policy.policy_id,
+    function_name: policy.function_name,
+    code_hash: policy.code_hash,
+    insurer_name: policy.insurer_name,
+    insurer_address: policy.insurer_address,
+    insurer_agent_id: policy.insurer_agent_id,
+    chain_id: policy.chain_id,
+    coverage_amount: policy.coverage_amount,
+    currency: policy.currency,
+    conditions: policy.conditions,
+    escrow_address: policy.escrow_address,
+    created_at: policy.created_at,
+    expires_at: policy.expires_at,
+  };
+}
+
+/**
+ * Check that a policy was signed by the insurer it names
+ */
+export function verifyInsurancePolicy(policy: InsurancePolicy): boolean {
+  try {
+    const digest = canonicalKeccak256(policyTerms(policy));
+    const recovered = ethers.verifyMessage(ethers.getBytes(digest), policy.signature);
+    return recovered.toLowerCase() === policy.insurer_address.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
+function randomId(prefix: string): string {
+  return `${prefix}_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Issues insurance policies for registered functions and settles claims
+ * through the Validation Registry.
+ */
+export class ProcessInsurance {
+  private processIntegrity: ProcessIntegrity;
+  private chaosAgent: ChaosAgent;
+  private storage: StorageBackend;
+  private config: ProcessInsuranceConfig;
+  private approvalThreshold: number;
+  private policies: Map<string, InsurancePolicy> = new Map();
+  private claims: Map<string, InsuranceClaim> = new Map();
+  /** Payouts in progress, by claim ID, so a claim is never paid twice */
+  private payouts: Map<string, Promise<InsuranceClaim>> = new Map();
+  private watching = false;
+
+  constructor(
+    processIntegrity: ProcessIntegrity,
+    chaosAgent: ChaosAgent,
+    storage: StorageBackend,
+    config: ProcessInsuranceConfig
+  ) {
+    this.processIntegrity = processIntegrity;
+    this.chaosAgent = chaosAgent;
+    this.storage = storage;
+    this.config = config;
+    this.approvalThreshold = config.approvalThreshold ?? 50;
+    if (this.approvalThreshold < 0 || this.approvalThreshold > 100) {
+      throw new ValidationError('Approval threshold must be between 0 and 100');
+    }
+    this.load();
+
+    console.log(`🛡️  Process insurance initialized (${this.policies.size} policies)`);
+  }
+
+  /**
+   * Issue a signed policy covering a registered function.
+   *
+   * The policy is pinned to the function's current code hash. With
+   * `escrow: true` the coverage amount is transferred to the escrow address
+   * before the policy is issued.
+   */
+  async createPolicy(
+    functionName: string,
+    coverageAmount: number,
+    options: CreatePolicyOptions = {}
+  ): Promise<InsurancePolicy> {
+    const codeHash = this.processIntegrity.getCodeHash(functionName);
+    if (!codeHash) {
+      throw new ValidationError(`Function not registered for integrity checking: ${functionName}`);
+    }
+    if (!(coverageAmount > 0)) {
+      throw new ValidationError('Coverage amount must be positive', { coverageAmount });
+    }
+    if (options.expiresAt && options.expiresAt.getTime() <= Date.now()) {
+      throw new ValidationError('Policy expiry must be in the future');
+    }
+    if (options.escrow && !this.config.escrow) {
+      throw new ValidationError('No escrow address configured for process insurance');
+    }
+
+    const terms: InsurancePolicyTerms = {
+      type: 'chaoschain_process_insurance_policy_v1',
+      policy_id: randomId('policy'),
+      function_name: functionName,
+      code_hash: codeHash,
+      insurer_name: this.config.agentName,
+      insurer_address: await this.config.signer.getAddress(),
+      insurer_agent_id: this.config.agentId.toString(),
+      chain_id: this.config.chainId,
+      coverage_amount: coverageAmount,
+      currency: 'USDC',
+      conditions: options.conditions ?? {},
+      escrow_address: options.escrow ? this.config.escrow!.address : null,
+      created_at: new Date().toISOString(),
+      expires_at: options.expiresAt ? options.expiresAt.toISOString() : null,
+    };
+
+    let escrowDeposit: InsurancePayment | undefined;
+    if (terms.escrow_address) {
+      escrowDeposit = await this.pay(
+        this.config.paymentManager,
+        terms.escrow_address,
+        coverageAmount,
+        `Insurance escrow for ${terms.policy_id}`
+      );
+    }
+
+    const signature = await this.config.signer.signMessage(
+      ethers.getBytes(canonicalKeccak256(terms))
+    );
+    const policy: InsurancePolicy = {
+      ...terms,
+      signature,
+      status: 'active',
+      escrow_deposit: escrowDeposit,
+      claim_ids: [],
+    };
+    this.policies.set(policy.policy_id, policy);
+    this.save();
+
+    console.log(`🛡️  Process insurance policy created: ${policy.policy_id}`);
+    console.log(`   Function: ${functionName}`);
+    console.log(`   Coverage: ${coverageAmount} USDC${escrowDeposit ? ' (escrowed)' : ''}`);
+
+    return policy;
+  }
+
+  /**
+   * Cancel an active policy that has no open claims
+   */
+  cancelPolicy(policyId: string): InsurancePolicy {
+    const policy = this.getPolicy(policyId);
+    if (policy.status !== 'active') {
+      throw new ValidationError(`Policy ${policyId} is ${policy.status}`);
+    }
+    if (this.getClaims(policyId).some((c) => c.status === 'pending' || c.status === 'approved')) {
+      throw new ValidationError(`Policy ${policyId} has open claims`);
+    }
+    policy.status = 'cancelled';
+    this.save();
+    return policy;
+  }
+
+  getPolicy(policyId: string): InsurancePolicy {
+    const policy = this.policies.get(policyId);
+    if (!policy) {
+      throw new ValidationError(`Unknown insurance policy: ${policyId}`);
+    }
+    return policy;
+  }
+
+  getPolicies(functionName?: string): InsurancePolicy[] {
+    return [...this.policies.values()].filter(
+      (policy) => functionName === undefined || policy.function_name === functionName
+    );
+  }
+
+  getClaim(claimId: string): InsuranceClaim {
+    const claim = this.claims.get(claimId);
+    if (!claim) {
+      throw new ValidationError(`Unknown insurance claim: ${claimId}`);
+    }
+    return claim;
+  }
+
+  getClaims(policyId?: string): InsuranceClaim[] {
+    return [...this.claims.values()].filter(
+      (claim) => policyId === undefined || claim.policy_id === policyId
+    );
+  }
+
+  /**
+   * File a claim against a policy.
+   *
+   * The proof must be for the insured function and either fail verification
+   * or be contradicted by `options.contradictingProof`. The evidence is
+   * uploaded and its hash submitted to the policy validator as a validation
+   * request.
+   */
+  async fileClaim(
+    policyId: string,
+    proof: ProcessIntegrityProof | Record<string, unknown>,
+    options: FileClaimOptions
+  ): Promise<InsuranceClaim> {
+    const policy = this.getPolicy(policyId);
+    if (policy.status !== 'active') {
+      throw new ValidationError(`Policy ${policyId} is ${policy.status}`);
+    }
+    if (policy.expires_at && new Date(policy.expires_at).getTime() < Date.now()) {
+      throw new ValidationError(`Policy ${policyId} expired at ${policy.expires_at}`);
+    }
+    if (!ethers.isAddress(options.beneficiary)) {
+      throw new ValidationError(`Invalid beneficiary address: ${options.beneficiary}`);
+    }
+    if (proof.function_name !== policy.function_name) {
+      throw new ValidationError(
+        `Proof is for ${proof.function_name}, policy covers ${policy.function_name}`
+      );
+    }
+    if (proof.code_hash !== policy.code_hash) {
+      throw new ValidationError('Proof is for a different build of the insured function', {
+        policy_code_hash: policy.code_hash,
+        proof_code_hash: proof.code_hash,
+      });
+    }
+    const settled = this.findSettledClaim(policy);
+    if (settled) {
+      throw new ValidationError(`Policy ${policyId} coverage was already claimed`, {
+        claim_id: settled.claim_id,
+      });
+    }
+
+    const verification = await this.processIntegrity.verifyProof(proof, options.verification);
+    const failedChecks = verification.checks.filter((check) => !check.passed);
+
+    let grounds: InsuranceClaim['grounds'];
+    if (failedChecks.length > 0) {
+      grounds = 'failed_verification';
+    } else if (options.contradictingProof) {
+      await this.checkContradiction(proof, options.contradictingProof, options.verification);
+      grounds = 'contradicted';
+    } else {
+      throw new ValidationError('Proof verifies and is not contradicted; nothing to claim', {
+        proof_id: proof.proof_id,
+      });
+    }
+
+    const claimId = randomId('claim');
+    const evidence = {
+      type: 'chaoschain_process_insurance_claim_v1',
+      claim_id: claimId,
+      policy: policyTerms(policy),
+      policy_signature: policy.signature,
+      beneficiary: options.beneficiary,
+      grounds,
+      reason: options.reason ?? null,
+      proof,
+      contradicting_proof: options.contradictingProof ?? null,
+      verification,
+      filed_at: new Date().toISOString(),
+    };
+    // Round-trip through JSON so dates and undefined fields match what is hashed
+    const document = JSON.parse(JSON.stringify(evidence));
+    const claimHash = canonicalKeccak256(document);
+
+    const stored = await this.storage.put(Buffer.from(canonicalize(document)), 'application/json');
+    const evidenceUri = stored.url || `ipfs://${stored.cid}`;
+    const validationTx = await this.chaosAgent.requestValidation(
+      this.config.validatorAddress,
+      this.config.agentId,
+      evidenceUri,
+      claimHash
+    );
+
+    const claim: InsuranceClaim = {
+      claim_id: claimId,
+      policy_id: policyId,
+      beneficiary: options.beneficiary,
+      grounds,
+      reason: options.reason ?? null,
+      failed_checks: failedChecks,
+      evidence_uri: evidenceUri,
+      claim_hash: claimHash,
+      validator_address: this.config.validatorAddress,
+      validation_tx: validationTx,
+      status: 'pending',
+      filed_at: document.filed_at,
+    };
+    this.claims.set(claimId, claim);
+    policy.claim_ids.push(claimId);
+    this.save();
+
+    console.log(`📋 Insurance claim filed: ${claimId}`);
+    console.log(`   Policy: ${policyId} (${grounds.replace('_', ' ')})`);
+    console.log(`   Validation TX: ${validationTx}`);
+
+    return claim;
+  }
+
+  /**
+   * Settle a pending claim from the validator's response.
+   *
+   * A response at or above the approval threshold approves the claim and pays
+   * the coverage to the beneficiary; a lower response rejects it. Claims with
+   * no response yet stay pending. A response of 0 without a response hash
+   * cannot be told apart from no response and is treated as pending.
+   */
+  async adjudicateClaim(claimId: string): Promise<InsuranceClaim> {
+    const claim = this.getClaim(claimId);
+    if (claim.status === 'approved') {
+      // Approved but unpaid (e.g. the payout failed); retry the payout
+      return this.payout(claim);
+    }
+    if (claim.status !== 'pending') {
+      return claim;
+    }
+
+    const status = await this.chaosAgent.getValidationStatus(claim.claim_hash);
+    if (claim.status !== 'pending') {
+      // Settled by a concurrent call while the status was being read
+      return claim.status === 'approved' ? this.payout(claim) : claim;
+    }
+    const responded = status.response > 0 || status.responseHash !== ethers.ZeroHash;
+    if (!responded) {
+      return claim;
+    }
+    if (status.validatorAddress.toLowerCase() !== claim.validator_address.toLowerCase()) {
+      throw new ValidationError(`Claim ${claimId} was answered by an unexpected validator`, {
+        expected: claim.validator_address,
+        actual: status.validatorAddress,
+      });
+    }
+
+    claim.validator_response = status.response;
+    claim.adjudicated_at = new Date().toISOString();
+    const settled = this.findSettledClaim(this.getPolicy(claim.policy_id), claim);
+    if (settled) {
+      // Another claim already took the coverage; a policy pays out once
+      claim.status = 'rejected';
+      this.save();
+      console.log(`❌ Insurance claim ${claimId} rejected (coverage paid to ${settled.claim_id})`);
+      return claim;
+    }
+    if (status.response < this.approvalThreshold) {
+      claim.status = 'rejected';
+      this.save();
+      console.log(`❌ Insurance claim ${claimId} rejected (response ${status.response})`);
+      return claim;
+    }
+
+    claim.status = 'approved';
+    this.save();
+    console.log(`✅ Insurance claim ${claimId} approved (response ${status.response})`);
+    return this.payout(claim);
+  }
+
+  /**
+   * Adjudicate every pending or unpaid claim
+   */
+  async adjudicatePendingClaims(): Promise<InsuranceClaim[]> {
+    const open = this.getClaims().filter((c) => c.status === 'pending' || c.status === 'approved');
+    const settled: InsuranceClaim[] = [];
+    for (const claim of open) {
+      settled.push(await this.adjudicateClaim(claim.claim_id));
+    }
+    return settled;
+  }
+
+  /**
+   * Adjudicate claims as soon as their validator responds
+   */
+  watchValidationResponses(): void {
+    if (this.watching) return;
+    this.watching = true;
+
+    this.chaosAgent.onValidationResponse((_validator, _agentId, requestHash) => {
+      const claim = this.getClaims().find(
+        (c) => c.status === 'pending' && c.claim_hash.toLowerCase() === requestHash.toLowerCase()
+      );
+      if (claim) {
+        this.adjudicateClaim(claim.claim_id).catch((e) =>
+          console.warn(`⚠️  Failed to adjudicate insurance claim ${claim.claim_id}: ${e}`)
+        );
+      }
+    });
+  }
+
+  /**
+   * Two valid proofs contradict each other when they ran the same code on the
+   * same inputs and returned different results
+   */
+  private async checkContradiction(
+    proof: ProcessIntegrityProof | Record<string, unknown>,
+    other: ProcessIntegrityProof | Record<string, unknown>,
+    options?: ProofVerificationOptions
+  ): Promise<void> {
+    const result = await this.processIntegrity.verifyProof(other, options);
+    if (!result.valid) {
+      throw new ValidationError('Contradicting proof does not verify', {
+        failed_checks: result.checks.filter((check) => !check.passed),
+      });
+    }
+    if (
+      other.function_name !== proof.function_name ||
+      other.code_hash !== proof.code_hash ||
+      canonicalize(other.inputs) !== canonicalize(proof.inputs)
+    ) {
+      throw new ValidationError('Contradicting proof is not for the same code and inputs');
+    }
+    if (canonicalize(other.result ?? null) === canonicalize(proof.result ?? null)) {
+      throw new ValidationError('Proofs agree; no contradiction');
+    }
+  }
+
+  /**
+   * Approved or paid claim holding a policy's coverage, if any
+   */
+  private findSettledClaim(
+    policy: InsurancePolicy,
+    except?: InsuranceClaim
+  ): InsuranceClaim | undefined {
+    return this.getClaims(policy.policy_id).find(
+      (c) => c !== except && (c.status === 'approved' || c.status === 'paid')
+    );
+  }
+
+  /**
+   * Pay the policy coverage to the claim beneficiary, from escrow when the
+   * policy is escrowed. Concurrent calls for one claim share one payment.
+   */
+  private payout(claim: InsuranceClaim): Promise<InsuranceClaim> {
+    let inFlight = this.payouts.get(claim.claim_id);
+    if (!inFlight) {
+      inFlight = this.sendPayout(claim).finally(() => this.payouts.delete(claim.claim_id));
+      this.payouts.set(claim.claim_id, inFlight);
+    }
+    return inFlight;
+  }
+
+  private async sendPayout(claim: InsuranceClaim): Promise<InsuranceClaim> {
+    const policy = this.getPolicy(claim.policy_id);
+    if (claim.status === 'paid') {
+      return claim;
+    }
+    if (policy.status !== 'active' || this.findSettledClaim(policy, claim)) {
+      throw new ValidationError(`Policy ${policy.policy_id} coverage was already claimed`, {
+        claim_id: claim.claim_id,
+        policy_status: policy.status,
+      });
+    }
+    const manager = policy.escrow_address
+      ? this.config.escrow?.paymentManager
+      : this.config.paymentManager;
+
+    claim.payout = await this.pay(
+      manager,
+      claim.beneficiary,
+      policy.coverage_amount,
+      `Insurance payout for ${claim.claim_id}`
+    );
+    claim.status = 'paid';
+    policy.status = 'claimed';
+    this.save();
+
+    console.log(`💸 Insurance payout sent: ${policy.coverage_amount} USDC → ${claim.beneficiary}`);
+    return claim;
+  }
+
+  private async pay(
+    manager: X402PaymentManager | undefined,
+    recipient: string,
+    amount: number,
+    description: string
+  ): Promise<InsurancePayment> {
+    if (!manager) {
+      throw new PaymentError('No payment manager configured for process insurance', {
+        recipient,
+      });
+    }
+
+    const request = manager.createPaymentRequest(
+      this.config.agentName,
+      recipient,
+      amount,
+      'USDC',
+      description
+    );
+    const proof = await manager.executePayment(request, recipient);
+    if (proof.status !== 'confirmed') {
+      throw new PaymentError(`Insurance payment ${proof.payment_id} failed`, {
+        transaction_hash: proof.transaction_hash,
+      });
+    }
+    return {
+      payment_id: proof.payment_id,
+      transaction_hash: proof.transaction_hash,
+      to_address: recipient,
+      amount,
+      currency: 'USDC',
+    };
+  }
+
+  /**
+   * Load persisted policies and claims, rejecting policies whose signature
+   * does not verify
+   */
+  private load(): void {
+    const { storePath } = this.config;
+    if (!storePath || !existsSync(storePath)) return;
+
+    const data: InsuranceStoreData = JSON.parse(readFileSync(storePath, 'utf8'));
+    for (const policy of data.policies) {
+      if (!verifyInsurancePolicy(policy)) {
+        throw new ValidationError('Stored insurance policy has an invalid signature', {
+          policy_id: policy.policy_id,
+          storePath,
+        });
+      }
+      this.policies.set(policy.policy_id, policy);
+    }
+    for (const claim of data.claims) {
+      this.claims.set(claim.claim_id, claim);
+    }
+  }
+
+  private save(): void {
+    const { storePath } = this.config;
+    if (!storePath) return;
+
+    const data: InsuranceStoreData = {
+      version: 1,
+      policies: [...this.policies.values()],
+      claims: [...this.claims.values()],
+    };
+    // Write then rename so a crash never leaves a truncated store
+    const tmp = `${storePath}.tmp`;
+    writeFileSync(tmp, JSON.stringify(data, null, 2));
+    renameSync(tmp, storePath);
+  }
+}
@@ -12,8 +12,26 @@
  */
 
 import { createHash } from 'crypto';
-import { IntegrityProof } from './types';
+import { ethers } from 'ethers';
 import { IntegrityVerificationError } from './exceptions';
+import { canonicalHash, canonicalize } from './utils/canonical';
+import { IntegrityProofBatcher, ProofBatchInclusion } from './ProofBatcher';
+import { TeeAttestationVerifier } from './attestation';
+import { ComputeJobProvider } from './types';
+import {
+  ExecutionContext,
+  ExecutionTrace,
+  ExecutionTraceOptions,
+  ExecutionTraceRecorder,
+  ExecutionTraceReplayer,
+  computeTraceHash
+} from './ExecutionTrace';
+import {
+  CodeProvenanceManifest,
+  CodeProvenanceOptions,
+  buildProvenanceManifest,
+  verifyProvenanceManifest
+} from './CodeProvenance';
 
 export interface StorageProvider {
   uploadJson(data: any, filename: string): Promise<string>;
@@ -31,18 +49,174 @@ export interface TEEAttestation {
   timestamp: string;
 }
 
-export interface ComputeProvider {
-  submit(task: any): Promise<string>;
-  status(jobId: string): Promise<{ state: string; [key: string]: any }>;
-  result(jobId: string): Promise<{
-    success: boolean;
-    execution_hash: string;
-    verification_method: { value: string };
-    proof?: Buffer;
-    metadata?: any;
-    error?: string;
-  }>;
-  attestation(jobId: string): Promise<any>;
+/**
+ * Job-based compute provider (kept under its original name for compatibility)
+ */
+export type ComputeProvider = ComputeJobProvider;
+
+export interface ProcessIntegrityProof {
+  proof_id: string;
+  function_name: string;
+  code_hash: string;
+  execution_hash: string;
+  inputs: Record<string, unknown>;
+  result: unknown;
+  start_time: Date;
+  timestamp: Date;
+  agent_name: string;
+  verification_status: string;
+  ipfs_cid?: string;
+  tee_attestation?: TEEAttestation;
+  tee_provider?: string;
+  tee_job_id?: string;
+  tee_execution_hash?: string;
+  // EIP-712 signature fields (present when the verifier has a signer configured)
+  agent_address?: string;
+  agent_id?: string;
+  chain_id?: number;
+  signature?: string;
+  // Merkle inclusion record (set once the proof's batch is anchored)
+  batch?: ProofBatchInclusion;
+  // Recorded I/O (present when execution tracing is enabled)
+  execution_trace?: ExecutionTrace;
+  // SLSA provenance of the code hash (present for functions registered with provenance)
+  code_provenance?: CodeProvenanceManifest;
+}
+
+export interface RegisterFunctionOptions {
+  /**
+   * Derive the code hash from the function's module graph, lockfile and git
+   * commit instead of its source text
+   */
+  provenance?: CodeProvenanceOptions;
+  /**
+   * The function takes positional arguments instead of a single inputs
+   * object; proofs record them as `inputs.args`
+   */
+  positional?: boolean;
+}
+
+export interface ProofEvent {
+  function_name: string;
+  result: unknown;
+  proof: ProcessIntegrityProof;
+}
+
+export interface ProofVerificationCheck {
+  check: string;
+  passed: boolean;
+  message: string;
+}
+
+export interface ProofVerificationResult {
+  valid: boolean;
+  proof_id: string;
+  checks: ProofVerificationCheck[];
+  verified_at: string;
+}
+
+export interface ProofVerificationOptions {
+  /** Fail verification when the proof carries no EIP-712 signature */
+  requireSignature?: boolean;
+  /** Resolve the owner of an ERC-8004 identity NFT (e.g. IdentityRegistry.ownerOf) */
+  ownerOf?: (agentId: bigint) => Promise<string>;
+  /** Verify the embedded TEE attestation document (defaults to the verifier's own) */
+  attestationVerifier?: TeeAttestationVerifier;
+  /** Re-run traced proofs against their recorded I/O */
+  replay?: boolean;
+}
+
+export interface ProofReplayResult {
+  matches: boolean;
+  proof_id: string;
+  execution_hash: string | null;
+  result?: unknown;
+  error?: string;
+}
+
+/**
+ * EIP-712 typed data definition for process integrity proofs.
+ *
+ * The signature binds the proof ID, code hash, execution hash, agent wallet,
+ * claimed ERC-8004 agent ID and chain ID so a proof cannot be fabricated or
+ * re-attributed to another agent.
+ */
+export const INTEGRITY_PROOF_EIP712_TYPES: Record<string, ethers.TypedDataField[]> = {
+  IntegrityProof: [
+    { name: 'proofId', type: 'string' },
+    { name: 'codeHash', type: 'bytes32' },
+    { name: 'executionHash', type: 'bytes32' },
+    { name: 'agent', type: 'address' },
+    { name: 'agentId', type: 'uint256' },
+    { name: 'chainId', type: 'uint256' }
+  ]
+};
+
+/**
+ * EIP-712 domain for process integrity proofs on a given chain.
+ */
+export function getIntegrityProofDomain(chainId: number | bigint): ethers.TypedDataDomain {
+  return {
+    name: 'ChaosChain Process Integrity',
+    version: '1',
+    chainId
+  };
+}
+
+/**
+ * Build the EIP-712 message for a proof. Requires the signature fields to be set.
+ */
+export function getIntegrityProofTypedData(
+  proof: Pick<
+    ProcessIntegrityProof,
+    'proof_id' | 'code_hash' | 'execution_hash' | 'agent_address' | 'agent_id' | 'chain_id'
+  >
+): Record<string, unknown> {
+  if (!proof.agent_address || proof.chain_id === undefined) {
+    throw new IntegrityVerificationError('Proof is missing agent_address or chain_id', {
+      proof_id: proof.proof_id
+    });
+  }
+
+  return {
+    proofId: proof.proof_id,
+    codeHash: toBytes32(proof.code_hash),
+    executionHash: toBytes32(proof.execution_hash),
+    agent: proof.agent_address,
+    agentId: BigInt(proof.agent_id ?? 0),
+    chainId: BigInt(proof.chain_id)
+  };
+}
+
+/**
+ * Recover the wallet that signed a proof. Runs fully offline.
+ */
+export function recoverIntegrityProofSigner(
+  proof: Pick<
+    ProcessIntegrityProof,
+    | 'proof_id'
+    | 'code_hash'
+    | 'execution_hash'
+    | 'agent_address'
+    | 'agent_id'
+    | 'chain_id'
+    | 'signature'
+  >
+): string {
+  if (!proof.signature) {
+    throw new IntegrityVerificationError('Proof is not signed', { proof_id: proof.proof_id });
+  }
+
+  return ethers.verifyTypedData(
+    getIntegrityProofDomain(proof.chain_id!),
+    INTEGRITY_PROOF_EIP712_TYPES,
+    getIntegrityProofTypedData(proof),
+    proof.signature
+  );
+}
+
+function toBytes32(hash: string): string {
+  return hash.startsWith('0x') ? hash : `0x${hash}`;
 }
 
 /**
@@ -63,6 +237,15 @@ export class ProcessIntegrity {
   private computeProvider: ComputeProvider | null;
   private registeredFunctions: Map<string, Function>;
   private functionHashes: Map<string, string>;
+  private provenanceManifests: Map<string, CodeProvenanceManifest> = new Map();
+  private positionalFunctions: Set<string> = new Set();
+  private proofListeners: Set<(event: ProofEvent) => void> = new Set();
+  private signer: ethers.Signer | null = null;
+  private chainId: number | null = null;
+  private agentId: bigint | null = null;
+  private proofBatcher: IntegrityProofBatcher | null = null;
+  private attestationVerifier: TeeAttestationVerifier | null = null;
+  private traceOptions: ExecutionTraceOptions | null = null;
 
   constructor(
     agentName: string,
@@ -81,18 +264,77 @@ export class ProcessIntegrity {
     );
   }
 
+  /**
+   * Sign generated proofs as EIP-712 typed data with the agent's wallet.
+   */
+  configureSigning(signer: ethers.Signer, chainId: number, agentId?: bigint): void {
+    this.signer = signer;
+    this.chainId = chainId;
+    if (agentId !== undefined) {
+      this.agentId = agentId;
+    }
+  }
+
+  /**
+   * Set the ERC-8004 agent ID that signed proofs are attributed to.
+   */
+  setAgentId(agentId: bigint): void {
+    this.agentId = agentId;
+  }
+
+  /**
+   * Queue every generated proof for Merkle-batched anchoring.
+   */
+  setProofBatcher(batcher: IntegrityProofBatcher | null): void {
+    this.proofBatcher = batcher;
+  }
+
+  /**
+   * Verify TEE attestation documents offline against pinned roots, both when
+   * they are received from the compute provider and during proof verification.
+   */
+  setAttestationVerifier(verifier: TeeAttestationVerifier | null): void {
+    this.attestationVerifier = verifier;
+  }
+
+  /**
+   * Record an execution trace for every proof. Registered functions then
+   * receive an ExecutionContext as their second argument and must route
+   * network calls, clock reads, randomness and nested calls through it.
+   */
+  setExecutionTracing(options: ExecutionTraceOptions | null): void {
+    this.traceOptions = options;
+  }
+
   /**
    * Register a function for integrity checking.
    */
-  registerFunction(func: Function, functionName?: string): string {
+  registerFunction(
+    func: Function,
+    functionName?: string,
+    options: RegisterFunctionOptions = {}
+  ): string {
     const name = functionName || func.name;
 
-    // Generate code hash
-    const codeHash = this.generateCodeHash(func);
+    // Generate code hash (from the provenance manifest in provenance mode)
+    let codeHash: string;
+    if (options.provenance) {
+      const manifest = buildProvenanceManifest(name, func.toString(), options.provenance);
+      codeHash = manifest.subject[0].digest.sha256;
+      this.provenanceManifests.set(name, manifest);
+    } else {
+      codeHash = this.generateCodeHash(func);
+      this.provenanceManifests.delete(name);
+    }
 
     // Store function and hash
     this.registeredFunctions.set(name, func);
     this.functionHashes.set(name, codeHash);
+    if (options.positional) {
+      this.positionalFunctions.add(name);
+    } else {
+      this.positionalFunctions.delete(name);
+    }
 
     console.log(`📝 Registered integrity-checked function: ${name}`);
     console.log(`   Code hash: ${codeHash.slice(0, 16)}...`);
@@ -100,15 +342,80 @@ export class ProcessIntegrity {
     return codeHash;
   }
 
+  /**
+   * Code hash of a registered function.
+   */
+  getCodeHash(functionName: string): string | undefined {
+    return this.functionHashes.get(functionName);
+  }
+
+  /**
+   * Check whether a function is registered under the given name.
+   */
+  isRegistered(functionName: string): boolean {
+    return this.registeredFunctions.has(functionName);
+  }
+
+  /**
+   * Listen for every proof generated by this verifier. Returns a function that
+   * removes the listener.
+   */
+  onProof(callback: (event: ProofEvent) => void): () => void {
+    this.proofListeners.add(callback);
+    return () => {
+      this.proofListeners.delete(callback);
+    };
+  }
+
+  /**
+   * Provenance manifest of a function registered in provenance mode.
+   */
+  getProvenanceManifest(functionName: string): CodeProvenanceManifest | undefined {
+    return this.provenanceManifests.get(functionName);
+  }
+
   /**
    * Execute a registered function with integrity proof generation.
    */
   async executeWithProof(
     functionName: string,
-    inputs: Record<string, any>,
+    inputs: Record<string, unknown>,
     requireProof: boolean = true,
     useTee: boolean = true
-  ): Promise<[any, IntegrityProof | null]> {
+  ): Promise<[any, ProcessIntegrityProof | null]> {
+    return this.execute(functionName, inputs, requireProof, useTee, undefined);
+  }
+
+  /**
+   * Execute a function registered with `positional: true`, binding `this`.
+   */
+  async executeWithArgs(
+    functionName: string,
+    args: unknown[],
+    options: { thisArg?: unknown; useTee?: boolean } = {}
+  ): Promise<[unknown, ProcessIntegrityProof]> {
+    if (this.registeredFunctions.has(functionName) && !this.positionalFunctions.has(functionName)) {
+      throw new IntegrityVerificationError(
+        `Function ${functionName} was not registered with positional arguments`
+      );
+    }
+    const [result, proof] = await this.execute(
+      functionName,
+      { args },
+      true,
+      options.useTee ?? true,
+      options.thisArg
+    );
+    return [result, proof!];
+  }
+
+  private async execute(
+    functionName: string,
+    inputs: Record<string, unknown>,
+    requireProof: boolean,
+    useTee: boolean,
+    thisArg: unknown
+  ): Promise<[unknown, ProcessIntegrityProof | null]> {
     if (!this.registeredFunctions.has(functionName)) {
       const available = Array.from(this.registeredFunctions.keys());
       throw new IntegrityVerificationError(`Function not registered: ${functionName}`, {
@@ -116,7 +423,6 @@ export class ProcessIntegrity {
       });
     }
 
-    const func = this.registeredFunctions.get(functionName)!;
     const codeHash = this.functionHashes.get(functionName)!;
 
     const executionMode = useTee && this.computeProvider ? 'local + TEE' : 'local';
@@ -127,8 +433,16 @@ export class ProcessIntegrity {
     let teeAttestation: TEEAttestation | null = null;
 
     try {
-      // Execute the function
-      const result = await func(inputs);
+      // Execute the function, recording its I/O when tracing is enabled
+      let result: unknown;
+      let trace: ExecutionTrace | null = null;
+      if (this.traceOptions) {
+        const recorder = new ExecutionTraceRecorder(this.runNested, this.traceOptions);
+        result = await this.invoke(functionName, inputs, recorder, thisArg);
+        trace = recorder.getTrace();
+      } else {
+        result = await this.invoke(functionName, inputs, null, thisArg);
+      }
       const executionTime = new Date();
 
       // Optionally get TEE attestation
@@ -152,14 +466,36 @@ export class ProcessIntegrity {
         result,
         startTime,
         executionTime,
-        teeAttestation
+        teeAttestation,
+        trace
       );
 
+      if (this.signer) {
+        await this.signProof(proof);
+      }
+
       // Store proof on IPFS if storage manager available
       if (this.storageManager) {
         await this.storeProofOnIpfs(proof);
       }
 
+      // Queue for batch anchoring; a failed anchor keeps the proof pending
+      if (this.proofBatcher) {
+        try {
+          await this.proofBatcher.add(proof);
+        } catch (e) {
+          console.warn(`⚠️  Proof batch anchoring failed (will retry on next flush): ${e}`);
+        }
+      }
+
+      this.proofListeners.forEach((listener) => {
+        try {
+          listener({ function_name: functionName, result, proof });
+        } catch (e) {
+          console.warn(`⚠️  Proof listener failed: ${e}`);
+        }
+      });
+
       return [result, proof];
     } catch (e) {
       throw new IntegrityVerificationError(`Function execution failed: ${e}`, {
@@ -169,6 +505,40 @@ export class ProcessIntegrity {
     }
   }
 
+  /**
+   * Run a nested registered function with the caller's execution context.
+   */
+  private runNested = async (
+    functionName: string,
+    inputs: Record<string, unknown>,
+    ctx: ExecutionContext
+  ): Promise<unknown> => {
+    if (!this.registeredFunctions.has(functionName)) {
+      throw new IntegrityVerificationError(`Nested function not registered: ${functionName}`);
+    }
+    return this.invoke(functionName, inputs, ctx, undefined);
+  };
+
+  /**
+   * Call a registered function with its inputs (spread for positional
+   * functions) and, when tracing, the execution context as the last argument.
+   */
+  private invoke(
+    functionName: string,
+    inputs: Record<string, unknown>,
+    ctx: ExecutionContext | null,
+    thisArg: unknown
+  ): unknown {
+    const func = this.registeredFunctions.get(functionName)!;
+    const args: unknown[] = this.positionalFunctions.has(functionName)
+      ? [...(inputs.args as unknown[])]
+      : [inputs];
+    if (ctx) {
+      args.push(ctx);
+    }
+    return func.apply(thisArg, args);
+  }
+
   /**
    * Generate a hash of the function's code.
    */
@@ -232,9 +602,9 @@ export class ProcessIntegrity {
             console.log(`   Verification: ${computeResult.verification_method.value}`);
 
             // Match actual 0G Compute response structure
-            return {
+            const teeAttestation: TEEAttestation = {
               job_id: jobId,
-              provider: '0g-compute',
+              provider: this.computeProvider.name ?? '0g-compute',
               execution_hash: computeResult.execution_hash, // TEE execution ID
               verification_method: computeResult.verification_method.value,
               model: taskData.model,
@@ -243,6 +613,17 @@ export class ProcessIntegrity {
               metadata: computeResult.metadata,
               timestamp: new Date().toISOString()
             };
+
+            if (this.attestationVerifier) {
+              const verdict = this.attestationVerifier.verify(teeAttestation);
+              if (verdict.valid) {
+                console.log(`   Attestation document verified (${verdict.platform})`);
+              } else {
+                console.warn(`⚠️  TEE attestation document did not verify offline`);
+              }
+            }
+
+            return teeAttestation;
           } else {
             console.warn(`⚠️  Compute result failed: ${computeResult.error}`);
             return null;
@@ -273,31 +654,32 @@ export class ProcessIntegrity {
     result: any,
     startTime: Date,
     executionTime: Date,
-    teeAttestation: TEEAttestation | null
-  ): IntegrityProof {
+    teeAttestation: TEEAttestation | null,
+    trace: ExecutionTrace | null = null
+  ): ProcessIntegrityProof {
     const proofId = `proof_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
+    const serializedResult = this.serializeResult(result);
 
-    // Create execution hash
-    const executionData = {
-      function_name: functionName,
-      code_hash: codeHash,
+    const executionHash = this.computeExecutionHash(
+      functionName,
+      codeHash,
       inputs,
-      result: this.serializeResult(result),
-      start_time: startTime.toISOString(),
-      execution_time: executionTime.toISOString(),
-      agent_name: this.agentName
-    };
-
-    const executionHash = createHash('sha256')
-      .update(JSON.stringify(executionData))
-      .digest('hex');
+      serializedResult,
+      startTime.toISOString(),
+      executionTime.toISOString(),
+      this.agentName,
+      trace?.trace_hash
+    );
 
     // Build proof with optional TEE data
-    const proof: IntegrityProof = {
+    const proof: ProcessIntegrityProof = {
       proof_id: proofId,
       function_name: functionName,
       code_hash: codeHash,
       execution_hash: executionHash,
+      inputs,
+      result: serializedResult,
+      start_time: startTime,
       timestamp: executionTime,
       agent_name: this.agentName,
       verification_status: 'verified',
@@ -306,7 +688,9 @@ export class ProcessIntegrity {
       tee_attestation: teeAttestation || undefined,
       tee_provider: teeAttestation?.provider,
       tee_job_id: teeAttestation?.job_id,
-      tee_execution_hash: teeAttestation?.execution_hash
+      tee_execution_hash: teeAttestation?.execution_hash,
+      execution_trace: trace || undefined,
+      code_provenance: this.provenanceManifests.get(functionName)
     };
 
     const verificationLevel = teeAttestation ? 'local + TEE' : 'local';
@@ -315,10 +699,371 @@ export class ProcessIntegrity {
     return proof;
   }
 
+  /**
+   * Attach an EIP-712 signature from the configured signer to the proof.
+   */
+  private async signProof(proof: ProcessIntegrityProof): Promise<void> {
+    const signer = this.signer!;
+    proof.agent_address = await signer.getAddress();
+    proof.agent_id = (this.agentId ?? 0n).toString();
+    proof.chain_id = this.chainId!;
+
+    proof.signature = await signer.signTypedData(
+      getIntegrityProofDomain(proof.chain_id),
+      INTEGRITY_PROOF_EIP712_TYPES,
+      getIntegrityProofTypedData(proof)
+    );
+
+    console.log(`✍️  Proof signed by ${proof.agent_address} (EIP-712)`);
+  }
+
+  /**
+   * Hash the execution record exactly as it was committed to in the proof.
+   */
+  private computeExecutionHash(
+    functionName: string,
+    codeHash: string,
+    inputs: Record<string, unknown>,
+    serializedResult: unknown,
+    startTime: string,
+    executionTime: string,
+    agentName: string,
+    traceHash?: string
+  ): string {
+    const executionData: Record<string, unknown> = {
+      function_name: functionName,
+      code_hash: codeHash,
+      inputs,
+      result: serializedResult,
+      start_time: startTime,
+      execution_time: executionTime,
+      agent_name: agentName
+    };
+    // Only traced executions commit to a trace, so untraced hashes are unchanged
+    if (traceHash !== undefined) {
+      executionData.trace_hash = traceHash;
+    }
+
+    return canonicalHash(executionData);
+  }
+
+  /**
+   * Verify an integrity proof produced by this (or another) verifier.
+   *
+   * Recomputes the execution hash from the recorded execution data, checks the
+   * code hash against the locally registered function and cross-checks the TEE
+   * fields against the embedded attestation. Signed proofs additionally have
+   * their EIP-712 signer recovered and, when `ownerOf` is supplied, matched
+   * against the owner of the claimed ERC-8004 identity. Accepts proofs as
+   * returned by executeWithProof or as parsed back from JSON storage.
+   */
+  async verifyProof(
+    input: ProcessIntegrityProof | Record<string, unknown>,
+    options: ProofVerificationOptions = {}
+  ): Promise<ProofVerificationResult> {
+    // Parsed proofs carry ISO strings for the dates, which toIsoString accepts
+    const proof = input as ProcessIntegrityProof;
+    const checks: ProofVerificationCheck[] = [];
+    const record = (check: string, passed: boolean, message: string) => {
+      checks.push({ check, passed, message });
+    };
+
+    const required = [
+      'proof_id',
+      'function_name',
+      'code_hash',
+      'execution_hash',
+      'inputs',
+      'start_time',
+      'timestamp',
+      'agent_name'
+    ];
+    const fields = input as Record<string, unknown>;
+    const missing = required.filter(
+      (field) => fields[field] === undefined || fields[field] === null
+    );
+    if (missing.length > 0) {
+      record('structure', false, `Proof is missing required fields: ${missing.join(', ')}`);
+      return this.buildVerificationResult(proof.proof_id, checks);
+    }
+    record('structure', true, 'All required proof fields present');
+
+    // Layer 1: code hash must match the function registered under that name
+    const registeredHash = this.functionHashes.get(proof.function_name);
+    if (!registeredHash) {
+      record(
+        'code_hash',
+        false,
+        `Function not registered with this verifier: ${proof.function_name}`
+      );
+    } else if (registeredHash !== proof.code_hash) {
+      record(
+        'code_hash',
+        false,
+        `Code hash mismatch: expected ${registeredHash}, got ${proof.code_hash}`
+      );
+    } else {
+      record('code_hash', true, 'Code hash matches registered function');
+    }
+
+    // Layer 1: execution hash must be reproducible from the recorded data
+    let recomputedHash: string | null = null;
+    try {
+      recomputedHash = this.computeExecutionHash(
+        proof.function_name,
+        proof.code_hash,
+        proof.inputs,
+        this.serializeResult(proof.result),
+        this.toIsoString(proof.start_time),
+        this.toIsoString(proof.timestamp),
+        proof.agent_name,
+        proof.execution_trace?.trace_hash
+      );
+    } catch (e) {
+      record('execution_hash', false, `Could not recompute execution hash: ${e}`);
+    }
+    if (recomputedHash !== null) {
+      if (recomputedHash === proof.execution_hash) {
+        record('execution_hash', true, 'Execution hash matches recorded execution data');
+      } else {
+        record(
+          'execution_hash',
+          false,
+          `Execution hash mismatch: recomputed ${recomputedHash}, ` +
+            `proof claims ${proof.execution_hash}`
+        );
+      }
+    }
+
+    // Layer 1: a provenance manifest must describe the claimed code hash
+    if (proof.code_provenance) {
+      const consistent = verifyProvenanceManifest(proof.code_provenance, proof.code_hash);
+      record(
+        'code_provenance',
+        consistent,
+        consistent
+          ? 'Code hash matches its provenance manifest'
+          : 'Provenance manifest does not describe the proof code hash'
+      );
+    }
+
+    // Layer 1: the trace hash committed to must match the recorded events
+    const trace = proof.execution_trace as ExecutionTrace | undefined;
+    if (trace) {
+      const traceHash = computeTraceHash(trace.events ?? []);
+      if (traceHash === trace.trace_hash) {
+        record('execution_trace', true, `Trace of ${trace.events.length} events matches its hash`);
+      } else {
+        record('execution_trace', false, 'Execution trace does not match its trace hash');
+      }
+
+      if (options.replay) {
+        const replay = await this.replayProof(proof);
+        record(
+          'replay',
+          replay.matches,
+          replay.matches
+            ? 'Replay against recorded I/O reproduced the execution hash'
+            : `Replay failed: ${replay.error}`
+        );
+      }
+    } else if (options.replay) {
+      record('replay', false, 'Proof has no execution trace to replay');
+    }
+
+    // Layer 2: TEE fields must agree with the attestation they were taken from
+    const attestation = proof.tee_attestation as TEEAttestation | undefined;
+    const hasTeeFields = !!(proof.tee_provider || proof.tee_job_id || proof.tee_execution_hash);
+    if (attestation) {
+      const mismatches: string[] = [];
+      if (proof.tee_provider !== attestation.provider) mismatches.push('tee_provider');
+      if (proof.tee_job_id !== attestation.job_id) mismatches.push('tee_job_id');
+      if (proof.tee_execution_hash !== attestation.execution_hash) {
+        mismatches.push('tee_execution_hash');
+      }
+
+      if (mismatches.length > 0) {
+        record(
+          'tee_attestation',
+          false,
+          `TEE fields do not match attestation: ${mismatches.join(', ')}`
+        );
+      } else {
+        record(
+          'tee_attestation',
+          true,
+          `TEE fields match ${attestation.provider} attestation ${attestation.job_id}`
+        );
+      }
+    } else if (hasTeeFields) {
+      record('tee_attestation', false, 'Proof carries TEE fields but no TEE attestation');
+    }
+
+    // Layer 2: the attestation document itself, against pinned roots
+    const attestationVerifier = options.attestationVerifier ?? this.attestationVerifier;
+    if (attestation && attestationVerifier) {
+      const verdict = attestationVerifier.verify(attestation);
+      const failed = verdict.checks.filter((c) => !c.passed);
+      record(
+        'tee_attestation_document',
+        verdict.valid,
+        verdict.valid
+          ? `${verdict.platform} attestation document verified`
+          : `Attestation document rejected: ${failed.map((c) => c.message).join('; ')}`
+      );
+    }
+
+    // Layer 3: EIP-712 signature and identity ownership
+    if (proof.signature) {
+      let signer: string | null = null;
+      try {
+        signer = recoverIntegrityProofSigner(proof);
+      } catch (e) {
+        record('signature', false, `Could not recover proof signer: ${e}`);
+      }
+
+      if (signer !== null) {
+        if (signer.toLowerCase() === String(proof.agent_address).toLowerCase()) {
+          record('signature', true, `Proof signed by agent wallet ${signer}`);
+        } else {
+          record(
+            'signature',
+            false,
+            `Signer ${signer} does not match agent ${proof.agent_address}`
+          );
+        }
+
+        if (options.ownerOf) {
+          await this.checkAgentOwnership(proof, signer, options.ownerOf, record);
+        }
+      }
+    } else if (options.requireSignature) {
+      record('signature', false, 'Proof is not signed');
+    }
+
+    return this.buildVerificationResult(proof.proof_id, checks);
+  }
+
+  /**
+   * Re-run a traced proof's function against its recorded I/O.
+   *
+   * Every fetch, clock read, random draw and nested call is answered from the
+   * trace in order; the replay fails on the first request that differs from the
+   * recording, when events are left unconsumed, or when the recomputed
+   * execution hash differs from the proof's.
+   */
+  async replayProof(
+    input: ProcessIntegrityProof | Record<string, unknown>
+  ): Promise<ProofReplayResult> {
+    const proof = input as ProcessIntegrityProof;
+    const trace = proof.execution_trace;
+    const registered = this.registeredFunctions.has(proof.function_name);
+    const fail = (error: string): ProofReplayResult => ({
+      matches: false,
+      proof_id: proof.proof_id,
+      execution_hash: null,
+      error
+    });
+
+    if (!trace) {
+      return fail('Proof has no execution trace');
+    }
+    if (!registered) {
+      return fail(`Function not registered with this verifier: ${proof.function_name}`);
+    }
+    if (this.functionHashes.get(proof.function_name) !== proof.code_hash) {
+      return fail('Registered function code differs from the proof');
+    }
+
+    try {
+      const replayer = new ExecutionTraceReplayer(trace, this.runNested, this.traceOptions ?? {});
+      const result = await this.invoke(proof.function_name, proof.inputs, replayer, undefined);
+      replayer.assertComplete();
+
+      const executionHash = this.computeExecutionHash(
+        proof.function_name,
+        proof.code_hash,
+        proof.inputs,
+        this.serializeResult(result),
+        this.toIsoString(proof.start_time),
+        this.toIsoString(proof.timestamp),
+        proof.agent_name,
+        computeTraceHash(trace.events)
+      );
+
+      return {
+        matches: executionHash === proof.execution_hash,
+        proof_id: proof.proof_id,
+        execution_hash: executionHash,
+        result,
+        error:
+          executionHash === proof.execution_hash
+            ? undefined
+            : 'Replayed execution hash differs from the proof'
+      };
+    } catch (e) {
+      return fail(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  private async checkAgentOwnership(
+    proof: ProcessIntegrityProof,
+    signer: string,
+    ownerOf: (agentId: bigint) => Promise<string>,
+    record: (check: string, passed: boolean, message: string) => void
+  ): Promise<void> {
+    if (!proof.agent_id || BigInt(proof.agent_id) === 0n) {
+      record('agent_ownership', false, 'Proof does not claim an ERC-8004 agent ID');
+      return;
+    }
+
+    try {
+      const owner = await ownerOf(BigInt(proof.agent_id));
+      if (owner.toLowerCase() === signer.toLowerCase()) {
+        record('agent_ownership', true, `Signer owns agent #${proof.agent_id}`);
+      } else {
+        record(
+          'agent_ownership',
+          false,
+          `Agent #${proof.agent_id} is owned by ${owner}, not signer ${signer}`
+        );
+      }
+    } catch (e) {
+      record('agent_ownership', false, `Could not resolve owner of agent #${proof.agent_id}: ${e}`);
+    }
+  }
+
+  private buildVerificationResult(
+    proofId: string,
+    checks: ProofVerificationCheck[]
+  ): ProofVerificationResult {
+    const valid = checks.every((c) => c.passed);
+    const failed = checks.filter((c) => !c.passed).map((c) => c.check);
+
+    if (valid) {
+      console.log(`✅ Process integrity proof verified: ${proofId}`);
+    } else {
+      console.warn(
+        `❌ Process integrity proof failed verification: ${proofId} (${failed.join(', ')})`
+      );
+    }
+
+    return {
+      valid,
+      proof_id: proofId,
+      checks,
+      verified_at: new Date().toISOString()
+    };
+  }
+
+  private toIsoString(value: Date | string): string {
+    return value instanceof Date ? value.toISOString() : new Date(value).toISOString();
+  }
+
   /**
    * Store integrity proof on IPFS for persistence.
    */
-  private async storeProofOnIpfs(proof: IntegrityProof): Promise<void> {
+  private async storeProofOnIpfs(proof: ProcessIntegrityProof): Promise<void> {
     if (!this.storageManager) return;
 
     try {
@@ -329,6 +1074,9 @@ export class ProcessIntegrity {
           function_name: proof.function_name,
           code_hash: proof.code_hash,
           execution_hash: proof.execution_hash,
+          inputs: proof.inputs,
+          result: proof.result,
+          start_time: proof.start_time.toISOString(),
           timestamp: proof.timestamp.toISOString(),
           agent_name: proof.agent_name,
           verification_status: proof.verification_status,
@@ -336,11 +1084,23 @@ export class ProcessIntegrity {
           tee_attestation: proof.tee_attestation,
           tee_provider: proof.tee_provider,
           tee_job_id: proof.tee_job_id,
-          tee_execution_hash: proof.tee_execution_hash
+          tee_execution_hash: proof.tee_execution_hash,
+          // Recorded I/O (if traced)
+          execution_trace: proof.execution_trace,
+          // SLSA provenance manifest (if registered with provenance)
+          code_provenance: proof.code_provenance,
+          // EIP-712 signature (if signed)
+          agent_address: proof.agent_address,
+          agent_id: proof.agent_id,
+          chain_id: proof.chain_id,
+          signature: proof.signature
         },
         verification_layers: {
           local_code_hash: true,
-          tee_attestation: !!proof.tee_attestation
+          tee_attestation: !!proof.tee_attestation,
+          execution_trace: !!proof.execution_trace,
+          code_provenance: !!proof.code_provenance,
+          agent_signature: !!proof.signature
         },
         timestamp: new Date().toISOString(),
         agent_name: this.agentName
@@ -363,8 +1123,8 @@ export class ProcessIntegrity {
    */
   private serializeResult(result: any): any {
     try {
-      // Try direct JSON serialization
-      JSON.stringify(result);
+      // Try canonical JSON serialization (handles bigint, bytes and dates)
+      canonicalize(result);
       return result;
     } catch {
       // Fallback to string representation
@@ -374,6 +1134,9 @@ export class ProcessIntegrity {
 
   /**
    * Create a process insurance policy for a function.
+   *
+   * @deprecated Returns an unsigned, unpersisted policy. Use ProcessInsurance
+   * (ChaosChainSDK.enableProcessInsurance) for signed policies and claims.
    */
   createInsurancePolicy(
     functionName: string,
@@ -426,31 +1189,132 @@ export class ProcessIntegrity {
   }
 }
 
+export interface IntegrityCheckOptions {
+  /**
+   * Name the function is registered under (default: the function name, or
+   * `Class.method` for decorated methods)
+   */
+  name?: string;
+  /**
+   * How the proof is delivered: 'event' resolves to the plain result and
+   * delivers the proof to `onProof` listeners, 'result' resolves to
+   * `{ result, proof }` (default 'event')
+   */
+  proofDelivery?: 'result' | 'event';
+  /** Request a TEE attestation from the compute provider (default true) */
+  useTee?: boolean;
+  /** Registration options (e.g. provenance) */
+  registration?: Omit<RegisterFunctionOptions, 'positional'>;
+}
+
+export interface IntegrityCheckedResult<T> {
+  result: T;
+  proof: ProcessIntegrityProof;
+}
+
 /**
- * Decorator for automatically registering functions with integrity checking.
+ * Wrap a function so every call runs through `verifier` and produces an
+ * integrity proof. The function keeps its own arguments and return value;
+ * the proof records the arguments as `inputs.args`.
  */
-export function integrityCheckedFunction(verifier?: ProcessIntegrityVerifier) {
-  return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
-    const originalMethod = descriptor.value;
-
-    descriptor.value = async function (...args: any[]) {
-      if (verifier) {
-        // Register function if not already registered
-        if (!verifier['registeredFunctions'].has(propertyKey)) {
-          verifier.registerFunction(originalMethod, propertyKey);
-        }
+export function withIntegrityProof<A extends unknown[], R>(
+  verifier: ProcessIntegrity,
+  fn: (...args: A) => R,
+  options: IntegrityCheckOptions & { proofDelivery: 'result' }
+): (...args: A) => Promise<IntegrityCheckedResult<Awaited<R>>>;
+export function withIntegrityProof<A extends unknown[], R>(
+  verifier: ProcessIntegrity,
+  fn: (...args: A) => R,
+  options?: IntegrityCheckOptions & { proofDelivery?: 'event' }
+): (...args: A) => Promise<Awaited<R>>;
+export function withIntegrityProof<A extends unknown[], R>(
+  verifier: ProcessIntegrity,
+  fn: (...args: A) => R,
+  options: IntegrityCheckOptions = {}
+): (...args: A) => Promise<IntegrityCheckedResult<Awaited<R>> | Awaited<R>> {
+  const name = options.name || fn.name;
+  if (!name) {
+    throw new IntegrityVerificationError('Anonymous functions need an explicit name');
+  }
+  verifier.registerFunction(fn, name, { ...options.registration, positional: true });
 
-        // Execute with integrity proof
-        const inputs = { args };
-        const [result] = await verifier.executeWithProof(propertyKey, inputs, true);
-        return result;
-      } else {
-        // Execute without integrity checking
-        return await originalMethod.apply(this, args);
+  return async function (
+    this: unknown,
+    ...args: A
+  ): Promise<IntegrityCheckedResult<Awaited<R>> | Awaited<R>> {
+    const [value, proof] = await verifier.executeWithArgs(name, args, {
+      thisArg: this,
+      useTee: options.useTee
+    });
+    const result = value as Awaited<R>;
+    return options.proofDelivery === 'result' ? { result, proof } : result;
+  };
+}
+
+/**
+ * Standard (TC39) method decorator that registers the method with `verifier`
+ * as `Class.method` and generates a proof on every call. Instance methods
+ * are registered when the first instance is created, static methods when
+ * the class is defined.
+ *
+ * Decorators cannot change a method's declared type, so in 'result' mode
+ * callers must treat the return value as IntegrityCheckedResult; the default
+ * 'event' mode keeps the original return value.
+ *
+ * @example
+ * class Analyst {
+ *   @integrityCheckedFunction(verifier)
+ *   async analyze(symbol: string) { ... } // proof delivered to verifier.onProof
+ * }
+ */
+export function integrityCheckedFunction(
+  verifier: ProcessIntegrity,
+  options: IntegrityCheckOptions = {}
+) {
+  return function <This, A extends unknown[], R>(
+    method: (this: This, ...args: A) => R,
+    context: ClassMethodDecoratorContext<This, (this: This, ...args: A) => R>
+  ) {
+    if (context.private) {
+      throw new IntegrityVerificationError('Private methods cannot be integrity checked');
+    }
+    let name = options.name;
+    const register = (target: unknown): string => {
+      if (!name) {
+        name = `${methodOwner(target, context.name, decorated)}.${String(context.name)}`;
+      }
+      if (!verifier.isRegistered(name)) {
+        verifier.registerFunction(method, name, { ...options.registration, positional: true });
       }
+      return name;
     };
+    context.addInitializer(function (this: This) {
+      register(this);
+    });
 
-    return descriptor;
+    const decorated = async function (this: This, ...args: A): Promise<any> {
+      const [result, proof] = await verifier.executeWithArgs(register(this), args, {
+        thisArg: this,
+        useTee: options.useTee
+      });
+      return options.proofDelivery === 'result' ? { result, proof } : result;
+    };
+    return decorated;
   };
 }
 
+/**
+ * Name of the class declaring a decorated method: the class itself for
+ * static methods, otherwise the nearest prototype holding the method
+ */
+function methodOwner(target: unknown, key: string | symbol, method: unknown): string {
+  if (typeof target === 'function') {
+    return target.name;
+  }
+  let proto = Object.getPrototypeOf(target);
+  while (proto && Object.getOwnPropertyDescriptor(proto, key)?.value !== method) {
+    proto = Object.getPrototypeOf(proto);
+  }
+  return (proto ?? Object.getPrototypeOf(target)).constructor.name;
+}
+
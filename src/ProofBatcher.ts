@@ -0,0 +1,239 @@
+/**
+ * Merkle-batched anchoring of process integrity proofs.
+ *
+ * Anchoring every executeWithProof call on-chain is too expensive for agents
+ * running thousands of executions a day. The batcher collects proofs, builds a
+ * Merkle tree over them, uploads the leaf set to the storage backend and
+ * anchors the root through the ERC-8004 Validation Registry (the root is the
+ * `requestHash` of a validation request). Every proof receives an inclusion
+ * path so a third party can check that a single execution belongs to an
+ * anchored batch.
+ */
+
+import { ethers } from 'ethers';
+import { ChaosAgent } from './ChaosAgent';
+import { StorageBackend } from './StorageBackends';
+import { ProcessIntegrityProof } from './ProcessIntegrity';
+import { IntegrityVerificationError } from './exceptions';
+import { canonicalize, canonicalKeccak256 } from './utils/canonical';
+import { MerkleTree, verifyMerkleProof } from './utils/merkle';
+
+export interface ProofBatcherConfig {
+  /** Validator the batch root is submitted to */
+  validatorAddress: string;
+  /** ERC-8004 agent ID requesting validation */
+  agentId: bigint;
+  /** Flush automatically once this many proofs are pending (default 256) */
+  maxBatchSize?: number;
+  /** Flush pending proofs on an interval (disabled by default) */
+  flushIntervalMs?: number;
+}
+
+export interface ProofBatchInclusion {
+  batch_root: string;
+  leaf: string;
+  leaf_index: number;
+  merkle_path: string[];
+  batch_uri: string;
+  anchor_tx: string;
+}
+
+export interface AnchoredProofBatch {
+  root: string;
+  uri: string;
+  anchor_tx: string;
+  proof_ids: string[];
+  anchored_at: string;
+}
+
+/**
+ * Data committed to by a batch leaf. Dates are normalized to ISO strings so the
+ * leaf can be recomputed from a proof parsed back from JSON.
+ */
+export function getProofLeafData(input: ProcessIntegrityProof | Record<string, unknown>) {
+  const proof = input as ProcessIntegrityProof;
+  const toIso = (value: Date | string) =>
+    value instanceof Date ? value.toISOString() : new Date(value).toISOString();
+
+  return {
+    proof_id: proof.proof_id,
+    function_name: proof.function_name,
+    code_hash: proof.code_hash,
+    execution_hash: proof.execution_hash,
+    agent_name: proof.agent_name,
+    timestamp: toIso(proof.timestamp),
+    signature: proof.signature ?? null,
+  };
+}
+
+/**
+ * Merkle leaf (bytes32) for a proof
+ */
+export function computeProofLeaf(proof: ProcessIntegrityProof | Record<string, unknown>): string {
+  return canonicalKeccak256(getProofLeafData(proof));
+}
+
+/**
+ * Batches integrity proofs and anchors their Merkle root on-chain.
+ */
+export class IntegrityProofBatcher {
+  private chaosAgent: ChaosAgent;
+  private storage: StorageBackend;
+  private config: Required<Omit<ProofBatcherConfig, 'flushIntervalMs'>>;
+  private pending: ProcessIntegrityProof[] = [];
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(chaosAgent: ChaosAgent, storage: StorageBackend, config: ProofBatcherConfig) {
+    this.chaosAgent = chaosAgent;
+    this.storage = storage;
+    this.config = {
+      validatorAddress: config.validatorAddress,
+      agentId: config.agentId,
+      maxBatchSize: config.maxBatchSize ?? 256,
+    };
+
+    if (config.flushIntervalMs) {
+      this.flushTimer = setInterval(() => {
+        this.flush().catch((e) => console.warn(`⚠️  Scheduled proof batch flush failed: ${e}`));
+      }, config.flushIntervalMs);
+      this.flushTimer.unref();
+    }
+
+    console.log(`🌳 Integrity proof batcher initialized (max ${this.config.maxBatchSize} proofs)`);
+  }
+
+  /**
+   * Queue a proof for the next batch. Flushes when the batch is full.
+   */
+  async add(proof: ProcessIntegrityProof): Promise<void> {
+    this.pending.push(proof);
+    if (this.pending.length >= this.config.maxBatchSize) {
+      await this.flush();
+    }
+  }
+
+  /**
+   * Number of proofs waiting to be anchored
+   */
+  getPendingCount(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Anchor all pending proofs as one batch.
+   *
+   * Uploads the leaf set, submits the root as a validation request and attaches
+   * a `batch` inclusion record to every proof in the batch.
+   */
+  async flush(): Promise<AnchoredProofBatch | null> {
+    if (this.pending.length === 0) {
+      return null;
+    }
+
+    const proofs = this.pending;
+    this.pending = [];
+
+    try {
+      const leafData = proofs.map((proof) => getProofLeafData(proof));
+      const leaves = leafData.map((data) => canonicalKeccak256(data));
+      const tree = new MerkleTree(leaves);
+      const root = tree.getRoot();
+
+      const batchDocument = {
+        type: 'chaoschain_integrity_proof_batch_v1',
+        root,
+        leaf_encoding: 'keccak256(rfc8785(leaf_data))',
+        node_hashing: 'keccak256(sorted_pair)',
+        leaf_count: leaves.length,
+        leaves: leafData.map((data, index) => ({ ...data, leaf: leaves[index] })),
+        created_at: new Date().toISOString(),
+      };
+
+      const stored = await this.storage.put(
+        Buffer.from(canonicalize(batchDocument)),
+        'application/json'
+      );
+      const uri = stored.url || `ipfs://${stored.cid}`;
+
+      const anchorTx = await this.chaosAgent.requestValidation(
+        this.config.validatorAddress,
+        this.config.agentId,
+        uri,
+        root
+      );
+
+      proofs.forEach((proof, index) => {
+        proof.batch = {
+          batch_root: root,
+          leaf: leaves[index],
+          leaf_index: index,
+          merkle_path: tree.getProof(index),
+          batch_uri: uri,
+          anchor_tx: anchorTx,
+        };
+      });
+
+      console.log(`⚓ Anchored batch of ${proofs.length} integrity proofs`);
+      console.log(`   Root: ${root}`);
+      console.log(`   TX: ${anchorTx}`);
+
+      return {
+        root,
+        uri,
+        anchor_tx: anchorTx,
+        proof_ids: proofs.map((proof) => proof.proof_id),
+        anchored_at: new Date().toISOString(),
+      };
+    } catch (e) {
+      // Keep the proofs so the next flush can retry them
+      this.pending = [...proofs, ...this.pending];
+      throw new IntegrityVerificationError(`Failed to anchor integrity proof batch: ${e}`, {
+        proof_count: proofs.length,
+      });
+    }
+  }
+
+  /**
+   * Stop the scheduled flush timer (pending proofs are kept)
+   */
+  stop(): void {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  /**
+   * Check that a proof is included in its batch. Runs offline: the leaf is
+   * recomputed from the proof itself and folded up the recorded Merkle path.
+   */
+  static verifyInclusion(proof: ProcessIntegrityProof | Record<string, unknown>): boolean {
+    const inclusion = proof.batch as ProofBatchInclusion | undefined;
+    if (!inclusion) {
+      return false;
+    }
+
+    const leaf = computeProofLeaf(proof);
+    if (leaf !== inclusion.leaf) {
+      return false;
+    }
+    return verifyMerkleProof(leaf, inclusion.merkle_path, inclusion.batch_root);
+  }
+
+  /**
+   * Check that a batch root was anchored in the Validation Registry for the
+   * expected agent.
+   */
+  static async isAnchored(
+    chaosAgent: ChaosAgent,
+    batchRoot: string,
+    agentId: bigint
+  ): Promise<boolean> {
+    try {
+      const status = await chaosAgent.getValidationStatus(batchRoot);
+      return status.validatorAddress !== ethers.ZeroAddress && status.agentId === agentId;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * ERC-8004 agent registration files
+ *
+ * The token URI of an agent in the Identity Registry resolves to a
+ * registration file describing the agent: name, description, image, the
+ * endpoints it can be reached at (A2A, MCP, ENS, DID, agent wallet, ...), the
+ * registries it is registered in and the trust models it supports. This
+ * module builds and validates those files and encodes them as base64
+ * `data:` URIs for fully on-chain registration.
+ */
+
+import { z } from 'zod';
+import { ValidationError } from './exceptions';
+import { AgentMetadata } from './types';
+
+export const REGISTRATION_FILE_TYPE = 'https://eips.ethereum.org/EIPS/eip-8004#registration-v1';
+
+const DATA_URI_PREFIX = 'data:application/json;base64,';
+
+/** CAIP-10 account ID, e.g. eip155:84532:0xabc... */
+const CAIP10_PATTERN = /^[-a-z0-9]{3,8}:[-_a-zA-Z0-9]{1,32}:[-.%a-zA-Z0-9]{1,128}$/;
+
+export const RegistrationEndpointSchema = z
+  .object({
+    name: z.string().min(1),
+    endpoint: z.string().min(1),
+    version: z.string().optional(),
+  })
+  .passthrough();
+
+export const RegistrationEntrySchema = z.object({
+  agentId: z.union([z.number().int().nonnegative(), z.string().regex(/^\d+$/)]),
+  /** CAIP-10 address of the Identity Registry, e.g. eip155:84532:0x8004... */
+  agentRegistry: z.string().regex(CAIP10_PATTERN, 'agentRegistry must be a CAIP-10 address'),
+});
+
+export const AgentRegistrationFileSchema = z
+  .object({
+    type: z.literal(REGISTRATION_FILE_TYPE),
+    name: z.string().min(1),
+    description: z.string(),
+    image: z.string().optional(),
+    endpoints: z.array(RegistrationEndpointSchema),
+    registrations: z.array(RegistrationEntrySchema),
+    supportedTrust: z.array(z.string()).optional(),
+  })
+  .passthrough()
+  .superRefine((file, ctx) => {
+    file.endpoints.forEach((endpoint, index) => {
+      if (endpoint.name === 'agentWallet' && !CAIP10_PATTERN.test(endpoint.endpoint)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['endpoints', index, 'endpoint'],
+          message: 'agentWallet endpoint must be a CAIP-10 address',
+        });
+      }
+    });
+  });
+
+export type RegistrationEndpoint = z.infer<typeof RegistrationEndpointSchema>;
+export type RegistrationEntry = z.infer<typeof RegistrationEntrySchema>;
+export type AgentRegistrationFile = z.infer<typeof AgentRegistrationFileSchema>;
+
+export interface RegistrationFileParams {
+  name: string;
+  description?: string;
+  image?: string;
+  /** A2A agent card URL */
+  a2a?: string | { endpoint: string; version?: string };
+  /** MCP server URL */
+  mcp?: string | { endpoint: string; version?: string };
+  ens?: string;
+  did?: string;
+  /** Wallet the agent receives payments at */
+  agentWallet?: { address: string; chainId: number };
+  /** Additional endpoints (OASF, custom protocols, ...) */
+  endpoints?: RegistrationEndpoint[];
+  registrations?: RegistrationEntry[];
+  supportedTrust?: string[];
+  /** Extra top-level fields (e.g. domain, role, capabilities) */
+  extra?: Record<string, unknown>;
+}
+
+/**
+ * Build and validate a registration file
+ */
+export function buildRegistrationFile(params: RegistrationFileParams): AgentRegistrationFile {
+  const endpoint = (name: string, value: string | { endpoint: string; version?: string }) =>
+    typeof value === 'string' ? { name, endpoint: value } : { name, ...value };
+
+  const endpoints: RegistrationEndpoint[] = [];
+  if (params.a2a) endpoints.push(endpoint('A2A', params.a2a));
+  if (params.mcp) endpoints.push(endpoint('MCP', params.mcp));
+  if (params.ens) endpoints.push({ name: 'ENS', endpoint: params.ens });
+  if (params.did) endpoints.push({ name: 'DID', endpoint: params.did });
+  if (params.agentWallet) {
+    endpoints.push({
+      name: 'agentWallet',
+      endpoint: `eip155:${params.agentWallet.chainId}:${params.agentWallet.address}`,
+    });
+  }
+  endpoints.push(...(params.endpoints ?? []));
+
+  return validateRegistrationFile({
+    ...(params.extra ?? {}),
+    type: REGISTRATION_FILE_TYPE,
+    name: params.name,
+    description: params.description ?? '',
+    ...(params.image !== undefined ? { image: params.image } : {}),
+    endpoints,
+    registrations: params.registrations ?? [],
+    ...(params.supportedTrust ? { supportedTrust: params.supportedTrust } : {}),
+  });
+}
+
+/**
+ * Convert SDK agent metadata to a registration file. Fields without an
+ * ERC-8004 equivalent (domain, role, capabilities, ...) are kept as extra
+ * top-level fields.
+ */
+export function registrationFileFromMetadata(
+  metadata: AgentMetadata,
+  agentWallet?: { address: string; chainId: number }
+): AgentRegistrationFile {
+  const { name, description, image, supportedTrust, ...extra } = metadata;
+  return buildRegistrationFile({ name, description, image, supportedTrust, agentWallet, extra });
+}
+
+/**
+ * Validate a parsed registration file
+ */
+export function validateRegistrationFile(data: unknown): AgentRegistrationFile {
+  const parsed = AgentRegistrationFileSchema.safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => ({
+      path: issue.path.join('.'),
+      message: issue.message,
+    }));
+    throw new ValidationError(
+      `Invalid ERC-8004 registration file: ${issues
+        .map((issue) => `${issue.path || '<root>'}: ${issue.message}`)
+        .join('; ')}`,
+      { issues }
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Check whether a parsed document is an ERC-8004 registration file
+ */
+export function isRegistrationFile(data: unknown): data is AgentRegistrationFile {
+  return AgentRegistrationFileSchema.safeParse(data).success;
+}
+
+/**
+ * Whether a published registration file describes the same agent as
+ * `desired`: same name and same domain (case-insensitive)
+ */
+export function isSameAgent(
+  document: { name?: unknown; domain?: unknown } | null | undefined,
+  desired: { name?: unknown; domain?: unknown }
+): boolean {
+  return (
+    !!document &&
+    document.name === desired.name &&
+    String(document.domain ?? '').toLowerCase() === String(desired.domain ?? '').toLowerCase()
+  );
+}
+
+/**
+ * Add (or replace) the entry for a registry in a registration file
+ */
+export function withRegistration(
+  file: AgentRegistrationFile,
+  registration: { agentId: bigint | number | string; agentRegistry: string }
+): AgentRegistrationFile {
+  const agentId =
+    typeof registration.agentId === 'number'
+      ? registration.agentId
+      : registration.agentId.toString();
+  return validateRegistrationFile({
+    ...file,
+    registrations: [
+      ...file.registrations.filter((r) => r.agentRegistry !== registration.agentRegistry),
+      { agentId, agentRegistry: registration.agentRegistry },
+    ],
+  });
+}
+
+/**
+ * Encode a JSON document as a base64 `data:application/json` URI
+ */
+export function encodeRegistrationDataUri(document: object): string {
+  return DATA_URI_PREFIX + Buffer.from(JSON.stringify(document), 'utf8').toString('base64');
+}
+
+/**
+ * Decode a `data:application/json` URI. Accepts base64 URIs as well as the
+ * percent-encoded and raw (unescaped) JSON written by earlier SDK versions.
+ */
+export function decodeRegistrationDataUri(uri: string): unknown {
+  const match = uri.match(/^data:application\/json(;[^,]*)?,/i);
+  if (!match) {
+    throw new ValidationError(`Not a JSON data URI: ${uri.slice(0, 40)}`);
+  }
+
+  const payload = uri.slice(match[0].length);
+  if (match[1]?.split(';').includes('base64')) {
+    return JSON.parse(Buffer.from(payload, 'base64').toString('utf8'));
+  }
+  try {
+    return JSON.parse(payload);
+  } catch {
+    return JSON.parse(decodeURIComponent(payload));
+  }
+}
+
+/**
+ * Whether a token URI is an inline JSON data URI (any encoding)
+ */
+export function isJsonDataUri(uri: string): boolean {
+  return /^data:application\/json[;,]/i.test(uri);
+}
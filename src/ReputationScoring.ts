@@ -0,0 +1,363 @@
+/**
+ * Client-side reputation scoring over raw ERC-8004 feedback.
+ *
+ * The Reputation Registry's `averageScore` weighs every feedback entry the
+ * same, so a handful of fresh wallets can dominate it. This module scores
+ * the raw entries (readAllFeedback joined with NewFeedback events) instead:
+ * pluggable weighting strategies (time decay, client reputation, payment
+ * volume, one vote per client), outlier trimming, a Bayesian estimate with a
+ * credible interval, per-tag scores, and a per-entry breakdown explaining how
+ * the score was reached.
+ */
+
+import { ethers } from 'ethers';
+import { decodeTag } from './FeedbackTags';
+
+export interface FeedbackSample {
+  clientAddress: string;
+  /** 0-100 */
+  score: number;
+  tag1: string;
+  tag2: string;
+  revoked: boolean;
+  /** 1-based index among the client's feedback for the agent */
+  feedbackIndex?: bigint;
+  blockNumber?: number;
+  /** Unix time of the feedback block */
+  timestamp?: number;
+}
+
+export interface ScoringContext {
+  /** Every sample being scored (revoked entries excluded) */
+  samples: FeedbackSample[];
+  /** Unix time the score is computed at */
+  now: number;
+}
+
+/**
+ * A weighting strategy returns a multiplier (1 = neutral, 0 = ignore) for
+ * each sample. Multipliers of all strategies are multiplied together.
+ */
+export interface WeightingStrategy {
+  name: string;
+  weigh(sample: FeedbackSample, context: ScoringContext): number | Promise<number>;
+}
+
+export interface ScoringOptions {
+  strategies?: WeightingStrategy[];
+  /** Fraction of samples trimmed from each end of the score range (default 0) */
+  trim?: number;
+  /** Prior belief, as a score and a weight in pseudo-samples (default 50 with weight 2) */
+  prior?: { score: number; weight: number };
+  /** Credible interval level (default 0.95) */
+  confidence?: number;
+  /** Unix time decay is measured against (default now) */
+  now?: number;
+}
+
+export interface ScoreEstimate {
+  /** Posterior mean, 0-100 */
+  score: number;
+  /** Credible interval around the score, 0-100 */
+  interval: { low: number; high: number; confidence: number };
+  /** Number of samples contributing */
+  count: number;
+  /** Sum of sample weights */
+  totalWeight: number;
+}
+
+export interface ScoredSample {
+  sample: FeedbackSample;
+  /** Final weight (product of the factors, 0 when excluded) */
+  weight: number;
+  /** Multiplier applied by each strategy */
+  factors: Record<string, number>;
+  /** Why the sample does not count, if it does not */
+  excluded?: 'revoked' | 'trimmed';
+}
+
+export interface ReputationScore extends ScoreEstimate {
+  /** Unweighted average of the non-revoked scores (what getSummary reports) */
+  rawAverage: number | null;
+  /** Scores per tag (tag1 and tag2, decoded with decodeTag) */
+  byTag: Record<string, ScoreEstimate>;
+  breakdown: ScoredSample[];
+  /** Human-readable summary of how the score was reached */
+  explanation: string[];
+}
+
+// ============================================================================
+// Strategies
+// ============================================================================
+
+/**
+ * Halve a sample's weight every `halfLifeDays`. Samples without a timestamp
+ * keep full weight.
+ */
+export function timeDecay(halfLifeDays: number): WeightingStrategy {
+  return {
+    name: 'timeDecay',
+    weigh: (sample, { now }) => {
+      if (sample.timestamp === undefined) return 1;
+      const ageDays = Math.max(0, now - sample.timestamp) / 86400;
+      return Math.pow(0.5, ageDays / halfLifeDays);
+    },
+  };
+}
+
+/**
+ * Weight clients by their own reputation (0-100), e.g. their score as an
+ * agent. Clients without one get `minWeight`.
+ */
+export function clientReputationWeight(
+  getReputation: (clientAddress: string) => Promise<number | null>,
+  minWeight: number = 0.1
+): WeightingStrategy {
+  const cache = new Map<string, Promise<number | null>>();
+  return {
+    name: 'clientReputation',
+    weigh: async (sample) => {
+      const key = sample.clientAddress.toLowerCase();
+      if (!cache.has(key)) cache.set(key, getReputation(sample.clientAddress));
+      const reputation = await cache.get(key)!;
+      return reputation === null ? minWeight : Math.max(minWeight, Math.min(reputation, 100) / 100);
+    },
+  };
+}
+
+/**
+ * Weight clients by how much they paid the agent: log10(1 + volume),
+ * capped at `maxWeight`. Clients that never paid get `minWeight`.
+ */
+export function paymentVolumeWeight(
+  getVolume: (clientAddress: string) => Promise<number>,
+  options: { minWeight?: number; maxWeight?: number } = {}
+): WeightingStrategy {
+  const { minWeight = 0.1, maxWeight = 3 } = options;
+  const cache = new Map<string, Promise<number>>();
+  return {
+    name: 'paymentVolume',
+    weigh: async (sample) => {
+      const key = sample.clientAddress.toLowerCase();
+      if (!cache.has(key)) cache.set(key, getVolume(sample.clientAddress));
+      const volume = await cache.get(key)!;
+      return volume > 0
+        ? Math.min(maxWeight, Math.max(minWeight, Math.log10(1 + volume)))
+        : minWeight;
+    },
+  };
+}
+
+/**
+ * Split one unit of weight across each client's samples, so a client
+ * submitting many entries counts as much as one submitting a single entry
+ */
+export function onePerClient(): WeightingStrategy {
+  return {
+    name: 'onePerClient',
+    weigh: (sample, { samples }) => {
+      const client = sample.clientAddress.toLowerCase();
+      return 1 / samples.filter((s) => s.clientAddress.toLowerCase() === client).length;
+    },
+  };
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Join readAllFeedback output (read with includeRevoked) with NewFeedback
+ * events (oldest first) by client and per-client order, adding block numbers
+ * and, when `getTimestamp` is given, block timestamps. Events are only joined
+ * for clients with exactly one event per feedback entry, since a missing
+ * event (logs read from a later block) would shift every later entry.
+ */
+export async function buildFeedbackSamples(
+  feedback: {
+    clients: string[];
+    scores: number[];
+    tag1s: string[];
+    tag2s: string[];
+    revokedStatuses: boolean[];
+  },
+  events: ethers.EventLog[] = [],
+  getTimestamp?: (blockNumber: number) => Promise<number>
+): Promise<FeedbackSample[]> {
+  const eventsByClient = new Map<string, ethers.EventLog[]>();
+  for (const event of events) {
+    const client = String(event.args.clientAddress).toLowerCase();
+    eventsByClient.set(client, [...(eventsByClient.get(client) ?? []), event]);
+  }
+
+  const feedbackCounts = new Map<string, number>();
+  for (const client of feedback.clients) {
+    const key = client.toLowerCase();
+    feedbackCounts.set(key, (feedbackCounts.get(key) ?? 0) + 1);
+  }
+  for (const [client, clientEvents] of eventsByClient) {
+    if (clientEvents.length !== feedbackCounts.get(client)) {
+      console.warn(
+        `⚠️  ${clientEvents.length} feedback events for ${feedbackCounts.get(client) ?? 0} ` +
+          `entries of client ${client}; leaving its entries without block times`
+      );
+      eventsByClient.delete(client);
+    }
+  }
+
+  const seen = new Map<string, number>();
+  const timestamps = new Map<number, Promise<number>>();
+  const samples: FeedbackSample[] = [];
+  for (let i = 0; i < feedback.clients.length; i++) {
+    const client = feedback.clients[i].toLowerCase();
+    const ordinal = seen.get(client) ?? 0;
+    seen.set(client, ordinal + 1);
+
+    const sample: FeedbackSample = {
+      clientAddress: feedback.clients[i],
+      score: Number(feedback.scores[i]),
+      tag1: feedback.tag1s[i],
+      tag2: feedback.tag2s[i],
+      revoked: feedback.revokedStatuses[i],
+      feedbackIndex: BigInt(ordinal + 1),
+    };
+    const event = eventsByClient.get(client)?.[ordinal];
+    if (event) {
+      sample.blockNumber = event.blockNumber;
+      if (getTimestamp) {
+        if (!timestamps.has(event.blockNumber)) {
+          timestamps.set(event.blockNumber, getTimestamp(event.blockNumber));
+        }
+        sample.timestamp = await timestamps.get(event.blockNumber)!;
+      }
+    }
+    samples.push(sample);
+  }
+  return samples;
+}
+
+/**
+ * Score an agent from its raw feedback samples
+ */
+export async function scoreReputation(
+  samples: FeedbackSample[],
+  options: ScoringOptions = {}
+): Promise<ReputationScore> {
+  const strategies = options.strategies ?? [];
+  const trim = options.trim ?? 0;
+  const prior = options.prior ?? { score: 50, weight: 2 };
+  const confidence = options.confidence ?? 0.95;
+  const active = samples.filter((sample) => !sample.revoked);
+  const context: ScoringContext = {
+    samples: active,
+    now: options.now ?? Math.floor(Date.now() / 1000),
+  };
+
+  const breakdown: ScoredSample[] = [];
+  for (const sample of samples) {
+    if (sample.revoked) {
+      breakdown.push({ sample, weight: 0, factors: {}, excluded: 'revoked' });
+      continue;
+    }
+    const factors: Record<string, number> = {};
+    let weight = 1;
+    for (const strategy of strategies) {
+      factors[strategy.name] = await strategy.weigh(sample, context);
+      weight *= factors[strategy.name];
+    }
+    breakdown.push({ sample, weight, factors });
+  }
+
+  // Trim the same number of samples from the bottom and top of the score range
+  const trimCount = Math.floor(active.length * trim);
+  if (trimCount > 0) {
+    const ranked = breakdown
+      .filter((entry) => !entry.excluded)
+      .sort((a, b) => a.sample.score - b.sample.score);
+    [...ranked.slice(0, trimCount), ...ranked.slice(-trimCount)].forEach((entry) => {
+      entry.excluded = 'trimmed';
+      entry.weight = 0;
+    });
+  }
+
+  const counted = breakdown.filter((entry) => !entry.excluded);
+  const overall = estimate(counted, prior, confidence);
+
+  const byTag: Record<string, ScoreEstimate> = {};
+  const tags = new Set(counted.flatMap((entry) => [entry.sample.tag1, entry.sample.tag2]));
+  for (const tag of tags) {
+    if (!tag || tag === ethers.ZeroHash) continue;
+    const tagged = counted.filter(
+      (entry) => entry.sample.tag1 === tag || entry.sample.tag2 === tag
+    );
+    byTag[decodeTag(tag)] = estimate(tagged, prior, confidence);
+  }
+
+  const rawAverage =
+    active.length > 0
+      ? active.reduce((sum, sample) => sum + sample.score, 0) / active.length
+      : null;
+  const explanation = [
+    `${counted.length} of ${samples.length} feedback entries counted ` +
+      `(${samples.length - active.length} revoked, ${trimCount * 2} trimmed as outliers)`,
+    ...strategies.map((strategy) => {
+      const factors = counted.map((entry) => entry.factors[strategy.name]);
+      const mean = factors.reduce((sum, f) => sum + f, 0) / Math.max(factors.length, 1);
+      return `${strategy.name}: average weight ${mean.toFixed(3)}`;
+    }),
+    `Prior of ${prior.score} worth ${prior.weight} entries; effective weight ` +
+      `${overall.totalWeight.toFixed(2)}`,
+    `Score ${overall.score.toFixed(1)} (${Math.round(confidence * 100)}% interval ` +
+      `${overall.interval.low.toFixed(1)}-${overall.interval.high.toFixed(1)})` +
+      (rawAverage === null ? '' : `; unweighted average ${rawAverage.toFixed(1)}`),
+  ];
+
+  return { ...overall, rawAverage, byTag, breakdown, explanation };
+}
+
+/**
+ * Beta posterior over scores scaled to 0-1, each sample adding its weight
+ * split between successes (score) and failures (100 - score)
+ */
+function estimate(
+  entries: ScoredSample[],
+  prior: { score: number; weight: number },
+  confidence: number
+): ScoreEstimate {
+  const totalWeight = entries.reduce((sum, entry) => sum + entry.weight, 0);
+  const alpha =
+    (prior.score / 100) * prior.weight +
+    entries.reduce((sum, entry) => sum + (entry.weight * entry.sample.score) / 100, 0);
+  const beta = prior.weight + totalWeight - alpha;
+  const n = alpha + beta;
+
+  const mean = n > 0 ? alpha / n : prior.score / 100;
+  const spread =
+    n > 0
+      ? normalQuantile(0.5 + confidence / 2) * Math.sqrt((alpha * beta) / (n * n * (n + 1)))
+      : 0.5;
+  return {
+    score: mean * 100,
+    interval: {
+      low: Math.max(0, mean - spread) * 100,
+      high: Math.min(1, mean + spread) * 100,
+      confidence,
+    },
+    count: entries.length,
+    totalWeight,
+  };
+}
+
+/**
+ * Inverse of the standard normal CDF (Abramowitz and Stegun 26.2.23,
+ * absolute error below 4.5e-4)
+ */
+function normalQuantile(p: number): number {
+  const q = p < 0.5 ? p : 1 - p;
+  const t = Math.sqrt(-2 * Math.log(q));
+  const z =
+    t -
+    (2.515517 + 0.802853 * t + 0.010328 * t * t) /
+      (1 + 1.432788 * t + 0.189269 * t * t + 0.001308 * t * t * t);
+  return p < 0.5 ? -z : z;
+}
@@ -6,6 +6,7 @@
 import { ethers } from 'ethers';
 import { X402PaymentParams, X402Payment, PaymentReceipt } from './types';
 import { ERC20_ABI, getUSDCAddress } from './utils/contracts';
+import { canonicalKeccak256 } from './utils/canonical';
 
 export class X402PaymentManager {
   private signer: ethers.Signer;
@@ -163,9 +164,7 @@ export class X402PaymentManager {
     };
 
     // Create deterministic payment ID
-    const paymentId = ethers.keccak256(
-      ethers.toUtf8Bytes(JSON.stringify(receiptData))
-    );
+    const paymentId = canonicalKeccak256(receiptData);
 
     // Sign the receipt
     const message = `Payment Receipt\nID: ${paymentId}\nFrom: ${payment.from}\nTo: ${payment.to}\nAmount: ${payment.amount} ${payment.currency}\nTx: ${payment.txHash}`;
@@ -11,6 +11,7 @@ import { ethers } from 'ethers';
 // import axios from 'axios'; // Not currently used
 import { PaymentError } from './exceptions';
 import { NetworkConfig } from './types';
+import { canonicalHash } from './utils/canonical';
 
 export interface X402PaymentRequest {
   payment_id: string;
@@ -375,10 +376,8 @@ export class X402PaymentManager {
       status: paymentProof.status
     };
 
-    // Create receipt hash
-    const crypto = require('crypto');
-    const receiptJson = JSON.stringify(receiptData);
-    const receiptHash = crypto.createHash('sha256').update(receiptJson).digest('hex');
+    // Create receipt hash (RFC 8785 canonical JSON)
+    const receiptHash = canonicalHash(receiptData);
 
     return {
       receipt_type: 'x402_payment',
@@ -7,6 +7,7 @@
 
 import * as http from 'http';
 import { X402PaymentManager, X402PaymentProof } from './X402PaymentManager';
+import { ACTIVE_STATUS, AgentStatusRecord, acceptsNewCalls } from './AgentLifecycle';
 // import { PaymentError } from './exceptions';
 
 export interface X402EndpointConfig {
@@ -38,6 +39,8 @@ export class X402Server {
   private endpoints: Map<string, X402EndpointConfig> = new Map();
   private paymentCache: Map<string, X402PaymentProof> = new Map();
   private config: Required<X402PaywallConfig>;
+  private agentStatus: AgentStatusRecord = ACTIVE_STATUS;
+  private agentStatusLoad: Promise<void> = Promise.resolve();
 
   constructor(paymentManager: X402PaymentManager, config: X402PaywallConfig) {
     this.paymentManager = paymentManager;
@@ -72,6 +75,32 @@ export class X402Server {
     };
   }
 
+  /**
+   * Set the lifecycle status of the agent behind this server. Paused and
+   * retired agents reject new paid calls before any payment is taken.
+   */
+  setAgentStatus(status: AgentStatusRecord): void {
+    this.agentStatus = status;
+    console.log(`🚦 Paywall agent status: ${status.status}`);
+  }
+
+  getAgentStatus(): AgentStatusRecord {
+    return this.agentStatus;
+  }
+
+  /**
+   * Load the agent status from an asynchronous source (e.g. the chain).
+   * Requests wait for the load before the status check; if it fails the
+   * last known status is kept.
+   */
+  loadAgentStatus(loader: () => Promise<AgentStatusRecord>): Promise<void> {
+    this.agentStatusLoad = loader().then(
+      (status) => this.setAgentStatus(status),
+      (error) => console.warn(`⚠️  Could not load agent status: ${error}`)
+    );
+    return this.agentStatusLoad;
+  }
+
   /**
    * Start the HTTP 402 server
    */
@@ -135,6 +164,19 @@ export class X402Server {
       return;
     }
 
+    // Check agent lifecycle status before asking for (or accepting) payment
+    await this.agentStatusLoad;
+    if (!acceptsNewCalls(this.agentStatus)) {
+      this.sendAgentUnavailable(res);
+      return;
+    }
+    if (this.agentStatus.status === 'deprecated') {
+      res.setHeader('Deprecation', 'true');
+      if (this.agentStatus.successor) {
+        res.setHeader('X-Agent-Successor', this.agentStatus.successor);
+      }
+    }
+
     // Check for payment proof
     const paymentToken = req.headers['x-payment-token'] as string;
     const paymentTxHash = req.headers['x-payment-tx'] as string;
@@ -178,6 +220,29 @@ export class X402Server {
     }
   }
 
+  /**
+   * Send 503 (paused) or 410 (retired) for an agent that takes no new calls
+   */
+  private sendAgentUnavailable(res: http.ServerResponse): void {
+    const { status, reason, successor, until } = this.agentStatus;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (until) {
+      headers['Retry-After'] = new Date(until).toUTCString();
+    }
+    if (successor) {
+      headers['X-Agent-Successor'] = successor;
+    }
+
+    res.writeHead(status === 'retired' ? 410 : 503, headers);
+    res.end(JSON.stringify({
+      error: status === 'retired' ? 'Agent retired' : 'Agent paused',
+      status,
+      reason,
+      successor,
+      until
+    }));
+  }
+
   /**
    * Send HTTP 402 Payment Required response
    */
@@ -0,0 +1,291 @@
+/**
+ * Intel SGX / TDX DCAP quote verification
+ *
+ * Parses ECDSA-256 quotes (SGX v3, TDX v4) and checks them offline: the quote
+ * signature by the attestation key, the Quoting Enclave report signature by the
+ * PCK certificate, the binding between the two, and the PCK chain up to a
+ * pinned Intel root. TCB level, CRL and QE identity collateral are not
+ * evaluated; callers that need them must fetch collateral from Intel PCS.
+ */
+
+import { X509Certificate, createHash, verify } from 'crypto';
+import {
+  AttestationVerificationResult,
+  CheckRecorder,
+  checkMeasurements,
+  ecPublicKeyFromRaw,
+  normalizeHex,
+  parsePemChain,
+  verifyCertificateChain,
+} from './certificates';
+
+const HEADER_SIZE = 48;
+const SGX_REPORT_SIZE = 384;
+const TDX_REPORT_SIZE = 584;
+const ATT_KEY_TYPE_ECDSA_P256 = 2;
+const TEE_TYPE_TDX = 0x81;
+const CERT_TYPE_PCK_CHAIN = 5;
+const CERT_TYPE_QE_REPORT = 6;
+
+export interface IntelQuoteVerificationOptions {
+  /** Pinned roots: PEM certificates or SHA-256 fingerprints */
+  trustedRoots: string[];
+  /**
+   * Expected measurements (hex) keyed like the result measurements:
+   * mrenclave, mrsigner for SGX; mrtd, mrconfigid, mrseam, rtmr0-3 for TDX
+   */
+  expectedMeasurements?: Record<string, string>;
+  /** Expected report data (hex, 64 bytes; shorter values are zero-padded) */
+  expectedReportData?: string;
+  /** Minimum ISV SVN (SGX only) */
+  minIsvSvn?: number;
+  /** Time at which PCK certificates must be valid (default now) */
+  at?: Date;
+}
+
+export interface ParsedIntelQuote {
+  version: number;
+  tee: 'sgx' | 'tdx';
+  /** Header and report body: the bytes covered by the quote signature */
+  signedData: Uint8Array;
+  measurements: Record<string, string>;
+  reportData: string;
+  isvProdId?: number;
+  isvSvn?: number;
+  signature: Uint8Array;
+  attestationKey: Uint8Array;
+  qeReport: Uint8Array;
+  qeReportSignature: Uint8Array;
+  qeAuthData: Uint8Array;
+  pckChainPem: string;
+}
+
+class QuoteReader {
+  offset: number;
+
+  constructor(
+    private data: Buffer,
+    offset: number
+  ) {
+    this.offset = offset;
+  }
+
+  bytes(length: number): Buffer {
+    if (this.offset + length > this.data.length) {
+      throw new Error('Quote is truncated');
+    }
+    const value = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  u16(): number {
+    return this.bytes(2).readUInt16LE(0);
+  }
+
+  u32(): number {
+    return this.bytes(4).readUInt32LE(0);
+  }
+}
+
+const hex = (data: Uint8Array) => Buffer.from(data).toString('hex');
+
+/**
+ * Parse an SGX v3 or TDX v4 ECDSA quote
+ */
+export function parseIntelQuote(quote: Uint8Array): ParsedIntelQuote {
+  const data = Buffer.from(quote);
+  if (data.length < HEADER_SIZE) {
+    throw new Error('Quote is truncated');
+  }
+
+  const version = data.readUInt16LE(0);
+  const attKeyType = data.readUInt16LE(2);
+  const teeType = data.readUInt32LE(4);
+  if (attKeyType !== ATT_KEY_TYPE_ECDSA_P256) {
+    throw new Error(`Unsupported attestation key type ${attKeyType}`);
+  }
+
+  const tee = teeType === TEE_TYPE_TDX ? 'tdx' : 'sgx';
+  if ((tee === 'sgx' && version !== 3) || (tee === 'tdx' && version !== 4)) {
+    throw new Error(`Unsupported ${tee.toUpperCase()} quote version ${version}`);
+  }
+
+  const reader = new QuoteReader(data, HEADER_SIZE);
+  const body = reader.bytes(tee === 'tdx' ? TDX_REPORT_SIZE : SGX_REPORT_SIZE);
+  const signedData = data.subarray(0, reader.offset);
+
+  let measurements: Record<string, string>;
+  let reportData: Buffer;
+  let isvProdId: number | undefined;
+  let isvSvn: number | undefined;
+  if (tee === 'sgx') {
+    measurements = {
+      mrenclave: hex(body.subarray(64, 96)),
+      mrsigner: hex(body.subarray(128, 160)),
+    };
+    isvProdId = body.readUInt16LE(256);
+    isvSvn = body.readUInt16LE(258);
+    reportData = body.subarray(320, 384);
+  } else {
+    measurements = {
+      mrseam: hex(body.subarray(16, 64)),
+      mrtd: hex(body.subarray(136, 184)),
+      mrconfigid: hex(body.subarray(184, 232)),
+      rtmr0: hex(body.subarray(328, 376)),
+      rtmr1: hex(body.subarray(376, 424)),
+      rtmr2: hex(body.subarray(424, 472)),
+      rtmr3: hex(body.subarray(472, 520)),
+    };
+    reportData = body.subarray(520, 584);
+  }
+
+  reader.u32(); // signature data length
+  const signature = reader.bytes(64);
+  const attestationKey = reader.bytes(64);
+
+  let qeReader = reader;
+  if (tee === 'tdx') {
+    // v4 wraps the QE report and PCK chain in certification data of type 6
+    const certType = reader.u16();
+    const size = reader.u32();
+    if (certType !== CERT_TYPE_QE_REPORT) {
+      throw new Error(`Unexpected certification data type ${certType}`);
+    }
+    qeReader = new QuoteReader(reader.bytes(size), 0);
+  }
+
+  const qeReport = qeReader.bytes(SGX_REPORT_SIZE);
+  const qeReportSignature = qeReader.bytes(64);
+  const qeAuthData = qeReader.bytes(qeReader.u16());
+  const certType = qeReader.u16();
+  const certData = qeReader.bytes(qeReader.u32());
+  if (certType !== CERT_TYPE_PCK_CHAIN) {
+    throw new Error(`Unsupported certification data type ${certType}`);
+  }
+
+  return {
+    version,
+    tee,
+    signedData,
+    measurements,
+    reportData: hex(reportData),
+    isvProdId,
+    isvSvn,
+    signature,
+    attestationKey,
+    qeReport,
+    qeReportSignature,
+    qeAuthData,
+    pckChainPem: certData.toString('utf8').replace(/\0+$/, ''),
+  };
+}
+
+/**
+ * Verify an SGX or TDX quote offline
+ */
+export function verifyIntelQuote(
+  quote: Uint8Array,
+  options: IntelQuoteVerificationOptions
+): AttestationVerificationResult {
+  const recorder = new CheckRecorder();
+
+  let parsed: ParsedIntelQuote;
+  try {
+    parsed = parseIntelQuote(quote);
+    recorder.record(
+      'document_format',
+      true,
+      `${parsed.tee.toUpperCase()} quote v${parsed.version}`
+    );
+  } catch (e) {
+    recorder.record('document_format', false, `Invalid quote: ${e}`);
+    return recorder.result('unknown', { measurements: {} });
+  }
+
+  const platform = parsed.tee === 'tdx' ? 'intel-tdx' : 'intel-sgx';
+  const extra = { measurements: parsed.measurements, report_data: parsed.reportData };
+
+  try {
+    const attestationKey = ecPublicKeyFromRaw(parsed.attestationKey, 'P-256');
+    const valid = verify(
+      'sha256',
+      parsed.signedData,
+      { key: attestationKey, dsaEncoding: 'ieee-p1363' },
+      parsed.signature
+    );
+    recorder.record(
+      'quote_signature',
+      valid,
+      valid ? 'Quote signed by attestation key' : 'Quote signature does not match'
+    );
+  } catch (e) {
+    recorder.record('quote_signature', false, `Quote signature verification failed: ${e}`);
+  }
+
+  // The QE binds the attestation key by putting its hash in its report data
+  const keyHash = createHash('sha256')
+    .update(parsed.attestationKey)
+    .update(parsed.qeAuthData)
+    .digest('hex');
+  const qeReportData = hex(parsed.qeReport.subarray(320, 384));
+  const bound = qeReportData === keyHash + '0'.repeat(64);
+  recorder.record(
+    'attestation_key_binding',
+    bound,
+    bound
+      ? 'Attestation key is bound to the QE report'
+      : 'QE report data does not match attestation key'
+  );
+
+  let chain: X509Certificate[];
+  try {
+    chain = parsePemChain(parsed.pckChainPem);
+  } catch (e) {
+    recorder.record('certificate_chain', false, `Invalid PCK certificate: ${e}`);
+    return recorder.result(platform, extra);
+  }
+
+  if (chain.length > 0) {
+    try {
+      const valid = verify(
+        'sha256',
+        parsed.qeReport,
+        { key: chain[0].publicKey, dsaEncoding: 'ieee-p1363' },
+        parsed.qeReportSignature
+      );
+      recorder.record(
+        'qe_report_signature',
+        valid,
+        valid ? 'QE report signed by PCK certificate' : 'QE report signature does not match'
+      );
+    } catch (e) {
+      recorder.record('qe_report_signature', false, `QE report verification failed: ${e}`);
+    }
+  }
+
+  verifyCertificateChain(chain, options.trustedRoots, options.at ?? new Date(), recorder);
+
+  checkMeasurements(options.expectedMeasurements ?? {}, parsed.measurements, recorder);
+
+  if (options.minIsvSvn !== undefined && parsed.isvSvn !== undefined) {
+    const ok = parsed.isvSvn >= options.minIsvSvn;
+    recorder.record(
+      'isv_svn',
+      ok,
+      `ISV SVN ${parsed.isvSvn} ${ok ? '>=' : '<'} required ${options.minIsvSvn}`
+    );
+  }
+
+  if (options.expectedReportData !== undefined) {
+    const expected = normalizeHex(options.expectedReportData).padEnd(128, '0');
+    const matches = parsed.reportData === expected;
+    recorder.record(
+      'report_data',
+      matches,
+      matches ? 'Report data matches' : 'Report data does not match'
+    );
+  }
+
+  return recorder.result(platform, extra);
+}
@@ -0,0 +1,235 @@
+/**
+ * AWS Nitro Enclaves attestation document verification
+ *
+ * A Nitro attestation document is a COSE_Sign1 structure (CBOR) signed with
+ * ES384 by a per-enclave certificate that chains up to the AWS Nitro root.
+ * Verification runs fully offline: the COSE signature, the certificate chain
+ * and the caller's expectations (PCRs, nonce, user data) are all checked
+ * locally.
+ */
+
+import { X509Certificate, verify } from 'crypto';
+import { CborTag, CborValue, decodeCbor, encodeCbor } from '../utils/cbor';
+import {
+  AttestationVerificationResult,
+  CheckRecorder,
+  checkMeasurements,
+  normalizeHex,
+  verifyCertificateChain,
+} from './certificates';
+
+/** COSE algorithm identifier for ECDSA w/ SHA-384 */
+const COSE_ALG_ES384 = -35;
+/** CBOR tag for COSE_Sign1 */
+const COSE_SIGN1_TAG = 18;
+
+export interface NitroVerificationOptions {
+  /** Pinned roots: PEM certificates or SHA-256 fingerprints */
+  trustedRoots: string[];
+  /** Expected PCR values by index (hex) */
+  expectedPcrs?: Record<number, string>;
+  /** Expected nonce (hex) */
+  expectedNonce?: string;
+  /** Expected user data (hex) */
+  expectedUserData?: string;
+  /**
+   * Time at which certificates must be valid. Defaults to the document
+   * timestamp, since enclave certificates are only valid for a few hours.
+   */
+  at?: Date;
+}
+
+export interface NitroAttestationDocument {
+  module_id: string;
+  digest: string;
+  timestamp: number;
+  pcrs: Record<number, string>;
+  certificate: Uint8Array;
+  cabundle: Uint8Array[];
+  public_key?: Uint8Array;
+  user_data?: Uint8Array;
+  nonce?: Uint8Array;
+}
+
+interface CoseSign1 {
+  protectedHeader: Uint8Array;
+  payload: Uint8Array;
+  signature: Uint8Array;
+}
+
+/**
+ * Split a COSE_Sign1 structure into its parts
+ */
+function parseCoseSign1(data: Uint8Array): CoseSign1 {
+  let decoded = decodeCbor(data);
+  if (decoded instanceof CborTag) {
+    if (decoded.tag !== COSE_SIGN1_TAG) {
+      throw new Error(`Unexpected CBOR tag ${decoded.tag}`);
+    }
+    decoded = decoded.value as CborValue;
+  }
+
+  if (!Array.isArray(decoded) || decoded.length !== 4) {
+    throw new Error('Not a COSE_Sign1 structure');
+  }
+  const [protectedHeader, , payload, signature] = decoded;
+  if (
+    !(protectedHeader instanceof Uint8Array) ||
+    !(payload instanceof Uint8Array) ||
+    !(signature instanceof Uint8Array)
+  ) {
+    throw new Error('Malformed COSE_Sign1 structure');
+  }
+  return { protectedHeader, payload, signature };
+}
+
+function optionalBytes(value: CborValue | undefined): Uint8Array | undefined {
+  return value instanceof Uint8Array ? value : undefined;
+}
+
+/**
+ * Decode the attestation payload map
+ */
+export function parseNitroAttestationDocument(data: Uint8Array): NitroAttestationDocument {
+  const { payload } = parseCoseSign1(data);
+  const map = decodeCbor(payload);
+  if (!(map instanceof Map)) {
+    throw new Error('Attestation payload is not a CBOR map');
+  }
+
+  const pcrMap = map.get('pcrs');
+  const certificate = map.get('certificate');
+  const cabundle = map.get('cabundle');
+  if (
+    !(pcrMap instanceof Map) ||
+    !(certificate instanceof Uint8Array) ||
+    !Array.isArray(cabundle)
+  ) {
+    throw new Error('Attestation payload is missing pcrs, certificate or cabundle');
+  }
+
+  const timestamp = Number(map.get('timestamp') ?? 0);
+  if (Number.isNaN(new Date(timestamp).getTime())) {
+    throw new Error(`Attestation timestamp ${String(map.get('timestamp'))} is not a valid date`);
+  }
+
+  const pcrs: Record<number, string> = {};
+  pcrMap.forEach((value, index) => {
+    if (value instanceof Uint8Array) {
+      pcrs[Number(index)] = Buffer.from(value).toString('hex');
+    }
+  });
+
+  return {
+    module_id: String(map.get('module_id') ?? ''),
+    digest: String(map.get('digest') ?? ''),
+    timestamp,
+    pcrs,
+    certificate,
+    cabundle: cabundle.filter((cert): cert is Uint8Array => cert instanceof Uint8Array),
+    public_key: optionalBytes(map.get('public_key')),
+    user_data: optionalBytes(map.get('user_data')),
+    nonce: optionalBytes(map.get('nonce')),
+  };
+}
+
+/**
+ * Verify a Nitro attestation document offline
+ */
+export function verifyNitroAttestation(
+  data: Uint8Array,
+  options: NitroVerificationOptions
+): AttestationVerificationResult {
+  const recorder = new CheckRecorder();
+
+  let cose: CoseSign1;
+  let document: NitroAttestationDocument;
+  try {
+    cose = parseCoseSign1(data);
+    document = parseNitroAttestationDocument(data);
+    recorder.record('document_format', true, `Module ${document.module_id}`);
+  } catch (e) {
+    recorder.record('document_format', false, `Invalid attestation document: ${e}`);
+    return recorder.result('aws-nitro', { measurements: {} });
+  }
+
+  const measurements: Record<string, string> = {};
+  Object.entries(document.pcrs).forEach(([index, value]) => {
+    measurements[`pcr${index}`] = value;
+  });
+  const extra = {
+    measurements,
+    report_data: document.user_data && Buffer.from(document.user_data).toString('hex'),
+    nonce: document.nonce && Buffer.from(document.nonce).toString('hex'),
+    public_key: document.public_key && Buffer.from(document.public_key).toString('hex'),
+    timestamp: new Date(document.timestamp).toISOString(),
+  };
+
+  let leaf: X509Certificate;
+  let chain: X509Certificate[];
+  try {
+    leaf = new X509Certificate(document.certificate);
+    // cabundle is ordered root first; the chain helper wants leaf first
+    chain = [leaf, ...[...document.cabundle].reverse().map((der) => new X509Certificate(der))];
+  } catch (e) {
+    recorder.record('certificate_chain', false, `Invalid certificate: ${e}`);
+    return recorder.result('aws-nitro', extra);
+  }
+
+  // COSE signature over Sig_structure = ["Signature1", protected, external_aad, payload]
+  try {
+    const header = decodeCbor(cose.protectedHeader);
+    const alg = header instanceof Map ? header.get(1) : undefined;
+    if (alg !== COSE_ALG_ES384) {
+      recorder.record('cose_signature', false, `Unsupported COSE algorithm ${String(alg)}`);
+    } else {
+      const sigStructure = encodeCbor([
+        'Signature1',
+        cose.protectedHeader,
+        new Uint8Array(0),
+        cose.payload,
+      ]);
+      const valid = verify(
+        'sha384',
+        sigStructure,
+        { key: leaf.publicKey, dsaEncoding: 'ieee-p1363' },
+        cose.signature
+      );
+      recorder.record(
+        'cose_signature',
+        valid,
+        valid ? 'COSE_Sign1 signature verified' : 'COSE_Sign1 signature does not match'
+      );
+    }
+  } catch (e) {
+    recorder.record('cose_signature', false, `Signature verification failed: ${e}`);
+  }
+
+  verifyCertificateChain(
+    chain,
+    options.trustedRoots,
+    options.at ?? new Date(document.timestamp),
+    recorder
+  );
+
+  const expectedPcrs: Record<string, string> = {};
+  Object.entries(options.expectedPcrs ?? {}).forEach(([index, value]) => {
+    expectedPcrs[`pcr${index}`] = value;
+  });
+  checkMeasurements(expectedPcrs, measurements, recorder);
+
+  if (options.expectedNonce !== undefined) {
+    const matches = extra.nonce === normalizeHex(options.expectedNonce);
+    recorder.record('nonce', matches, matches ? 'Nonce matches' : 'Nonce does not match');
+  }
+  if (options.expectedUserData !== undefined) {
+    const matches = extra.report_data === normalizeHex(options.expectedUserData);
+    recorder.record(
+      'user_data',
+      matches,
+      matches ? 'User data matches' : 'User data does not match'
+    );
+  }
+
+  return recorder.result('aws-nitro', extra);
+}
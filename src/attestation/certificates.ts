@@ -0,0 +1,193 @@
+/**
+ * Shared types and X.509 helpers for offline TEE attestation verification
+ */
+
+import { X509Certificate, createPublicKey, KeyObject } from 'crypto';
+import { ValidationError } from '../exceptions';
+
+export type TeePlatform = 'aws-nitro' | 'intel-sgx' | 'intel-tdx';
+
+export interface AttestationCheck {
+  check: string;
+  passed: boolean;
+  message: string;
+}
+
+export interface AttestationVerificationResult {
+  valid: boolean;
+  platform: TeePlatform | 'unknown';
+  checks: AttestationCheck[];
+  /** Hex-encoded measurements (PCRs, MRENCLAVE, MRTD, RTMRs, ...) */
+  measurements: Record<string, string>;
+  /** Hex-encoded data the enclave bound into the attestation */
+  report_data?: string;
+  nonce?: string;
+  public_key?: string;
+  timestamp?: string;
+}
+
+/**
+ * Collects checks and builds the final verdict
+ */
+export class CheckRecorder {
+  readonly checks: AttestationCheck[] = [];
+
+  record(check: string, passed: boolean, message: string): boolean {
+    this.checks.push({ check, passed, message });
+    return passed;
+  }
+
+  result(
+    platform: AttestationVerificationResult['platform'],
+    extra: Omit<AttestationVerificationResult, 'valid' | 'platform' | 'checks'>
+  ): AttestationVerificationResult {
+    return {
+      valid: this.checks.length > 0 && this.checks.every((c) => c.passed),
+      platform,
+      checks: this.checks,
+      ...extra,
+    };
+  }
+}
+
+/**
+ * Normalize a hex string for comparison (lowercase, no 0x, no separators)
+ */
+export function normalizeHex(value: string): string {
+  return value.replace(/^0x/i, '').replace(/[:\s]/g, '').toLowerCase();
+}
+
+/**
+ * SHA-256 fingerprints of pinned roots. Each entry is either a PEM certificate
+ * or a hex fingerprint (colons optional). Throws ValidationError on a PEM entry
+ * that does not parse.
+ */
+export function pinnedFingerprints(trustedRoots: string[]): Set<string> {
+  return new Set(
+    trustedRoots.map((root, index) => {
+      if (!root.includes('-----BEGIN CERTIFICATE-----')) return normalizeHex(root);
+      try {
+        return normalizeHex(new X509Certificate(root).fingerprint256);
+      } catch (e) {
+        throw new ValidationError(`Pinned root ${index} is not a valid PEM certificate`, {
+          index,
+          error: String(e),
+        });
+      }
+    })
+  );
+}
+
+/**
+ * Split a PEM bundle into certificates (in bundle order)
+ */
+export function parsePemChain(pem: string): X509Certificate[] {
+  const blocks = pem.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g) ?? [];
+  return blocks.map((block) => new X509Certificate(block));
+}
+
+/**
+ * Verify a certificate chain (leaf first, root last) against pinned roots.
+ *
+ * Records three checks: every link is issued and signed by the next
+ * certificate, every certificate is valid at `at`, and the self-signed root is
+ * one of the pinned roots.
+ */
+export function verifyCertificateChain(
+  chain: X509Certificate[],
+  trustedRoots: string[],
+  at: Date,
+  recorder: CheckRecorder
+): boolean {
+  if (chain.length === 0) {
+    return recorder.record('certificate_chain', false, 'No certificates in chain');
+  }
+
+  const root = chain[chain.length - 1];
+  let linked = root.checkIssued(root) && root.verify(root.publicKey);
+  let brokenAt = linked ? -1 : chain.length - 1;
+  for (let i = 0; linked && i < chain.length - 1; i++) {
+    if (!chain[i].checkIssued(chain[i + 1]) || !chain[i].verify(chain[i + 1].publicKey)) {
+      linked = false;
+      brokenAt = i;
+    }
+  }
+  const chainOk = recorder.record(
+    'certificate_chain',
+    linked,
+    linked
+      ? `Chain of ${chain.length} certificates verified up to ${root.subject.replace(/\n/g, ', ')}`
+      : `Certificate ${brokenAt} (${chain[brokenAt].subject.replace(/\n/g, ', ')}) is not signed by its issuer`
+  );
+
+  const expired = chain.filter(
+    (cert) => at < new Date(cert.validFrom) || at > new Date(cert.validTo)
+  );
+  const validityOk = recorder.record(
+    'certificate_validity',
+    expired.length === 0,
+    expired.length === 0
+      ? `All certificates valid at ${at.toISOString()}`
+      : `${expired.length} certificate(s) not valid at ${at.toISOString()}`
+  );
+
+  let pins: Set<string>;
+  try {
+    pins = pinnedFingerprints(trustedRoots);
+  } catch (e) {
+    recorder.record('root_pinned', false, e instanceof Error ? e.message : String(e));
+    return false;
+  }
+  const rootFingerprint = normalizeHex(root.fingerprint256);
+  const pinnedOk = recorder.record(
+    'root_pinned',
+    pins.has(rootFingerprint),
+    pins.has(rootFingerprint)
+      ? 'Root certificate matches a pinned root'
+      : `Root certificate ${rootFingerprint} is not pinned`
+  );
+
+  return chainOk && validityOk && pinnedOk;
+}
+
+/**
+ * Public key object for a raw uncompressed EC point (x || y)
+ */
+export function ecPublicKeyFromRaw(raw: Uint8Array, curve: 'P-256' | 'P-384'): KeyObject {
+  const size = raw.length / 2;
+  return createPublicKey({
+    key: {
+      kty: 'EC',
+      crv: curve,
+      x: Buffer.from(raw.subarray(0, size)).toString('base64url'),
+      y: Buffer.from(raw.subarray(size)).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+}
+
+/**
+ * Compare expected hex measurements against actual ones, recording one check
+ */
+export function checkMeasurements(
+  expected: Record<string, string | undefined>,
+  actual: Record<string, string>,
+  recorder: CheckRecorder
+): void {
+  const entries = Object.entries(expected).filter(([, value]) => value !== undefined);
+  if (entries.length === 0) {
+    return;
+  }
+
+  const mismatched = entries
+    .filter(([name, value]) => normalizeHex(value!) !== actual[name])
+    .map(([name]) => name);
+
+  recorder.record(
+    'measurements',
+    mismatched.length === 0,
+    mismatched.length === 0
+      ? `Measurements match: ${entries.map(([name]) => name).join(', ')}`
+      : `Measurement mismatch: ${mismatched.join(', ')}`
+  );
+}
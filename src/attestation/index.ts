@@ -0,0 +1,124 @@
+/**
+ * Offline verification of TEE attestation documents
+ *
+ * Dispatches on the attestation provider named in a TEEAttestation (nitro,
+ * sgx, tdx, phala) and verifies the raw document against caller-pinned root
+ * certificates and expected measurements. No network access is required.
+ */
+
+import { AttestationVerificationResult, CheckRecorder, TeePlatform } from './certificates';
+import { NitroVerificationOptions, verifyNitroAttestation } from './NitroAttestation';
+import { IntelQuoteVerificationOptions, verifyIntelQuote } from './IntelQuote';
+
+export * from './certificates';
+export * from './NitroAttestation';
+export * from './IntelQuote';
+
+export interface TeeAttestationVerifierConfig {
+  /** Pinned roots and expectations for AWS Nitro documents */
+  nitro?: NitroVerificationOptions;
+  /** Pinned roots and expectations for Intel SGX/TDX quotes (also used for Phala) */
+  intel?: IntelQuoteVerificationOptions;
+}
+
+/**
+ * Attestation as embedded in proofs: ProcessIntegrity's snake_case
+ * TEEAttestation or the camelCase TEEAttestation from types.ts
+ */
+export interface AttestationInput {
+  provider: string;
+  attestation_data?: unknown;
+  attestationData?: unknown;
+}
+
+/** Field names under which providers return the raw document */
+const DOCUMENT_FIELDS = ['document', 'attestation_document', 'quote', 'tdx_quote', 'sgx_quote'];
+
+/**
+ * Map a provider name to the platform whose document format it uses
+ */
+export function detectTeePlatform(provider: string): TeePlatform | null {
+  const name = provider.toLowerCase();
+  if (name.includes('nitro')) return 'aws-nitro';
+  if (name.includes('tdx') || name === 'phala') return 'intel-tdx';
+  if (name.includes('sgx')) return 'intel-sgx';
+  return null;
+}
+
+/**
+ * Extract the raw attestation bytes. Accepts bytes, hex (with or without 0x),
+ * base64, or an object carrying one of those under a known field.
+ */
+export function decodeAttestationData(data: unknown): Uint8Array {
+  if (data instanceof Uint8Array) {
+    return data;
+  }
+  if (typeof data === 'string') {
+    const value = data.trim();
+    if (/^(0x)?([0-9a-fA-F]{2})+$/.test(value)) {
+      return Buffer.from(value.replace(/^0x/, ''), 'hex');
+    }
+    if (/^[A-Za-z0-9+/_-]+={0,2}$/.test(value)) {
+      return Buffer.from(
+        value,
+        value.includes('-') || value.includes('_') ? 'base64url' : 'base64'
+      );
+    }
+    throw new Error('Attestation data is neither hex nor base64');
+  }
+  if (data && typeof data === 'object') {
+    const fields = data as Record<string, unknown>;
+    const field = DOCUMENT_FIELDS.find((name) => fields[name] !== undefined);
+    if (field) {
+      return decodeAttestationData(fields[field]);
+    }
+    // Buffers serialized through JSON
+    if (fields.type === 'Buffer' && Array.isArray(fields.data)) {
+      return Uint8Array.from(fields.data as number[]);
+    }
+  }
+  throw new Error('No attestation document found');
+}
+
+/**
+ * Verifies TEE attestation documents offline against pinned roots.
+ */
+export class TeeAttestationVerifier {
+  private config: TeeAttestationVerifierConfig;
+
+  constructor(config: TeeAttestationVerifierConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Verify the document embedded in an attestation
+   */
+  verify(attestation: AttestationInput): AttestationVerificationResult {
+    const platform = detectTeePlatform(attestation.provider);
+    if (!platform) {
+      return this.fail(`No offline verifier for TEE provider: ${attestation.provider}`);
+    }
+
+    const options = platform === 'aws-nitro' ? this.config.nitro : this.config.intel;
+    if (!options || options.trustedRoots.length === 0) {
+      return this.fail(`No pinned root certificates configured for ${platform}`);
+    }
+
+    let document: Uint8Array;
+    try {
+      document = decodeAttestationData(attestation.attestation_data ?? attestation.attestationData);
+    } catch (e) {
+      return this.fail(`Could not decode attestation data: ${e}`);
+    }
+
+    return platform === 'aws-nitro'
+      ? verifyNitroAttestation(document, options as NitroVerificationOptions)
+      : verifyIntelQuote(document, options as IntelQuoteVerificationOptions);
+  }
+
+  private fail(message: string): AttestationVerificationResult {
+    const recorder = new CheckRecorder();
+    recorder.record('document_format', false, message);
+    return recorder.result('unknown', { measurements: {} });
+  }
+}
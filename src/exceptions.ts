@@ -95,3 +95,32 @@ export class AuthenticationError extends ChaosChainSDKError {
   }
 }
 
+export class AgentTransferError extends ChaosChainSDKError {
+  constructor(message: string, details?: Record<string, any>) {
+    super(message, details);
+    this.name = 'AgentTransferError';
+    Object.setPrototypeOf(this, AgentTransferError.prototype);
+  }
+}
+
+export type UriResolutionFailure =
+  | 'invalid_uri'
+  | 'unsupported_scheme'
+  | 'timeout'
+  | 'too_large'
+  | 'http_error'
+  | 'network_error'
+  | 'content_mismatch'
+  | 'invalid_content'
+  | 'all_sources_failed';
+
+export class UriResolutionError extends ChaosChainSDKError {
+  public reason: UriResolutionFailure;
+
+  constructor(message: string, reason: UriResolutionFailure, details?: Record<string, any>) {
+    super(message, { ...details, reason });
+    this.name = 'UriResolutionError';
+    this.reason = reason;
+    Object.setPrototypeOf(this, UriResolutionError.prototype);
+  }
+}
@@ -29,7 +29,234 @@ export { X402Server } from './X402Server';
 // ============================================================================
 export { GoogleAP2Integration } from './GoogleAP2Integration';
 export { A2AX402Extension } from './A2AX402Extension';
-// export { ProcessIntegrity } from './ProcessIntegrity'; // TODO: Fix export
+export {
+  ProcessIntegrity,
+  integrityCheckedFunction,
+  withIntegrityProof,
+  recoverIntegrityProofSigner,
+  type ProcessIntegrityProof,
+  type ProofVerificationResult,
+  type ProofVerificationOptions,
+  type ProofReplayResult,
+  type ProofEvent,
+  type RegisterFunctionOptions,
+  type IntegrityCheckOptions,
+  type IntegrityCheckedResult
+} from './ProcessIntegrity';
+export {
+  IntegrityProofBatcher,
+  type ProofBatcherConfig,
+  type ProofBatchInclusion,
+  type AnchoredProofBatch
+} from './ProofBatcher';
+export {
+  ProcessInsurance,
+  verifyInsurancePolicy,
+  type ProcessInsuranceConfig,
+  type CreatePolicyOptions,
+  type FileClaimOptions,
+  type InsurancePolicy,
+  type InsurancePolicyTerms,
+  type InsuranceClaim,
+  type InsurancePayment
+} from './ProcessInsurance';
+export {
+  buildRegistrationFile,
+  registrationFileFromMetadata,
+  validateRegistrationFile,
+  isRegistrationFile,
+  isSameAgent,
+  withRegistration,
+  encodeRegistrationDataUri,
+  decodeRegistrationDataUri,
+  AgentRegistrationFileSchema,
+  REGISTRATION_FILE_TYPE,
+  type AgentRegistrationFile,
+  type RegistrationEndpoint,
+  type RegistrationEntry,
+  type RegistrationFileParams
+} from './RegistrationFile';
+export {
+  TeeAttestationVerifier,
+  verifyNitroAttestation,
+  verifyIntelQuote,
+  parseNitroAttestationDocument,
+  parseIntelQuote,
+  decodeAttestationData,
+  type TeeAttestationVerifierConfig,
+  type AttestationVerificationResult,
+  type AttestationCheck,
+  type NitroVerificationOptions,
+  type IntelQuoteVerificationOptions
+} from './attestation';
+export {
+  ExecutionTraceRecorder,
+  ExecutionTraceReplayer,
+  computeTraceHash,
+  SENSITIVE_HEADERS,
+  REDACTED,
+  type ExecutionContext,
+  type ExecutionTrace,
+  type ExecutionTraceOptions,
+  type TraceEvent,
+  type TracedResponse
+} from './ExecutionTrace';
+export {
+  buildProvenanceManifest,
+  computeProvenanceCodeHash,
+  verifyProvenanceManifest,
+  findProvenanceMismatches,
+  type CodeProvenanceManifest,
+  type CodeProvenanceOptions
+} from './CodeProvenance';
+export {
+  UriResolver,
+  fetchBounded,
+  parseCid,
+  formatCid,
+  verifyBlock,
+  type UriResolverConfig,
+  type UriSchemeHandler,
+  type UriResolverContext,
+  type ResolvedUri,
+  type FetchedContent,
+  type ParsedCid
+} from './resolver';
+export {
+  AgentIndexer,
+  MemoryAgentIndexStore,
+  JsonFileAgentIndexStore,
+  type AgentIndexerConfig,
+  type AgentIndexStore,
+  type AgentQuery,
+  type IndexedAgent,
+  type IndexerSyncResult
+} from './AgentIndexer';
+export {
+  buildMetadataTimeline,
+  diffMetadata,
+  type MetadataChange,
+  type MetadataVersion,
+  type MetadataTimeline,
+  type MetadataTimelineOptions
+} from './MetadataHistory';
+export { AgentStateFile, DEFAULT_AGENT_STATE_FILE, type AgentStateEntry } from './AgentState';
+export {
+  verifyAgentDomain,
+  buildWellKnownRegistration,
+  normalizeAgentDomain,
+  registryCaip10,
+  AGENT_CARD_PATH,
+  AGENT_REGISTRATION_PATH,
+  type DomainVerificationParams,
+  type DomainVerificationResult,
+  type DomainVerificationCheck,
+  type DomainVerificationFailure
+} from './DomainVerification';
+export {
+  MultiNetworkIdentity,
+  type MultiNetworkIdentityConfig,
+  type NetworkIdentity,
+  type RegisterOnNetworksOptions,
+  type NetworkLinkStatus,
+  type CrossChainLinkReport
+} from './MultiNetworkIdentity';
+export {
+  AgentOwnership,
+  type AgentOwnershipConfig,
+  type TransferPrecheck,
+  type SafeTransferOptions,
+  type KeyRotationOptions,
+  type KeyRotationResult
+} from './AgentOwnership';
+export {
+  createAgentStatus,
+  assertStatusTransition,
+  parseAgentStatus,
+  resolveAgentStatus,
+  withAgentStatus,
+  acceptsNewCalls,
+  AGENT_STATUSES,
+  ACTIVE_STATUS,
+  type AgentStatus,
+  type AgentStatusRecord,
+  type AgentStatusOptions
+} from './AgentLifecycle';
+export {
+  buildFeedbackFile,
+  validateFeedbackFile,
+  encodeFeedbackFile,
+  computeFeedbackHash,
+  resolveCommittedFile,
+  verifyFeedbackEvents,
+  verifyFeedbackEvent,
+  FeedbackFileSchema,
+  ProofOfPaymentSchema,
+  type FeedbackFile,
+  type FeedbackFileParams,
+  type ProofOfPayment,
+  type FeedbackVerification,
+  type VerifiedFeedback
+} from './FeedbackFile';
+export {
+  decodeFeedbackAuth,
+  verifyFeedbackAuth,
+  feedbackAuthDigest,
+  FeedbackAuthLedger,
+  FEEDBACK_AUTH_LENGTH,
+  DEFAULT_FEEDBACK_AUTH_LEDGER_FILE,
+  type FeedbackAuth,
+  type FeedbackAuthFailure,
+  type FeedbackAuthExpectations,
+  type FeedbackAuthVerification,
+  type FeedbackAuthGrant,
+  type FeedbackAuthGrantStatus,
+  type FeedbackAuthGrantReport
+} from './FeedbackAuth';
+export {
+  buildFeedbackResponse,
+  validateFeedbackResponse,
+  encodeFeedbackResponse,
+  draftFeedbackResponse,
+  buildFeedbackThreads,
+  readFeedbackThreads,
+  FeedbackResponder,
+  FeedbackResponseSchema,
+  ResponseEvidenceSchema,
+  type FeedbackResponse,
+  type FeedbackResponseKind,
+  type FeedbackResponseParams,
+  type ResponseEvidence,
+  type FeedbackResponseEntry,
+  type FeedbackThread,
+  type FeedbackResponderConfig,
+  type PublishedFeedbackResponse,
+  type PendingFeedbackResponse
+} from './FeedbackResponse';
+export {
+  encodeTag,
+  decodeTag,
+  FeedbackTagRegistry,
+  defaultTagRegistry,
+  FEEDBACK_TAGS,
+  FEEDBACK_TAG_DESCRIPTIONS,
+  type StandardFeedbackTag
+} from './FeedbackTags';
+export {
+  scoreReputation,
+  buildFeedbackSamples,
+  timeDecay,
+  clientReputationWeight,
+  paymentVolumeWeight,
+  onePerClient,
+  type FeedbackSample,
+  type ScoringContext,
+  type WeightingStrategy,
+  type ScoringOptions,
+  type ScoreEstimate,
+  type ScoredSample,
+  type ReputationScore
+} from './ReputationScoring';
 
 // ============================================================================
 // Storage Backends
@@ -64,6 +291,9 @@ export {
   ContractError,
   ConfigurationError,
   IntegrityVerificationError,
+  AgentTransferError,
+  UriResolutionError,
+  type UriResolutionFailure,
   // WalletError, // Not defined yet
   // NetworkError, // Not defined yet
 } from './exceptions';
@@ -75,13 +305,20 @@ export type {
   // Core Config
   ChaosChainSDKConfig,
   WalletConfig,
+  LogQueryConfig,
   
   // Agent Types
   AgentMetadata,
   AgentRegistration,
+  MetadataEntry,
+  MetadataHistoryEntry,
+  RegisterIdentityOptions,
+  EnsureRegisteredOptions,
+  EnsureRegisteredResult,
   
   // Feedback & Reputation
   FeedbackParams,
+  FeedbackFileOptions,
   FeedbackRecord,
   
   // Validation
@@ -100,6 +337,8 @@ export type {
   
   // Compute
   ComputeProvider,
+  ComputeJobProvider,
+  ComputeJobResult,
   
   // Network
   ContractAddresses,
@@ -107,6 +346,7 @@ export type {
   // Process Integrity
   IntegrityProof,
   TEEAttestation,
+  CodeProvenanceReference,
   
   // Transaction
   TransactionResult,
@@ -140,6 +380,13 @@ export {
   // SUPPORTED_NETWORKS // Not exported from networks.ts
 } from './utils/networks';
 
+export {
+  MetadataCodecs,
+  METADATA_KEYS,
+  metadataEntry,
+  type MetadataCodec
+} from './utils/metadata';
+
 export {
   IDENTITY_REGISTRY_ABI,
   REPUTATION_REGISTRY_ABI,
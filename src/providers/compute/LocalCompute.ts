@@ -0,0 +1,326 @@
+/**
+ * Local worker-thread compute provider
+ *
+ * Runs registered functions in worker threads with heap limits and an
+ * execution timeout, and signs an execution receipt for every job. It
+ * implements the same job-based interface as 0G Compute, so the full
+ * TEE-attestation path of ProcessIntegrity can be exercised without remote
+ * infrastructure. Receipts are signed by a local key, not by enclave hardware.
+ *
+ * This is not a sandbox: the worker has full Node.js access (require, the
+ * file system, the network). Only wall-clock time and heap size are limited,
+ * so only run trusted code.
+ *
+ * Functions are shipped to the worker as source code: they must be
+ * self-contained (no closures over outer variables) and receive their inputs
+ * as a single structured-cloneable argument.
+ */
+
+import { Worker } from 'worker_threads';
+import { createHash } from 'crypto';
+import { ethers } from 'ethers';
+import { ComputeJobProvider, ComputeJobResult, ComputeProvider } from '../../types';
+import { ValidationError } from '../../exceptions';
+import { canonicalHash, canonicalKeccak256 } from '../../utils/canonical';
+
+export interface LocalComputeConfig {
+  /** Key that signs execution receipts (a random key is generated by default) */
+  signer?: ethers.Signer;
+  /**
+   * Terminate a job's worker after this many milliseconds, runaway loops
+   * included (default 30000)
+   */
+  timeoutMs?: number;
+  /** Worker old-generation heap limit in MB (default 64) */
+  maxOldGenerationSizeMb?: number;
+  /** Worker young-generation heap limit in MB (default 16) */
+  maxYoungGenerationSizeMb?: number;
+}
+
+export interface LocalExecutionReceipt {
+  type: 'chaoschain_local_execution_receipt_v1';
+  job_id: string;
+  function_name: string;
+  code_hash: string;
+  inputs_hash: string;
+  output_hash: string;
+  execution_hash: string;
+  started_at: string;
+  completed_at: string;
+  duration_ms: number;
+  limits: {
+    timeout_ms: number;
+    max_old_generation_mb: number;
+    max_young_generation_mb: number;
+  };
+  signer: string;
+  signature: string;
+}
+
+type JobState = 'running' | 'completed' | 'failed';
+
+interface LocalComputeJob {
+  id: string;
+  functionName: string;
+  state: JobState;
+  startedAt: Date;
+  output?: unknown;
+  error?: string;
+  receipt?: LocalExecutionReceipt;
+  done: Promise<void>;
+}
+
+/** Worker entry point: evaluates the function source and runs it once */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+(async () => {
+  try {
+    const fn = (0, eval)('(' + workerData.source + ')');
+    const output = await fn(workerData.inputs);
+    parentPort.postMessage({ ok: true, output });
+  } catch (e) {
+    parentPort.postMessage({ ok: false, error: String((e && e.stack) || e) });
+  }
+})();
+`;
+
+/**
+ * Receipt fields covered by the signature
+ */
+function unsignedReceipt({
+  signature: _signature,
+  ...unsigned
+}: LocalExecutionReceipt): Omit<LocalExecutionReceipt, 'signature'> {
+  return unsigned;
+}
+
+/**
+ * Check that a receipt was signed by the signer it names
+ */
+export function verifyLocalExecutionReceipt(receipt: LocalExecutionReceipt): boolean {
+  try {
+    const digest = canonicalKeccak256(unsignedReceipt(receipt));
+    const recovered = ethers.verifyMessage(ethers.getBytes(digest), receipt.signature);
+    return recovered.toLowerCase() === receipt.signer.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Compute provider that executes registered functions in separate worker threads.
+ */
+export class LocalComputeProvider implements ComputeProvider, ComputeJobProvider {
+  readonly name = 'local';
+  private signer: ethers.Signer;
+  private limits: Required<Omit<LocalComputeConfig, 'signer'>>;
+  private functions: Map<string, { source: string; codeHash: string }> = new Map();
+  private jobs: Map<string, LocalComputeJob> = new Map();
+
+  constructor(config: LocalComputeConfig = {}) {
+    this.signer = config.signer ?? ethers.Wallet.createRandom();
+    this.limits = {
+      timeoutMs: config.timeoutMs ?? 30000,
+      maxOldGenerationSizeMb: config.maxOldGenerationSizeMb ?? 64,
+      maxYoungGenerationSizeMb: config.maxYoungGenerationSizeMb ?? 16,
+    };
+  }
+
+  /**
+   * Register a function that jobs can run by name.
+   */
+  registerFunction<I>(func: (inputs: I) => unknown, functionName?: string): string {
+    const name = functionName || func.name;
+    const source = func.toString();
+    if (!name) {
+      throw new ValidationError('Function name is required for anonymous functions');
+    }
+    if (!/^(async\s+)?(function\b|\(|[\w$]+\s*=>)/.test(source)) {
+      throw new ValidationError(`Function ${name} cannot be serialized to a worker`, {
+        hint: 'Use a function expression or arrow function, not a method shorthand',
+      });
+    }
+
+    // Same code hash as ProcessIntegrity.registerFunction
+    const codeHash = createHash('sha256').update(source).digest('hex');
+    this.functions.set(name, { source, codeHash });
+    return codeHash;
+  }
+
+  /**
+   * Start a job. `task.function` names a registered function and
+   * `task.inputs` is passed to it.
+   */
+  async submit(task: { function: string; inputs?: Record<string, unknown> }): Promise<string> {
+    const func = this.functions.get(task.function);
+    if (!func) {
+      throw new ValidationError(`Function not registered with local compute: ${task.function}`);
+    }
+
+    const id = `local_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
+    const inputs = task.inputs ?? {};
+    const job: LocalComputeJob = {
+      id,
+      functionName: task.function,
+      state: 'running',
+      startedAt: new Date(),
+      done: Promise.resolve(),
+    };
+    job.done = this.run(job, func.source, inputs)
+      .then((output) => this.complete(job, func.codeHash, inputs, output))
+      .catch((e) => {
+        job.state = 'failed';
+        job.error = e instanceof Error ? e.message : String(e);
+      });
+    this.jobs.set(id, job);
+    return id;
+  }
+
+  async status(jobId: string): Promise<{ state: string; [key: string]: unknown }> {
+    const job = this.getJob(jobId);
+    return { state: job.state, function: job.functionName, error: job.error };
+  }
+
+  async result(jobId: string): Promise<ComputeJobResult> {
+    const job = this.getJob(jobId);
+    if (job.state !== 'completed' || !job.receipt) {
+      return {
+        success: false,
+        execution_hash: '',
+        verification_method: { value: 'local-worker' },
+        error: job.error ?? `Job ${jobId} is ${job.state}`,
+      };
+    }
+
+    return {
+      success: true,
+      execution_hash: job.receipt.execution_hash,
+      verification_method: { value: 'local-worker' },
+      output: job.output,
+      proof: Buffer.from(ethers.getBytes(job.receipt.signature)),
+      metadata: { duration_ms: job.receipt.duration_ms, signer: job.receipt.signer },
+    };
+  }
+
+  /**
+   * Signed execution receipt of a completed job
+   */
+  async attestation(jobId: string): Promise<LocalExecutionReceipt> {
+    const job = this.getJob(jobId);
+    if (!job.receipt) {
+      throw new ValidationError(`No receipt for job ${jobId} (${job.state})`);
+    }
+    return job.receipt;
+  }
+
+  /**
+   * Wait for a job to finish
+   */
+  async wait(jobId: string): Promise<void> {
+    await this.getJob(jobId).done;
+  }
+
+  /**
+   * Run a registered function by name and return its output
+   */
+  async inference(model: string, input: unknown): Promise<unknown> {
+    const jobId = await this.submit({ function: model, inputs: input as Record<string, unknown> });
+    await this.wait(jobId);
+    const result = await this.result(jobId);
+    if (!result.success) {
+      throw new Error(`Local compute job failed: ${result.error}`);
+    }
+    return result.output;
+  }
+
+  async getModels(): Promise<string[]> {
+    return [...this.functions.keys()];
+  }
+
+  private getJob(jobId: string): LocalComputeJob {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      throw new ValidationError(`Unknown local compute job: ${jobId}`);
+    }
+    return job;
+  }
+
+  /**
+   * Execute the function source in a fresh worker. The worker gets an empty
+   * environment so the parent's secrets are not visible to it.
+   */
+  private run(job: LocalComputeJob, source: string, inputs: unknown): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(WORKER_SOURCE, {
+        eval: true,
+        workerData: { source, inputs },
+        env: {},
+        resourceLimits: {
+          maxOldGenerationSizeMb: this.limits.maxOldGenerationSizeMb,
+          maxYoungGenerationSizeMb: this.limits.maxYoungGenerationSizeMb,
+        },
+      });
+
+      let settled = false;
+      const finish = (error: Error | null, output?: unknown) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(watchdog);
+        void worker.terminate();
+        if (error) reject(error);
+        else resolve(output);
+      };
+
+      const watchdog = setTimeout(() => {
+        finish(new Error(`Job ${job.id} exceeded ${this.limits.timeoutMs}ms time limit`));
+      }, this.limits.timeoutMs);
+
+      worker.on('message', (message: { ok: boolean; output?: unknown; error?: string }) => {
+        finish(message.ok ? null : new Error(message.error), message.output);
+      });
+      worker.on('error', (e) => finish(e));
+      worker.on('exit', (code) => {
+        finish(new Error(`Worker exited with code ${code} before returning a result`));
+      });
+    });
+  }
+
+  private async complete(
+    job: LocalComputeJob,
+    codeHash: string,
+    inputs: unknown,
+    output: unknown
+  ): Promise<void> {
+    const completedAt = new Date();
+    const inputsHash = canonicalHash(inputs);
+    const outputHash = canonicalHash(output === undefined ? null : output);
+    const unsigned: Omit<LocalExecutionReceipt, 'signature'> = {
+      type: 'chaoschain_local_execution_receipt_v1',
+      job_id: job.id,
+      function_name: job.functionName,
+      code_hash: codeHash,
+      inputs_hash: inputsHash,
+      output_hash: outputHash,
+      execution_hash: canonicalHash({
+        job_id: job.id,
+        code_hash: codeHash,
+        inputs_hash: inputsHash,
+        output_hash: outputHash,
+      }),
+      started_at: job.startedAt.toISOString(),
+      completed_at: completedAt.toISOString(),
+      duration_ms: completedAt.getTime() - job.startedAt.getTime(),
+      limits: {
+        timeout_ms: this.limits.timeoutMs,
+        max_old_generation_mb: this.limits.maxOldGenerationSizeMb,
+        max_young_generation_mb: this.limits.maxYoungGenerationSizeMb,
+      },
+      signer: await this.signer.getAddress(),
+    };
+    const signature = await this.signer.signMessage(ethers.getBytes(canonicalKeccak256(unsigned)));
+
+    job.output = output;
+    job.receipt = { ...unsigned, signature };
+    job.state = 'completed';
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * HTTP fetch with a timeout, a response size limit and typed failures
+ */
+
+import { UriResolutionError } from '../exceptions';
+
+export interface BoundedFetchOptions {
+  fetch: typeof fetch;
+  timeoutMs: number;
+  maxBytes: number;
+  headers?: Record<string, string>;
+  /** Cancels the request (e.g. when another gateway won the race) */
+  signal?: AbortSignal;
+}
+
+export interface FetchedContent {
+  url: string;
+  bytes: Uint8Array;
+  contentType: string | null;
+}
+
+/**
+ * GET a URL and read at most `maxBytes` of its body
+ */
+export async function fetchBounded(
+  url: string,
+  options: BoundedFetchOptions
+): Promise<FetchedContent> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, options.timeoutMs);
+  const cancel = () => controller.abort();
+  options.signal?.addEventListener('abort', cancel);
+
+  try {
+    let response: Response;
+    try {
+      response = await options.fetch(url, { headers: options.headers, signal: controller.signal });
+    } catch (e) {
+      throw failure(url, e, timedOut, options.timeoutMs);
+    }
+
+    if (!response.ok) {
+      throw new UriResolutionError(`GET ${url} returned HTTP ${response.status}`, 'http_error', {
+        url,
+        status: response.status,
+      });
+    }
+
+    const declared = Number(response.headers.get('content-length'));
+    if (declared > options.maxBytes) {
+      throw tooLarge(url, options.maxBytes, declared);
+    }
+
+    try {
+      const bytes = await readBody(response, url, options.maxBytes);
+      return { url, bytes, contentType: response.headers.get('content-type') };
+    } catch (e) {
+      if (e instanceof UriResolutionError) throw e;
+      throw failure(url, e, timedOut, options.timeoutMs);
+    }
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', cancel);
+  }
+}
+
+async function readBody(response: Response, url: string, maxBytes: number): Promise<Uint8Array> {
+  if (!response.body) {
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    if (bytes.length > maxBytes) throw tooLarge(url, maxBytes);
+    return bytes;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw tooLarge(url, maxBytes);
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+function tooLarge(url: string, maxBytes: number, size?: number): UriResolutionError {
+  return new UriResolutionError(`Response from ${url} exceeds ${maxBytes} bytes`, 'too_large', {
+    url,
+    maxBytes,
+    size,
+  });
+}
+
+function failure(url: string, e: unknown, timedOut: boolean, timeoutMs: number) {
+  if (timedOut) {
+    return new UriResolutionError(`GET ${url} timed out after ${timeoutMs}ms`, 'timeout', {
+      url,
+    });
+  }
+  return new UriResolutionError(`GET ${url} failed: ${e}`, 'network_error', { url });
+}
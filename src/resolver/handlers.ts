@@ -0,0 +1,203 @@
+/**
+ * Built-in scheme handlers: data:, ipfs://, ar://, 0g:// and http(s)://
+ */
+
+import { UriResolutionError } from '../exceptions';
+import { FetchedContent } from './fetch';
+import {
+  ParsedCid,
+  assembleFile,
+  formatCid,
+  parseCid,
+  verifyBlock,
+  verifySingleBlockFile,
+} from './ipfs';
+
+/**
+ * Content a URI resolved to
+ */
+export interface ResolvedUri {
+  uri: string;
+  bytes: Uint8Array;
+  contentType: string | null;
+  /** URL the content was served from (the URI itself for data: URIs) */
+  source: string;
+  /** Whether the bytes were checked against a content hash in the URI */
+  verified: boolean;
+}
+
+/**
+ * Services the resolver provides to scheme handlers
+ */
+export interface UriResolverContext {
+  /** Configured gateways for a scheme (without trailing slash) */
+  gateways(scheme: string): string[];
+  /** Fetch a URL with the resolver's timeout and size limit */
+  fetch(
+    url: string,
+    headers?: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<FetchedContent>;
+  /**
+   * Try `attempt` against the sources, a few concurrently at a time, and
+   * return the first success; the losers are aborted
+   */
+  race<T>(
+    sources: string[],
+    attempt: (source: string, signal: AbortSignal) => Promise<T>
+  ): Promise<T>;
+  maxBytes: number;
+}
+
+export interface UriSchemeHandler {
+  /** URI scheme without the colon, e.g. 'ipfs' */
+  scheme: string;
+  resolve(uri: string, context: UriResolverContext): Promise<ResolvedUri>;
+}
+
+function invalidUri(uri: string, message: string): UriResolutionError {
+  return new UriResolutionError(`Invalid URI ${uri}: ${message}`, 'invalid_uri', { uri });
+}
+
+/**
+ * Inline `data:` URIs (base64 or percent-encoded)
+ */
+export const dataHandler: UriSchemeHandler = {
+  scheme: 'data',
+  async resolve(uri, context) {
+    const match = uri.match(/^data:([^,]*),/i);
+    if (!match) throw invalidUri(uri, 'missing comma');
+
+    const params = match[1].split(';');
+    const payload = uri.slice(match[0].length);
+    let bytes: Uint8Array;
+    if (params.includes('base64')) {
+      bytes = Buffer.from(payload, 'base64');
+    } else {
+      try {
+        bytes = Buffer.from(decodeURIComponent(payload), 'utf8');
+      } catch {
+        // Unescaped JSON written by earlier SDK versions
+        bytes = Buffer.from(payload, 'utf8');
+      }
+    }
+    if (bytes.length > context.maxBytes) {
+      throw new UriResolutionError(`data: URI exceeds ${context.maxBytes} bytes`, 'too_large', {
+        uri: uri.slice(0, 64),
+      });
+    }
+
+    return {
+      uri,
+      bytes,
+      contentType: params[0] || 'text/plain',
+      source: 'data:',
+      verified: false,
+    };
+  },
+};
+
+/**
+ * `ipfs://<cid>[/path]`. Bare CIDs are verified block by block; paths inside
+ * a directory are fetched as-is and reported unverified.
+ */
+export const ipfsHandler: UriSchemeHandler = {
+  scheme: 'ipfs',
+  async resolve(uri, context) {
+    const [cidString, ...path] = uri
+      .slice('ipfs://'.length)
+      .replace(/^ipfs\//, '')
+      .split('/');
+    if (!cidString) throw invalidUri(uri, 'missing CID');
+    const cid = parseCid(cidString);
+    const subPath = path.filter(Boolean).join('/');
+
+    return context.race(context.gateways('ipfs'), async (gateway, signal) => {
+      if (subPath) {
+        const fetched = await context.fetch(
+          `${gateway}/ipfs/${cidString}/${subPath}`,
+          undefined,
+          signal
+        );
+        return { uri, ...fetched, source: fetched.url, verified: false };
+      }
+
+      const fetchBlock = async (block: ParsedCid) =>
+        (
+          await context.fetch(
+            `${gateway}/ipfs/${formatCid(block)}?format=raw`,
+            { Accept: 'application/vnd.ipld.raw' },
+            signal
+          )
+        ).bytes;
+
+      const url = `${gateway}/ipfs/${cidString}?format=raw`;
+      const fetched = await context.fetch(url, { Accept: 'application/vnd.ipld.raw' }, signal);
+      let bytes: Uint8Array;
+      if (verifyBlock(cid, fetched.bytes)) {
+        bytes = await assembleFile(cid, fetched.bytes, fetchBlock, context.maxBytes);
+      } else if (verifySingleBlockFile(cid, fetched.bytes)) {
+        // Gateway ignored the raw-block request and served the file itself
+        bytes = fetched.bytes;
+      } else {
+        throw new UriResolutionError(
+          `Content from ${gateway} does not match CID ${cidString}`,
+          'content_mismatch',
+          { uri, gateway }
+        );
+      }
+
+      const isRawBlock = fetched.contentType?.includes('vnd.ipld.raw');
+      return {
+        uri,
+        bytes,
+        contentType: isRawBlock ? null : fetched.contentType,
+        source: url,
+        verified: true,
+      };
+    });
+  },
+};
+
+/**
+ * Content addressed by an identifier the gateway serves at `<gateway>/<id>`
+ * without a hash the resolver can check (Arweave transaction IDs, 0G root
+ * hashes)
+ */
+function gatewayHandler(scheme: string, buildUrl: (gateway: string, id: string) => string) {
+  const handler: UriSchemeHandler = {
+    scheme,
+    async resolve(uri, context) {
+      const id = uri.slice(`${scheme}://`.length).replace(/\/+$/, '');
+      if (!id) throw invalidUri(uri, `missing ${scheme} identifier`);
+
+      return context.race(context.gateways(scheme), async (gateway, signal) => {
+        const fetched = await context.fetch(buildUrl(gateway, id), undefined, signal);
+        return { uri, ...fetched, source: fetched.url, verified: false };
+      });
+    },
+  };
+  return handler;
+}
+
+/** `ar://<transaction id>` */
+export const arweaveHandler = gatewayHandler('ar', (gateway, id) => `${gateway}/${id}`);
+
+/** `0g://<root hash>` via 0G storage indexer gateways */
+export const zeroGHandler = gatewayHandler(
+  '0g',
+  (gateway, id) => `${gateway}/file?root=${encodeURIComponent(id)}`
+);
+
+function webHandler(scheme: 'http' | 'https'): UriSchemeHandler {
+  return {
+    scheme,
+    async resolve(uri, context) {
+      const fetched = await context.fetch(uri);
+      return { uri, ...fetched, source: fetched.url, verified: false };
+    },
+  };
+}
+
+export const httpsHandler = webHandler('https');
+export const httpHandler = webHandler('http');
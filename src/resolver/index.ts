@@ -0,0 +1,197 @@
+/**
+ * Token URI resolution
+ *
+ * Resolves agent token URIs (and any other content URI) through pluggable
+ * scheme handlers. Gateways are raced a few at a time with fallback to the
+ * rest, responses are bounded by a timeout and a size limit, IPFS content is
+ * verified against its CID, and every failure is a UriResolutionError whose
+ * `reason` says why.
+ */
+
+import { UriResolutionError, UriResolutionFailure } from '../exceptions';
+import { fetchBounded } from './fetch';
+import {
+  ResolvedUri,
+  UriResolverContext,
+  UriSchemeHandler,
+  arweaveHandler,
+  dataHandler,
+  httpHandler,
+  httpsHandler,
+  ipfsHandler,
+  zeroGHandler,
+} from './handlers';
+
+export * from './handlers';
+export { fetchBounded, type FetchedContent } from './fetch';
+export { parseCid, formatCid, verifyBlock, type ParsedCid } from './ipfs';
+
+export interface UriResolverConfig {
+  /** IPFS gateways, tried in order (default ipfs.io, dweb.link, w3s.link) */
+  ipfsGateways?: string[];
+  /** Arweave gateways (default arweave.net) */
+  arweaveGateways?: string[];
+  /** 0G storage indexer gateways (default 0G testnet turbo indexer) */
+  zeroGGateways?: string[];
+  /** Number of gateways raced concurrently before falling back (default 2) */
+  raceSize?: number;
+  /** Per-request timeout in milliseconds (default 10000) */
+  timeoutMs?: number;
+  /** Maximum content size in bytes (default 5 MiB) */
+  maxBytes?: number;
+  /** fetch implementation (default globalThis.fetch) */
+  fetch?: typeof fetch;
+  /** Additional or replacement scheme handlers */
+  handlers?: UriSchemeHandler[];
+}
+
+const DEFAULT_GATEWAYS: Record<string, string[]> = {
+  ipfs: ['https://ipfs.io', 'https://dweb.link', 'https://w3s.link'],
+  ar: ['https://arweave.net'],
+  '0g': ['https://indexer-storage-testnet-turbo.0g.ai'],
+};
+
+/**
+ * Resolves URIs to verified content through scheme handlers.
+ */
+export class UriResolver {
+  private handlers: Map<string, UriSchemeHandler> = new Map();
+  private gateways: Record<string, string[]>;
+  private raceSize: number;
+  private timeoutMs: number;
+  private maxBytes: number;
+  private fetchImpl: typeof fetch;
+
+  constructor(config: UriResolverConfig = {}) {
+    const trim = (urls: string[]) => urls.map((url) => url.replace(/\/+$/, ''));
+    this.gateways = {
+      ipfs: trim(config.ipfsGateways ?? DEFAULT_GATEWAYS.ipfs),
+      ar: trim(config.arweaveGateways ?? DEFAULT_GATEWAYS.ar),
+      '0g': trim(config.zeroGGateways ?? DEFAULT_GATEWAYS['0g']),
+    };
+    this.raceSize = Math.max(1, config.raceSize ?? 2);
+    this.timeoutMs = config.timeoutMs ?? 10000;
+    this.maxBytes = config.maxBytes ?? 5 * 1024 * 1024;
+    this.fetchImpl = config.fetch ?? globalThis.fetch;
+
+    [
+      dataHandler,
+      ipfsHandler,
+      arweaveHandler,
+      zeroGHandler,
+      httpsHandler,
+      httpHandler,
+      ...(config.handlers ?? []),
+    ].forEach((handler) => this.registerHandler(handler));
+  }
+
+  /**
+   * Add a scheme handler, replacing any handler for the same scheme
+   */
+  registerHandler(handler: UriSchemeHandler): void {
+    this.handlers.set(handler.scheme.toLowerCase(), handler);
+  }
+
+  getSupportedSchemes(): string[] {
+    return [...this.handlers.keys()];
+  }
+
+  /**
+   * Resolve a URI to its content
+   */
+  async resolve(uri: string): Promise<ResolvedUri> {
+    const scheme = uri.match(/^([a-z][a-z0-9+.-]*):/i)?.[1]?.toLowerCase();
+    if (!scheme) {
+      throw new UriResolutionError(`Invalid URI: ${uri.slice(0, 64)}`, 'invalid_uri', { uri });
+    }
+    const handler = this.handlers.get(scheme);
+    if (!handler) {
+      throw new UriResolutionError(`No handler for ${scheme}: URIs`, 'unsupported_scheme', {
+        uri,
+        scheme,
+      });
+    }
+    return handler.resolve(uri, this.createContext());
+  }
+
+  /**
+   * Resolve a URI and parse its content as JSON
+   */
+  async resolveJson<T = unknown>(uri: string): Promise<T> {
+    const resolved = await this.resolve(uri);
+    try {
+      return JSON.parse(Buffer.from(resolved.bytes).toString('utf8'));
+    } catch (e) {
+      throw new UriResolutionError(`Content of ${uri} is not valid JSON: ${e}`, 'invalid_content', {
+        uri,
+        source: resolved.source,
+      });
+    }
+  }
+
+  private createContext(): UriResolverContext {
+    return {
+      gateways: (scheme) => this.gateways[scheme] ?? [],
+      fetch: (url: string, headers?: Record<string, string>, signal?: AbortSignal) =>
+        fetchBounded(url, {
+          fetch: this.fetchImpl,
+          timeoutMs: this.timeoutMs,
+          maxBytes: this.maxBytes,
+          headers,
+          signal,
+        }),
+      race: (sources, attempt) => this.race(sources, attempt),
+      maxBytes: this.maxBytes,
+    };
+  }
+
+  /**
+   * Race sources in groups of `raceSize`, falling back to the next group when
+   * every source in a group fails
+   */
+  private async race<T>(
+    sources: string[],
+    attempt: (source: string, signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    if (sources.length === 0) {
+      throw new UriResolutionError('No gateways configured', 'all_sources_failed', {
+        attempts: [],
+      });
+    }
+
+    const failures: { source: string; reason: UriResolutionFailure; message: string }[] = [];
+    for (let i = 0; i < sources.length; i += this.raceSize) {
+      const group = sources.slice(i, i + this.raceSize);
+      const controllers = group.map(() => new AbortController());
+      try {
+        return await Promise.any(
+          group.map((source, index) =>
+            attempt(source, controllers[index].signal).catch((e) => {
+              failures.push({
+                source,
+                reason: e instanceof UriResolutionError ? e.reason : 'network_error',
+                message: e instanceof Error ? e.message : String(e),
+              });
+              throw e;
+            })
+          )
+        );
+      } catch {
+        // Every source in the group failed; fall back to the next group
+      } finally {
+        controllers.forEach((controller) => controller.abort());
+      }
+    }
+
+    // Report the shared reason when all sources failed the same way
+    const reasons = new Set(failures.map((f) => f.reason));
+    const reason = reasons.size === 1 ? [...reasons][0] : 'all_sources_failed';
+    throw new UriResolutionError(
+      `All ${sources.length} sources failed: ${failures
+        .map((f) => `${f.source} (${f.reason})`)
+        .join(', ')}`,
+      reason,
+      { attempts: failures }
+    );
+  }
+}
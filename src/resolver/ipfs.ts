@@ -0,0 +1,330 @@
+/**
+ * Verified IPFS retrieval
+ *
+ * Content is fetched from gateways as raw blocks (trustless gateway
+ * protocol, `?format=raw`) and every block is hashed against the CID that
+ * names it, so a gateway cannot substitute content. UnixFS files spread over
+ * several dag-pb blocks are reassembled from their verified leaves. Gateways
+ * that ignore the raw-block request and return the file itself are still
+ * accepted when the file is small enough to be a single block whose CID can
+ * be recomputed (raw leaves or a single dag-pb UnixFS node).
+ */
+
+import { createHash } from 'crypto';
+import { ethers } from 'ethers';
+import { UriResolutionError } from '../exceptions';
+
+export const CODEC_RAW = 0x55;
+export const CODEC_DAG_PB = 0x70;
+const MULTIHASH_IDENTITY = 0x00;
+const MULTIHASH_SHA2_256 = 0x12;
+
+const UNIXFS_RAW = 0;
+const UNIXFS_FILE = 2;
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+export interface ParsedCid {
+  version: 0 | 1;
+  codec: number;
+  multihash: { code: number; digest: Uint8Array };
+  bytes: Uint8Array;
+}
+
+interface DagPbLink {
+  cid: Uint8Array;
+}
+
+/**
+ * Parse a CIDv0 (base58btc `Qm...`) or CIDv1 (base32 `b...`, base58btc
+ * `z...` or base16 `f...`)
+ */
+export function parseCid(cid: string): ParsedCid {
+  try {
+    if (/^Qm[1-9A-HJ-NP-Za-km-z]{44}$/.test(cid)) {
+      const bytes = ethers.getBytes(ethers.toBeHex(ethers.decodeBase58(cid), 34));
+      return { version: 0, codec: CODEC_DAG_PB, multihash: readMultihash(bytes, 0), bytes };
+    }
+
+    return parseCidBytes(decodeMultibase(cid));
+  } catch (e) {
+    throw new UriResolutionError(`Invalid CID ${cid}: ${(e as Error).message}`, 'invalid_uri', {
+      cid,
+    });
+  }
+}
+
+function decodeMultibase(value: string): Uint8Array {
+  const payload = value.slice(1);
+  switch (value[0]) {
+    case 'b':
+      return decodeBase32(payload);
+    case 'B':
+      return decodeBase32(payload.toLowerCase());
+    case 'z':
+      return ethers.getBytes(ethers.toBeHex(ethers.decodeBase58(payload)));
+    case 'f':
+      return ethers.getBytes(`0x${payload}`);
+    default:
+      throw new Error(`unsupported multibase prefix '${value[0]}'`);
+  }
+}
+
+/**
+ * Parse a binary CID (as found in dag-pb links)
+ */
+export function parseCidBytes(bytes: Uint8Array): ParsedCid {
+  if (bytes[0] === MULTIHASH_SHA2_256 && bytes[1] === 32 && bytes.length === 34) {
+    return { version: 0, codec: CODEC_DAG_PB, multihash: readMultihash(bytes, 0), bytes };
+  }
+
+  const [version, afterVersion] = readVarint(bytes, 0);
+  if (version !== 1) throw new Error(`unsupported CID version ${version}`);
+  const [codec, afterCodec] = readVarint(bytes, afterVersion);
+  return { version: 1, codec, multihash: readMultihash(bytes, afterCodec), bytes };
+}
+
+/**
+ * String form of a CID: base58btc for v0, base32 for v1
+ */
+export function formatCid(cid: ParsedCid): string {
+  return cid.version === 0 ? ethers.encodeBase58(cid.bytes) : `b${encodeBase32(cid.bytes)}`;
+}
+
+/**
+ * Whether `block` hashes to the multihash in `cid`
+ */
+export function verifyBlock(cid: ParsedCid, block: Uint8Array): boolean {
+  const { code, digest } = cid.multihash;
+  if (code === MULTIHASH_IDENTITY) {
+    return Buffer.from(block).equals(Buffer.from(digest));
+  }
+  if (code === MULTIHASH_SHA2_256) {
+    return createHash('sha256').update(block).digest().equals(Buffer.from(digest));
+  }
+  throw new UriResolutionError(
+    `Unsupported multihash 0x${code.toString(16)} in ${formatCid(cid)}`,
+    'invalid_uri'
+  );
+}
+
+/**
+ * Whether `content` is the whole file named by a single-block CID
+ */
+export function verifySingleBlockFile(cid: ParsedCid, content: Uint8Array): boolean {
+  if (cid.codec === CODEC_RAW) return verifyBlock(cid, content);
+  if (cid.codec === CODEC_DAG_PB) return verifyBlock(cid, encodeSingleBlockFile(content));
+  return false;
+}
+
+/**
+ * Reassemble a file from its verified root block, fetching and verifying
+ * child blocks as needed
+ */
+export async function assembleFile(
+  cid: ParsedCid,
+  block: Uint8Array,
+  fetchBlock: (cid: ParsedCid) => Promise<Uint8Array>,
+  maxBytes: number
+): Promise<Uint8Array> {
+  const parts: Uint8Array[] = [];
+  let total = 0;
+
+  const visit = async (node: ParsedCid, data: Uint8Array, depth: number): Promise<void> => {
+    if (depth > 32) {
+      throw new UriResolutionError('UnixFS DAG is too deep', 'invalid_content');
+    }
+    if (node.codec === CODEC_RAW) {
+      push(data);
+      return;
+    }
+    if (node.codec !== CODEC_DAG_PB) {
+      throw new UriResolutionError(
+        `Unsupported IPLD codec 0x${node.codec.toString(16)}`,
+        'invalid_content'
+      );
+    }
+
+    const { pb, unixfs } = decodeFileNode(data);
+    if (unixfs.type !== UNIXFS_FILE && unixfs.type !== UNIXFS_RAW) {
+      throw new UriResolutionError(
+        `CID ${formatCid(node)} is not a file (UnixFS type ${unixfs.type})`,
+        'invalid_content'
+      );
+    }
+    if (unixfs.data) push(unixfs.data);
+
+    for (const link of pb.links) {
+      const child = decodeStructure(() => parseCidBytes(link.cid));
+      const childBlock = await fetchBlock(child);
+      if (!verifyBlock(child, childBlock)) {
+        throw new UriResolutionError(
+          `Block ${formatCid(child)} does not match its CID`,
+          'content_mismatch'
+        );
+      }
+      await visit(child, childBlock, depth + 1);
+    }
+  };
+
+  const push = (data: Uint8Array) => {
+    total += data.length;
+    if (total > maxBytes) {
+      throw new UriResolutionError(`File exceeds ${maxBytes} bytes`, 'too_large', { maxBytes });
+    }
+    parts.push(data);
+  };
+
+  await visit(cid, block, 0);
+  return Buffer.concat(parts);
+}
+
+function decodeFileNode(block: Uint8Array) {
+  return decodeStructure(() => {
+    const pb = decodeDagPb(block);
+    return { pb, unixfs: decodeUnixFs(pb.data ?? new Uint8Array()) };
+  });
+}
+
+/**
+ * Report malformed blocks as invalid content
+ */
+function decodeStructure<T>(decode: () => T): T {
+  try {
+    return decode();
+  } catch (e) {
+    if (e instanceof UriResolutionError) throw e;
+    throw new UriResolutionError(
+      `Malformed IPFS block: ${(e as Error).message}`,
+      'invalid_content'
+    );
+  }
+}
+
+/**
+ * dag-pb node of a file that fits in one UnixFS chunk, as built by
+ * `ipfs add` without raw leaves
+ */
+function encodeSingleBlockFile(content: Uint8Array): Uint8Array {
+  const fields: Uint8Array[] = [Uint8Array.from([0x08, UNIXFS_FILE])];
+  if (content.length > 0) {
+    fields.push(Uint8Array.from([0x12, ...encodeVarint(content.length)]), content);
+  }
+  fields.push(Uint8Array.from([0x18, ...encodeVarint(content.length)]));
+  const unixfs = Buffer.concat(fields);
+  return Buffer.concat([Uint8Array.from([0x0a, ...encodeVarint(unixfs.length)]), unixfs]);
+}
+
+function decodeDagPb(block: Uint8Array): { data?: Uint8Array; links: DagPbLink[] } {
+  const links: DagPbLink[] = [];
+  let data: Uint8Array | undefined;
+  for (const field of readProtobuf(block)) {
+    if (field.number === 1 && field.bytes) data = field.bytes;
+    if (field.number === 2 && field.bytes) {
+      const hash = readProtobuf(field.bytes).find((f) => f.number === 1 && f.bytes);
+      if (!hash?.bytes) throw new Error('dag-pb link has no hash');
+      links.push({ cid: hash.bytes });
+    }
+  }
+  return { data, links };
+}
+
+function decodeUnixFs(data: Uint8Array): { type: number; data?: Uint8Array } {
+  let type = -1;
+  let content: Uint8Array | undefined;
+  for (const field of readProtobuf(data)) {
+    if (field.number === 1 && field.value !== undefined) type = field.value;
+    if (field.number === 2 && field.bytes) content = field.bytes;
+  }
+  return { type, data: content };
+}
+
+interface ProtobufField {
+  number: number;
+  value?: number;
+  bytes?: Uint8Array;
+}
+
+function readProtobuf(buffer: Uint8Array): ProtobufField[] {
+  const fields: ProtobufField[] = [];
+  let offset = 0;
+  while (offset < buffer.length) {
+    const [key, afterKey] = readVarint(buffer, offset);
+    const number = key >>> 3;
+    const wireType = key & 7;
+    if (wireType === 0) {
+      const [value, next] = readVarint(buffer, afterKey);
+      fields.push({ number, value });
+      offset = next;
+    } else if (wireType === 2) {
+      const [length, start] = readVarint(buffer, afterKey);
+      if (start + length > buffer.length) throw new Error('truncated protobuf field');
+      fields.push({ number, bytes: buffer.subarray(start, start + length) });
+      offset = start + length;
+    } else {
+      throw new Error(`unsupported protobuf wire type ${wireType}`);
+    }
+  }
+  return fields;
+}
+
+function readMultihash(bytes: Uint8Array, offset: number): { code: number; digest: Uint8Array } {
+  const [code, afterCode] = readVarint(bytes, offset);
+  const [length, start] = readVarint(bytes, afterCode);
+  if (start + length !== bytes.length) throw new Error('multihash length mismatch');
+  return { code, digest: bytes.subarray(start, start + length) };
+}
+
+function readVarint(bytes: Uint8Array, offset: number): [number, number] {
+  let value = 0;
+  let shift = 0;
+  for (let i = offset; i < bytes.length && shift < 49; i++) {
+    value += (bytes[i] & 0x7f) * 2 ** shift;
+    if ((bytes[i] & 0x80) === 0) return [value, i + 1];
+    shift += 7;
+  }
+  throw new Error('malformed varint');
+}
+
+function encodeVarint(value: number): number[] {
+  const out: number[] = [];
+  while (value >= 0x80) {
+    out.push(value % 0x80 | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  out.push(value);
+  return out;
+}
+
+function decodeBase32(input: string): Uint8Array {
+  const out: number[] = [];
+  let bits = 0;
+  let buffer = 0;
+  for (const char of input) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index < 0) throw new Error(`invalid base32 character '${char}'`);
+    buffer = (buffer << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      out.push((buffer >> bits) & 0xff);
+    }
+  }
+  return Uint8Array.from(out);
+}
+
+function encodeBase32(bytes: Uint8Array): string {
+  let out = '';
+  let bits = 0;
+  let buffer = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      out += BASE32_ALPHABET[(buffer >> bits) & 31];
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  return out;
+}
@@ -4,6 +4,8 @@
  */
 
 import { ethers } from 'ethers';
+import type { UriResolverConfig } from './resolver';
+import type { FeedbackFileParams } from './FeedbackFile';
 
 // ============================================================================
 // Core Enums
@@ -44,6 +46,8 @@ export interface ContractAddresses {
   identity: string;
   reputation: string;
   validation: string;
+  /** Block the registries were deployed at, where known; registry log reads start here */
+  deploymentBlock?: number;
 }
 
 /**
@@ -78,6 +82,78 @@ export interface AgentMetadata {
   image?: string;
   contact?: string;
   supportedTrust?: string[];
+  codeProvenance?: CodeProvenanceReference[];
+}
+
+/**
+ * Options for ChaosChainSDK.registerIdentity
+ */
+export interface RegisterIdentityOptions {
+  /** Upload the registration file to the storage backend instead of inlining it */
+  upload?: boolean;
+}
+
+/**
+ * Options for ChaosChainSDK.ensureRegistered
+ */
+export interface EnsureRegisteredOptions extends RegisterIdentityOptions {
+  /** Desired metadata (default built from the SDK config) */
+  metadata?: AgentMetadata;
+  /** Entries stored in the registry when a new agent has to be registered */
+  onChainMetadata?: MetadataEntry[];
+  /** State file remembering the agent ID (default the SDK's agentStateFile) */
+  stateFile?: string;
+  /** First block searched for Transfer and Registered logs (default 0) */
+  fromBlock?: number;
+}
+
+/**
+ * Outcome of ChaosChainSDK.ensureRegistered
+ */
+export interface EnsureRegisteredResult {
+  agentId: bigint;
+  /**
+   * registered: newly minted; updated: token URI rewritten; unchanged: already
+   * current, or left untouched because the registration file could not be read
+   */
+  status: 'registered' | 'updated' | 'unchanged';
+  /** Where the agent ID came from */
+  source: 'state_file' | 'registry_logs' | 'registration';
+  tokenUri: string;
+  txHash?: string;
+}
+
+/**
+ * On-chain metadata entry (`value` is 0x-prefixed hex bytes), as passed to
+ * `register(string, (string,bytes)[])`
+ */
+export interface MetadataEntry {
+  key: string;
+  value: string;
+}
+
+/**
+ * A MetadataSet event for one key, decoded with a metadata codec
+ */
+export interface MetadataHistoryEntry<T = string> {
+  agentId: bigint;
+  key: string;
+  value: T;
+  rawValue: string;
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
+}
+
+/**
+ * Published SLSA provenance manifest of an integrity-checked function
+ */
+export interface CodeProvenanceReference {
+  function: string;
+  codeHash: string;
+  manifestUri: string;
+  /** SHA-256 of the canonical manifest bytes */
+  manifestHash: string;
 }
 
 /**
@@ -100,9 +176,23 @@ export interface FeedbackParams {
   agentId: bigint;
   rating: number;
   feedbackUri: string;
+  /** keccak256 of the feedback file bytes (default derived from feedbackData or the URI) */
+  feedbackHash?: string;
   feedbackData?: Record<string, unknown>;
 }
 
+/**
+ * Options for ChaosChainSDK.giveFeedbackWithFile
+ */
+export interface FeedbackFileOptions
+  extends Omit<
+    FeedbackFileParams,
+    'agentId' | 'chainId' | 'identityRegistry' | 'clientAddress' | 'score'
+  > {
+  /** Publish the file as a data: URI instead of uploading it to storage */
+  inline?: boolean;
+}
+
 /**
  * Feedback record
  */
@@ -239,6 +329,32 @@ export interface ComputeProvider {
   getModels(): Promise<string[]>;
 }
 
+/**
+ * Result of a completed compute job
+ */
+export interface ComputeJobResult {
+  success: boolean;
+  execution_hash: string;
+  verification_method: { value: string };
+  output?: unknown;
+  proof?: Buffer;
+  metadata?: unknown;
+  error?: string;
+}
+
+/**
+ * Job-based compute provider used for TEE-attested execution
+ * (0G Compute, LocalComputeProvider)
+ */
+export interface ComputeJobProvider {
+  /** Provider name recorded in TEE attestations */
+  readonly name?: string;
+  submit(task: Record<string, unknown>): Promise<string>;
+  status(jobId: string): Promise<{ state: string; [key: string]: unknown }>;
+  result(jobId: string): Promise<ComputeJobResult>;
+  attestation(jobId: string): Promise<unknown>;
+}
+
 // ============================================================================
 // Process Integrity Types
 // ============================================================================
@@ -289,8 +405,30 @@ export interface ChaosChainSDKConfig {
   enablePayments?: boolean;
   enableStorage?: boolean;
   storageProvider?: StorageProvider;
-  computeProvider?: ComputeProvider;
+  computeProvider?: ComputeProvider | ComputeJobProvider;
   walletFile?: string;
+  /** Gateways, limits and scheme handlers used to resolve token URIs */
+  uriResolver?: UriResolverConfig;
+  /** State file ensureRegistered persists agent IDs to (default .chaoschain/agents.json) */
+  agentStateFile?: string;
+  /** Ledger of issued feedback authorizations (default .chaoschain/feedback-auths.json) */
+  feedbackAuthLedgerFile?: string;
+  /** Block range registry event logs are read in */
+  logQuery?: LogQueryConfig;
+}
+
+/**
+ * How registry event logs are read. RPC providers cap the block span of an
+ * eth_getLogs request, so logs are read in consecutive ranges.
+ */
+export interface LogQueryConfig {
+  /**
+   * First block searched when a call does not name one (default the network's
+   * registry deployment block; required where that is unknown)
+   */
+  startBlock?: number;
+  /** Blocks per eth_getLogs request (default 2000) */
+  blockRange?: number;
 }
 
 /**
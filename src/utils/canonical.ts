@@ -0,0 +1,126 @@
+/**
+ * Canonical JSON serialization for hashed payloads
+ *
+ * Implements the JSON Canonicalization Scheme (RFC 8785 / JCS) so that
+ * execution hashes, receipt hashes and proof hashes can be reproduced byte for
+ * byte by the Python SDK, validators and ChaosChain services.
+ *
+ * Values that plain JSON cannot represent are encoded as follows:
+ * - bigint           → decimal string, e.g. 10n → "10"
+ * - Buffer/Uint8Array → lowercase 0x-prefixed hex string, e.g. "0x00ff"
+ * - Date             → ISO 8601 UTC string with milliseconds (Date#toISOString)
+ *
+ * Because these encodings are strings, a payload hashes identically before and
+ * after a round trip through canonical JSON storage.
+ */
+
+import { createHash } from 'crypto';
+import { ethers } from 'ethers';
+import { ChaosChainSDKError } from '../exceptions';
+
+/**
+ * Serialize a value to its RFC 8785 canonical JSON string
+ */
+export function canonicalize(value: unknown): string {
+  const serialized = serializeValue(value, new Set());
+  if (serialized === undefined) {
+    throw new ChaosChainSDKError('Cannot canonicalize a top-level undefined, function or symbol');
+  }
+  return serialized;
+}
+
+/**
+ * Canonical JSON encoded as UTF-8 bytes
+ */
+export function canonicalBytes(value: unknown): Uint8Array {
+  return ethers.toUtf8Bytes(canonicalize(value));
+}
+
+/**
+ * SHA-256 hex digest (no 0x prefix) of the canonical JSON encoding
+ */
+export function canonicalHash(value: unknown): string {
+  return createHash('sha256').update(canonicalize(value), 'utf8').digest('hex');
+}
+
+/**
+ * Keccak-256 digest (0x-prefixed bytes32) of the canonical JSON encoding
+ */
+export function canonicalKeccak256(value: unknown): string {
+  return ethers.keccak256(canonicalBytes(value));
+}
+
+/**
+ * Returns undefined for values JSON omits (undefined, functions, symbols)
+ */
+function serializeValue(value: unknown, ancestors: Set<object>): string | undefined {
+  if (value === null) {
+    return 'null';
+  }
+
+  switch (typeof value) {
+    case 'boolean':
+      return value ? 'true' : 'false';
+    case 'number':
+      if (!Number.isFinite(value)) {
+        throw new ChaosChainSDKError(`Cannot canonicalize non-finite number: ${value}`);
+      }
+      // ECMAScript Number-to-string is the serialization RFC 8785 mandates
+      return JSON.stringify(value);
+    case 'bigint':
+      return JSON.stringify(value.toString());
+    case 'string':
+      return JSON.stringify(value);
+    case 'undefined':
+    case 'function':
+    case 'symbol':
+      return undefined;
+  }
+
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) {
+      throw new ChaosChainSDKError('Cannot canonicalize an invalid Date');
+    }
+    return JSON.stringify(value.toISOString());
+  }
+
+  if (value instanceof Uint8Array) {
+    return JSON.stringify(ethers.hexlify(value));
+  }
+
+  if (value instanceof Map || value instanceof Set) {
+    throw new ChaosChainSDKError(
+      `Cannot canonicalize ${value.constructor.name}; convert it to a plain object or array`
+    );
+  }
+
+  const obj = value as Record<string, unknown>;
+  if (ancestors.has(obj)) {
+    throw new ChaosChainSDKError('Cannot canonicalize a circular structure');
+  }
+
+  if (typeof (obj as { toJSON?: unknown }).toJSON === 'function') {
+    return serializeValue((obj as { toJSON: () => unknown }).toJSON(), ancestors);
+  }
+
+  ancestors.add(obj);
+  try {
+    if (Array.isArray(obj)) {
+      const items = obj.map((item) => serializeValue(item, ancestors) ?? 'null');
+      return `[${items.join(',')}]`;
+    }
+
+    // RFC 8785 sorts property names by their UTF-16 code units, which is the
+    // default ordering of Array#sort on strings
+    const members: string[] = [];
+    for (const key of Object.keys(obj).sort()) {
+      const member = serializeValue(obj[key], ancestors);
+      if (member !== undefined) {
+        members.push(`${JSON.stringify(key)}:${member}`);
+      }
+    }
+    return `{${members.join(',')}}`;
+  } finally {
+    ancestors.delete(obj);
+  }
+}
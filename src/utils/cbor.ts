@@ -0,0 +1,284 @@
+/**
+ * Minimal CBOR (RFC 8949) codec
+ *
+ * Covers what COSE attestation documents need: integers, byte and text
+ * strings, arrays, maps (decoded as Map to keep integer keys), tags, simple
+ * values and floats. Indefinite-length items are accepted when decoding.
+ */
+
+/**
+ * A tagged CBOR data item
+ */
+export class CborTag {
+  constructor(
+    public readonly tag: number,
+    public readonly value: unknown
+  ) {}
+}
+
+export type CborValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | null
+  | undefined
+  | Uint8Array
+  | CborValue[]
+  | Map<CborValue, CborValue>
+  | CborTag;
+
+const BREAK = Symbol('cbor-break');
+
+/**
+ * Decode a single CBOR data item. Throws on trailing bytes.
+ */
+export function decodeCbor(data: Uint8Array): CborValue {
+  const decoder = new Decoder(data);
+  const value = decoder.readItem();
+  if (value === BREAK) {
+    throw new Error('CBOR: unexpected break');
+  }
+  if (decoder.offset !== data.length) {
+    throw new Error(`CBOR: ${data.length - decoder.offset} trailing bytes`);
+  }
+  return value;
+}
+
+/**
+ * Encode a value as CBOR (definite lengths, no floats)
+ */
+export function encodeCbor(value: CborValue): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  encodeItem(value, chunks);
+  return Buffer.concat(chunks);
+}
+
+class Decoder {
+  offset = 0;
+  private view: DataView;
+
+  constructor(private data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  readItem(): CborValue | typeof BREAK {
+    const initial = this.readUint8();
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    if (major === 7) {
+      return this.readSimple(info);
+    }
+
+    const length = this.readLength(info);
+
+    switch (major) {
+      case 0:
+        return length!;
+      case 1:
+        return typeof length === 'bigint' ? -1n - length : -1 - (length as number);
+      case 2:
+        return length === null ? this.readIndefiniteBytes(2) : this.readBytes(Number(length));
+      case 3:
+        return length === null
+          ? Buffer.from(this.readIndefiniteBytes(3)).toString('utf8')
+          : Buffer.from(this.readBytes(Number(length))).toString('utf8');
+      case 4: {
+        const items: CborValue[] = [];
+        if (length === null) {
+          for (let item = this.readItem(); item !== BREAK; item = this.readItem()) {
+            items.push(item);
+          }
+        } else {
+          for (let i = 0; i < Number(length); i++) {
+            items.push(this.readDefined());
+          }
+        }
+        return items;
+      }
+      case 5: {
+        const map = new Map<CborValue, CborValue>();
+        if (length === null) {
+          for (let key = this.readItem(); key !== BREAK; key = this.readItem()) {
+            map.set(key, this.readDefined());
+          }
+        } else {
+          for (let i = 0; i < Number(length); i++) {
+            map.set(this.readDefined(), this.readDefined());
+          }
+        }
+        return map;
+      }
+      default:
+        return new CborTag(Number(length), this.readDefined());
+    }
+  }
+
+  private readDefined(): CborValue {
+    const item = this.readItem();
+    if (item === BREAK) {
+      throw new Error('CBOR: unexpected break');
+    }
+    return item;
+  }
+
+  /**
+   * Argument of the initial byte; null for indefinite length
+   */
+  private readLength(info: number): number | bigint | null {
+    if (info < 24) return info;
+    switch (info) {
+      case 24:
+        return this.readUint8();
+      case 25:
+        return this.readView(2, () => this.view.getUint16(this.offset));
+      case 26:
+        return this.readView(4, () => this.view.getUint32(this.offset));
+      case 27: {
+        const value = this.readView(8, () => this.view.getBigUint64(this.offset));
+        return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+      }
+      case 31:
+        return null;
+      default:
+        throw new Error(`CBOR: invalid additional info ${info}`);
+    }
+  }
+
+  private readSimple(info: number): CborValue | typeof BREAK {
+    switch (info) {
+      case 20:
+        return false;
+      case 21:
+        return true;
+      case 22:
+        return null;
+      case 23:
+        return undefined;
+      case 24:
+        return this.readUint8();
+      case 25:
+        return this.readView(2, () => decodeHalf(this.view.getUint16(this.offset)));
+      case 26:
+        return this.readView(4, () => this.view.getFloat32(this.offset));
+      case 27:
+        return this.readView(8, () => this.view.getFloat64(this.offset));
+      case 31:
+        return BREAK;
+      default:
+        if (info < 20) return info;
+        throw new Error(`CBOR: invalid simple value ${info}`);
+    }
+  }
+
+  private readIndefiniteBytes(major: number): Uint8Array {
+    const chunks: Uint8Array[] = [];
+    for (;;) {
+      const initial = this.readUint8();
+      if (initial === 0xff) break;
+      if (initial >> 5 !== major) {
+        throw new Error('CBOR: invalid chunk in indefinite-length string');
+      }
+      const length = this.readLength(initial & 0x1f);
+      if (length === null) {
+        throw new Error('CBOR: nested indefinite-length string');
+      }
+      chunks.push(this.readBytes(Number(length)));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  private readUint8(): number {
+    return this.readView(1, () => this.view.getUint8(this.offset));
+  }
+
+  private readBytes(length: number): Uint8Array {
+    this.ensure(length);
+    const bytes = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  private readView<T>(size: number, read: () => T): T {
+    this.ensure(size);
+    const value = read();
+    this.offset += size;
+    return value;
+  }
+
+  private ensure(size: number): void {
+    if (this.offset + size > this.data.length) {
+      throw new Error('CBOR: unexpected end of input');
+    }
+  }
+}
+
+function decodeHalf(half: number): number {
+  const exponent = (half >> 10) & 0x1f;
+  const mantissa = half & 0x3ff;
+  const sign = half & 0x8000 ? -1 : 1;
+  if (exponent === 0) return sign * 2 ** -14 * (mantissa / 1024);
+  if (exponent === 0x1f) return mantissa ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + mantissa / 1024);
+}
+
+function encodeHead(major: number, value: number | bigint, chunks: Uint8Array[]): void {
+  const n = BigInt(value);
+  if (n < 24n) {
+    chunks.push(Uint8Array.of((major << 5) | Number(n)));
+  } else if (n < 0x100n) {
+    chunks.push(Uint8Array.of((major << 5) | 24, Number(n)));
+  } else if (n < 0x10000n) {
+    const buf = Buffer.alloc(3);
+    buf[0] = (major << 5) | 25;
+    buf.writeUInt16BE(Number(n), 1);
+    chunks.push(buf);
+  } else if (n < 0x100000000n) {
+    const buf = Buffer.alloc(5);
+    buf[0] = (major << 5) | 26;
+    buf.writeUInt32BE(Number(n), 1);
+    chunks.push(buf);
+  } else {
+    const buf = Buffer.alloc(9);
+    buf[0] = (major << 5) | 27;
+    buf.writeBigUInt64BE(n, 1);
+    chunks.push(buf);
+  }
+}
+
+function encodeItem(value: CborValue, chunks: Uint8Array[]): void {
+  if (value === false) chunks.push(Uint8Array.of(0xf4));
+  else if (value === true) chunks.push(Uint8Array.of(0xf5));
+  else if (value === null) chunks.push(Uint8Array.of(0xf6));
+  else if (value === undefined) chunks.push(Uint8Array.of(0xf7));
+  else if (typeof value === 'number' || typeof value === 'bigint') {
+    if (typeof value === 'number' && !Number.isInteger(value)) {
+      throw new Error('CBOR: float encoding not supported');
+    }
+    const n = BigInt(value);
+    if (n >= 0n) encodeHead(0, n, chunks);
+    else encodeHead(1, -1n - n, chunks);
+  } else if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    encodeHead(3, bytes.length, chunks);
+    chunks.push(bytes);
+  } else if (value instanceof Uint8Array) {
+    encodeHead(2, value.length, chunks);
+    chunks.push(value);
+  } else if (Array.isArray(value)) {
+    encodeHead(4, value.length, chunks);
+    value.forEach((item) => encodeItem(item, chunks));
+  } else if (value instanceof Map) {
+    encodeHead(5, value.size, chunks);
+    value.forEach((item, key) => {
+      encodeItem(key, chunks);
+      encodeItem(item, chunks);
+    });
+  } else if (value instanceof CborTag) {
+    encodeHead(6, value.tag, chunks);
+    encodeItem(value.value as CborValue, chunks);
+  } else {
+    throw new Error(`CBOR: cannot encode ${typeof value}`);
+  }
+}
@@ -77,6 +77,29 @@ export const IDENTITY_REGISTRY_ABI = [
       stateMutability: 'nonpayable',
       type: 'function'
     },
+    {
+      inputs: [
+        { name: 'from', type: 'address' },
+        { name: 'to', type: 'address' },
+        { name: 'tokenId', type: 'uint256' }
+      ],
+      name: 'safeTransferFrom',
+      outputs: [],
+      stateMutability: 'nonpayable',
+      type: 'function'
+    },
+    {
+      inputs: [
+        { name: 'from', type: 'address' },
+        { name: 'to', type: 'address' },
+        { name: 'tokenId', type: 'uint256' },
+        { name: 'data', type: 'bytes' }
+      ],
+      name: 'safeTransferFrom',
+      outputs: [],
+      stateMutability: 'nonpayable',
+      type: 'function'
+    },
     {
       inputs: [
         { name: 'to', type: 'address' },
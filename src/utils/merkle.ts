@@ -0,0 +1,87 @@
+/**
+ * Keccak-256 Merkle trees for batch anchoring
+ *
+ * Internal nodes hash the sorted pair of their children, matching
+ * OpenZeppelin's MerkleProof library, so an inclusion path is just the list of
+ * sibling hashes and can also be checked on-chain. A node without a sibling is
+ * promoted to the next layer unchanged.
+ */
+
+import { ethers } from 'ethers';
+
+/**
+ * Hash two sibling nodes in sorted order
+ */
+export function hashPair(a: string, b: string): string {
+  return BigInt(a) < BigInt(b)
+    ? ethers.keccak256(ethers.concat([a, b]))
+    : ethers.keccak256(ethers.concat([b, a]));
+}
+
+/**
+ * Merkle tree over a fixed list of bytes32 leaves
+ */
+export class MerkleTree {
+  private layers: string[][];
+
+  constructor(leaves: string[]) {
+    if (leaves.length === 0) {
+      throw new Error('Cannot build a Merkle tree without leaves');
+    }
+
+    this.layers = [leaves.map((leaf) => ethers.hexlify(ethers.getBytes(leaf)))];
+    while (this.layers[this.layers.length - 1].length > 1) {
+      const layer = this.layers[this.layers.length - 1];
+      const next: string[] = [];
+      for (let i = 0; i < layer.length; i += 2) {
+        next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+      }
+      this.layers.push(next);
+    }
+  }
+
+  /**
+   * Root hash of the tree (bytes32)
+   */
+  getRoot(): string {
+    return this.layers[this.layers.length - 1][0];
+  }
+
+  /**
+   * Leaves in insertion order
+   */
+  getLeaves(): string[] {
+    return [...this.layers[0]];
+  }
+
+  /**
+   * Sibling hashes from the leaf at `index` up to the root
+   */
+  getProof(index: number): string[] {
+    if (index < 0 || index >= this.layers[0].length) {
+      throw new Error(`Leaf index out of range: ${index}`);
+    }
+
+    const proof: string[] = [];
+    for (let level = 0; level < this.layers.length - 1; level++) {
+      const layer = this.layers[level];
+      const sibling = index % 2 === 0 ? index + 1 : index - 1;
+      if (sibling < layer.length) {
+        proof.push(layer[sibling]);
+      }
+      index = Math.floor(index / 2);
+    }
+    return proof;
+  }
+}
+
+/**
+ * Check that `leaf` is included under `root` via the given sibling path
+ */
+export function verifyMerkleProof(leaf: string, proof: string[], root: string): boolean {
+  let computed = ethers.hexlify(ethers.getBytes(leaf));
+  for (const sibling of proof) {
+    computed = hashPair(computed, sibling);
+  }
+  return computed === ethers.hexlify(ethers.getBytes(root));
+}
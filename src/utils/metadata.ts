@@ -0,0 +1,95 @@
+/**
+ * Codecs for ERC-8004 on-chain metadata values
+ *
+ * The Identity Registry stores metadata as raw `bytes` under string keys. The
+ * codecs below fix one encoding per value type so that every reader decodes a
+ * key the same way:
+ * - string  → UTF-8 bytes
+ * - address → the 20 address bytes
+ * - number  → ABI-encoded uint256 (decoded as bigint)
+ * - json    → UTF-8 bytes of the RFC 8785 canonical JSON
+ * - bytes   → stored as given (0x-prefixed hex)
+ */
+
+import { ethers } from 'ethers';
+import { ValidationError } from '../exceptions';
+import { MetadataEntry } from '../types';
+import { canonicalize } from './canonical';
+
+export interface MetadataCodec<T> {
+  /** Encode a value as 0x-prefixed hex bytes */
+  encode(value: T): string;
+  decode(data: ethers.BytesLike): T;
+}
+
+/**
+ * Well-known metadata keys
+ */
+export const METADATA_KEYS = {
+  AGENT_WALLET: 'agentWallet',
+  AGENT_NAME: 'agentName',
+  A2A_ENDPOINT: 'a2aEndpoint',
+  MCP_ENDPOINT: 'mcpEndpoint',
+  /** Lifecycle status record (json codec), see AgentLifecycle */
+  AGENT_STATUS: 'agentStatus',
+} as const;
+
+const stringCodec: MetadataCodec<string> = {
+  encode: (value) => ethers.hexlify(ethers.toUtf8Bytes(value)),
+  decode: (data) => ethers.toUtf8String(data),
+};
+
+const addressCodec: MetadataCodec<string> = {
+  encode: (value) => {
+    if (!ethers.isAddress(value)) {
+      throw new ValidationError(`Invalid address metadata value: ${value}`);
+    }
+    return ethers.getAddress(value).toLowerCase();
+  },
+  decode: (data) => {
+    const bytes = ethers.getBytes(data);
+    if (bytes.length !== 20) {
+      throw new ValidationError(`Address metadata must be 20 bytes, got ${bytes.length}`);
+    }
+    return ethers.getAddress(ethers.hexlify(bytes));
+  },
+};
+
+const numberCodec: MetadataCodec<bigint | number> = {
+  encode: (value) => {
+    const n = BigInt(value);
+    if (n < 0n) {
+      throw new ValidationError(`Number metadata must be non-negative, got ${n}`);
+    }
+    return ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [n]);
+  },
+  decode: (data) => ethers.AbiCoder.defaultAbiCoder().decode(['uint256'], data)[0] as bigint,
+};
+
+const jsonCodec: MetadataCodec<unknown> = {
+  encode: (value) => ethers.hexlify(ethers.toUtf8Bytes(canonicalize(value))),
+  decode: (data) => JSON.parse(ethers.toUtf8String(data)),
+};
+
+const bytesCodec: MetadataCodec<ethers.BytesLike> = {
+  encode: (value) => ethers.hexlify(value),
+  decode: (data) => ethers.hexlify(data),
+};
+
+export const MetadataCodecs = {
+  string: stringCodec,
+  address: addressCodec,
+  number: numberCodec,
+  json: jsonCodec,
+  bytes: bytesCodec,
+};
+
+/**
+ * Build a metadata entry for registration
+ */
+export function metadataEntry<T>(key: string, value: T, codec: MetadataCodec<T>): MetadataEntry {
+  if (!key) {
+    throw new ValidationError('Metadata key must not be empty');
+  }
+  return { key, value: codec.encode(value) };
+}
@@ -0,0 +1,125 @@
+/**
+ * Agent Directory Indexer Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ethers } from 'ethers';
+import { AgentIndexer, JsonFileAgentIndexStore } from '../src/AgentIndexer';
+import { UriResolver } from '../src/resolver';
+import { buildRegistrationFile, encodeRegistrationDataUri } from '../src/RegistrationFile';
+
+const alice = '0x70997970c51812dC3A010c7D01b50E17B4d7Dc79';
+const bob = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+const aliceFile = encodeRegistrationDataUri(
+  buildRegistrationFile({
+    name: 'Alice',
+    supportedTrust: ['reputation', 'crypto-economic'],
+    extra: { domain: 'alice.example.com', role: 'server', capabilities: ['search'] },
+  })
+);
+const bobFile = encodeRegistrationDataUri({
+  name: 'Bob',
+  domain: 'bob.example.com',
+  role: 'client',
+  capabilities: ['analysis'],
+});
+
+function log(blockNumber: number, eventName: string, args: Record<string, any>, index = 0) {
+  return { eventName, args, blockNumber, index };
+}
+
+const events = [
+  log(10, 'Transfer', { from: ethers.ZeroAddress, to: alice, tokenId: 1n }),
+  log(10, 'Registered', { agentId: 1n, tokenURI: aliceFile, owner: alice }, 1),
+  log(12, 'Transfer', { from: ethers.ZeroAddress, to: bob, tokenId: 2n }),
+  log(12, 'Registered', { agentId: 2n, tokenURI: 'ipfs://missing', owner: bob }, 1),
+  log(15, 'MetadataSet', { agentId: 1n, key: 'agentName', value: '0x416c696365' }),
+  log(20, 'UriUpdated', { agentId: 2n, newUri: bobFile, updatedBy: bob }),
+  log(25, 'Transfer', { from: bob, to: alice, tokenId: 2n }),
+];
+
+function createIndexer(head: number, store?: JsonFileAgentIndexStore) {
+  const indexer = new AgentIndexer({
+    identityRegistry: ethers.ZeroAddress,
+    provider: { getBlockNumber: async () => head } as any,
+    uriResolver: new UriResolver({
+      ipfsGateways: [],
+      fetch: vi.fn() as any,
+    }),
+    blockRange: 5,
+    store,
+  });
+  const queryFilter = vi.fn(async (_event: string, from: number, to: number) =>
+    events.filter((e) => e.blockNumber >= from && e.blockNumber <= to)
+  );
+  (indexer as any).contract = { queryFilter };
+  return { indexer, queryFilter };
+}
+
+describe('AgentIndexer', () => {
+  it('should backfill registry events in block ranges', async () => {
+    const { indexer, queryFilter } = createIndexer(30);
+    const result = await indexer.sync();
+
+    expect(result).toEqual({ fromBlock: 0, toBlock: 30, events: 7, agentsUpdated: 5 });
+    expect(queryFilter).toHaveBeenCalledTimes(7);
+    expect(queryFilter.mock.calls[0]).toEqual(['*', 0, 4]);
+    expect(await indexer.getCheckpoint()).toBe(30);
+
+    const agent = await indexer.getAgent(1n);
+    expect(agent?.owner).toBe(alice);
+    expect(agent?.registration?.name).toBe('Alice');
+    expect(agent?.metadata).toEqual({ agentName: '0x416c696365' });
+    expect(agent?.registeredBlock).toBe(10);
+  });
+
+  it('should resolve updated URIs and convert legacy metadata', async () => {
+    const { indexer } = createIndexer(30);
+    await indexer.sync(14);
+
+    const before = await indexer.getAgent(2n);
+    expect(before?.registration).toBeNull();
+    expect(before?.resolutionError?.reason).toBe('invalid_uri');
+
+    await indexer.sync();
+    const after = await indexer.getAgent(2n);
+    expect(after?.registration?.name).toBe('Bob');
+    expect(after?.registration?.domain).toBe('bob.example.com');
+    expect(after?.resolutionError).toBeNull();
+    expect(after?.owner).toBe(alice);
+  });
+
+  it('should query by capability, domain, role, owner and supported trust', async () => {
+    const { indexer } = createIndexer(30);
+    await indexer.sync();
+    const ids = async (query: Parameters<typeof indexer.queryAgents>[0]) =>
+      (await indexer.queryAgents(query)).map((agent) => agent.agentId);
+
+    expect(await ids({})).toEqual(['1', '2']);
+    expect(await ids({ capability: 'search' })).toEqual(['1']);
+    expect(await ids({ domain: 'BOB.example.com' })).toEqual(['2']);
+    expect(await ids({ role: 'client' })).toEqual(['2']);
+    expect(await ids({ owner: alice.toLowerCase() })).toEqual(['1', '2']);
+    expect(await ids({ supportedTrust: ['reputation', 'crypto-economic'] })).toEqual(['1']);
+    expect(await ids({ supportedTrust: 'tee-attestation' })).toEqual([]);
+  });
+
+  it('should resume from a persisted checkpoint', async () => {
+    const path = join(mkdtempSync(join(tmpdir(), 'indexer-')), 'agents.json');
+    const first = createIndexer(14, new JsonFileAgentIndexStore(path));
+    await first.indexer.sync();
+
+    const second = createIndexer(30, new JsonFileAgentIndexStore(path));
+    const result = await second.indexer.sync();
+
+    expect(result.fromBlock).toBe(15);
+    expect(result.events).toBe(3);
+    expect(second.queryFilter.mock.calls[0]).toEqual(['*', 15, 19]);
+    expect((await second.indexer.getAgent(1n))?.metadata.agentName).toBe('0x416c696365');
+    expect((await second.indexer.getAgent(2n))?.registration?.name).toBe('Bob');
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Agent Lifecycle Status Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { X402Server } from '../src/X402Server';
+import { AgentIndexer } from '../src/AgentIndexer';
+import { UriResolver } from '../src/resolver';
+import { ValidationError } from '../src/exceptions';
+import { MetadataCodecs } from '../src/utils/metadata';
+import { createAgentStatus, resolveAgentStatus, withAgentStatus } from '../src/AgentLifecycle';
+import { buildRegistrationFile, decodeRegistrationDataUri } from '../src/RegistrationFile';
+import { TEST_OWNER as owner, createSdk, fakeRegistry } from './helpers/fakeRegistry';
+
+/**
+ * Registry holding agent #7 (Alice)
+ */
+function aliceRegistry() {
+  return fakeRegistry({ 7: buildRegistrationFile({ name: 'Alice' }) });
+}
+
+/**
+ * Minimal request/response pair for X402Server.handleRequest
+ */
+function call(server: X402Server, path: string) {
+  const res = {
+    status: 0,
+    headers: {} as Record<string, string>,
+    body: '',
+    setHeader(name: string, value: string) {
+      this.headers[name] = value;
+    },
+    writeHead(status: number, headers: Record<string, string> = {}) {
+      this.status = status;
+      Object.assign(this.headers, headers);
+    },
+    end(body: string) {
+      this.body = body;
+    },
+  };
+  const req = { url: path, headers: { host: 'localhost' }, method: 'GET' };
+  return (server as any).handleRequest(req, res).then(() => res);
+}
+
+describe('Agent lifecycle status', () => {
+  it('should build status records and publish them in registration files', () => {
+    const record = createAgentStatus('deprecated', { successor: 12n, reason: 'Moved to v2' });
+    expect(record).toMatchObject({ status: 'deprecated', successor: '12', reason: 'Moved to v2' });
+    expect(() => createAgentStatus('paused', { successor: 12n })).toThrow(ValidationError);
+    expect(() => createAgentStatus('active', { until: '2030-01-01' })).toThrow(ValidationError);
+
+    const file = withAgentStatus(buildRegistrationFile({ name: 'Alice' }), record);
+    expect(file.active).toBe(true);
+    expect(file.lifecycle).toEqual(record);
+
+    const retired = withAgentStatus(file, createAgentStatus('retired'));
+    expect(retired.active).toBe(false);
+    expect(withAgentStatus(retired, createAgentStatus('active')).lifecycle).toBeUndefined();
+  });
+
+  it('should prefer the on-chain status over the registration file', () => {
+    const file = withAgentStatus(buildRegistrationFile({ name: 'Alice' }), {
+      status: 'paused',
+    });
+    const onChain = MetadataCodecs.json.encode({ status: 'retired', successor: '9' });
+
+    expect(resolveAgentStatus(null, file)).toEqual({ status: 'paused' });
+    expect(resolveAgentStatus(onChain, file)).toEqual({ status: 'retired', successor: '9' });
+    expect(resolveAgentStatus('0x7b7d', file)).toEqual({ status: 'paused' });
+    expect(resolveAgentStatus(null, { name: 'Bob' })).toEqual({ status: 'active' });
+  });
+
+  it('should publish status changes and keep retirement final', async () => {
+    const registry = aliceRegistry();
+    const sdk = createSdk(registry, { agentId: 7n });
+
+    const { status } = await sdk.deprecateAgent(12n, 'Moved to v2');
+
+    expect(status).toMatchObject({ status: 'deprecated', successor: '12' });
+    expect(decodeRegistrationDataUri(registry.store.get(7n)!.uri).lifecycle).toEqual(status);
+    expect(await sdk.getAgentStatus(7n)).toEqual(status);
+    await expect(sdk.deprecateAgent(7n)).rejects.toThrow('cannot be its own successor');
+
+    await sdk.retireAgent({ successor: 12n });
+    await expect(sdk.resumeAgent()).rejects.toThrow('is retired and cannot change status');
+    expect((await sdk.getAgentStatus()).status).toBe('retired');
+  });
+
+  it('should reject paid calls while paused or retired', async () => {
+    const paymentManager = {
+      createPaymentRequirements: vi.fn(() => ({ settlement_address: owner })),
+    };
+    const server = new X402Server(paymentManager as any, { port: 0 });
+    const analyze = () => 'ok';
+    server.requirePayment(1, 'Analysis')(analyze);
+
+    expect((await call(server, '/analyze')).status).toBe(402);
+
+    server.setAgentStatus(createAgentStatus('paused', { until: '2030-01-01T00:00:00Z' }));
+    const paused = await call(server, '/analyze');
+    expect(paused.status).toBe(503);
+    expect(paused.headers['Retry-After']).toBe('Tue, 01 Jan 2030 00:00:00 GMT');
+
+    server.setAgentStatus(createAgentStatus('retired', { successor: 12n }));
+    const retired = await call(server, '/analyze');
+    expect(retired.status).toBe(410);
+    expect(JSON.parse(retired.body)).toMatchObject({ status: 'retired', successor: '12' });
+
+    server.setAgentStatus(createAgentStatus('deprecated', { successor: 12n }));
+    const deprecated = await call(server, '/analyze');
+    expect(deprecated.status).toBe(402);
+    expect(deprecated.headers['X-Agent-Successor']).toBe('12');
+    expect(paymentManager.createPaymentRequirements).toHaveBeenCalledTimes(2);
+  });
+
+  it('should load the published status into paywall servers after a restart', async () => {
+    const registry = aliceRegistry();
+    await createSdk(registry, { agentId: 7n }).pauseAgent({ reason: 'Maintenance' });
+
+    const restarted = createSdk(registry, { agentId: 7n });
+    const paymentManager = {
+      createPaymentRequirements: vi.fn(() => ({ settlement_address: owner })),
+    };
+    (restarted as any).x402PaymentManager = paymentManager;
+    const server = restarted.createX402PaywallServer(0);
+    server.requirePayment(
+      1,
+      'Analysis'
+    )(function analyze() {
+      return 'ok';
+    });
+
+    expect((await call(server, '/analyze')).status).toBe(503);
+    expect(server.getAgentStatus()).toMatchObject({ status: 'paused', reason: 'Maintenance' });
+    expect(paymentManager.createPaymentRequirements).not.toHaveBeenCalled();
+
+    await restarted.resumeAgent();
+    expect((await call(server, '/analyze')).status).toBe(402);
+  });
+
+  it('should still read feedback when the status cannot be read', async () => {
+    const registry = aliceRegistry();
+    registry.getMetadata.mockRejectedValue(new Error('RPC unavailable'));
+    const sdk = createSdk(registry, { agentId: 7n });
+    (registry as any).readAllFeedback = vi.fn(async () => ({ clients: [], scores: [] }));
+    (registry as any).getSummary = vi.fn(async () => ({ count: 0n, averageScore: 0n }));
+
+    expect(await sdk.readAllFeedback(7n)).toEqual({ clients: [], scores: [], agentStatus: null });
+    expect((await sdk.getFeedbackSummary(7n)).agentStatus).toBeNull();
+  });
+
+  it('should surface and filter statuses in the agent directory', async () => {
+    const indexer = new AgentIndexer({
+      identityRegistry: ethers.ZeroAddress,
+      provider: { getBlockNumber: async () => 10 } as any,
+      uriResolver: new UriResolver({ fetch: vi.fn() as any }),
+    });
+    const retired = MetadataCodecs.json.encode({ status: 'retired', successor: '2' });
+    const events = [
+      {
+        eventName: 'Registered',
+        blockNumber: 1,
+        index: 0,
+        args: { agentId: 1n, owner, tokenURI: '' },
+      },
+      {
+        eventName: 'Registered',
+        blockNumber: 2,
+        index: 0,
+        args: { agentId: 2n, owner, tokenURI: '' },
+      },
+      {
+        eventName: 'MetadataSet',
+        blockNumber: 3,
+        index: 0,
+        args: { agentId: 1n, key: 'agentStatus', value: retired },
+      },
+    ];
+    (indexer as any).contract = { queryFilter: vi.fn(async () => events) };
+    await indexer.sync();
+
+    expect((await indexer.getAgent(1n))?.status).toEqual({ status: 'retired', successor: '2' });
+    const active = await indexer.queryAgents({ status: 'active' });
+    expect(active.map((agent) => agent.agentId)).toEqual(['2']);
+  });
+});
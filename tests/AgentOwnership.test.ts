@@ -0,0 +1,166 @@
+/**
+ * Agent Ownership Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { AgentOwnership } from '../src/AgentOwnership';
+import { AgentTransferError } from '../src/exceptions';
+import { encodeRegistrationDataUri, decodeRegistrationDataUri } from '../src/RegistrationFile';
+
+const privateKey = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const owner = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const operator = '0x70997970c51812dC3A010c7D01b50E17B4d7Dc79';
+const receiverContract = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+/**
+ * In-memory identity registry standing in for ChaosAgent
+ */
+function fakeAgent(options: { pending?: boolean; agentWallet?: string | null } = {}) {
+  const state = {
+    owner,
+    uri: encodeRegistrationDataUri({ name: 'Alice', domain: 'alice.example.com' }),
+    approved: ethers.ZeroAddress,
+    operators: new Set<string>(),
+    agentWallet: options.agentWallet ?? null,
+  };
+  return {
+    state,
+    getAgentOwner: vi.fn(async () => state.owner),
+    getAgentMetadata: vi.fn(async () => decodeRegistrationDataUri(state.uri)),
+    updateAgentMetadata: vi.fn(async (_id: bigint, file: any) => {
+      state.uri = encodeRegistrationDataUri(file);
+      return '0xuri';
+    }),
+    getMetadata: vi.fn(async () => state.agentWallet),
+    setMetadata: vi.fn(async (_id: bigint, _key: string, value: string) => {
+      state.agentWallet = value;
+      return '0xwallet';
+    }),
+    approve: vi.fn(async (_id: bigint, address: string) => {
+      state.approved = address;
+      return '0xapprove';
+    }),
+    setApprovalForAll: vi.fn(async (address: string, approved: boolean) => {
+      if (approved) state.operators.add(address);
+      else state.operators.delete(address);
+      return '0xapproveall';
+    }),
+    getApproved: vi.fn(async () => state.approved),
+    isApprovedForAll: vi.fn(async (_owner: string, address: string) =>
+      state.operators.has(address)
+    ),
+    getOperatorApprovalEvents: vi.fn(async () =>
+      [...state.operators, receiverContract].map((address) => ({ args: { operator: address } }))
+    ),
+    simulateSafeTransfer: vi.fn(async (_id: bigint, _from: string, to: string) => {
+      if (to === receiverContract) throw new Error('ERC721InvalidReceiver');
+    }),
+    safeTransferAgent: vi.fn(async (_id: bigint, to: string) => {
+      state.owner = to;
+      return '0xtransfer';
+    }),
+    getAgentValidations: vi.fn(async () => ['0x' + '11'.repeat(32)]),
+    getValidationStatus: vi.fn(async () => ({
+      response: options.pending ? 0 : 90,
+      responseHash: options.pending ? ethers.ZeroHash : '0x' + '22'.repeat(32),
+    })),
+  };
+}
+
+function createOwnership(agent: ReturnType<typeof fakeAgent>, outstandingAuths = 0) {
+  const provider = {
+    getCode: vi.fn(async (address: string) => (address === receiverContract ? '0x6080' : '0x')),
+    getNetwork: vi.fn(async () => ({ chainId: 84532n })),
+  };
+  const signer = new ethers.Wallet(privateKey, provider as any);
+  return new AgentOwnership(agent as any, signer, {
+    getOutstandingFeedbackAuths: async () => outstandingAuths,
+  });
+}
+
+describe('AgentOwnership', () => {
+  it('should delegate, list and revoke operators', async () => {
+    const agent = fakeAgent();
+    const ownership = createOwnership(agent);
+
+    await ownership.delegate(operator.toLowerCase());
+    await ownership.delegate(operator, 1n);
+
+    expect(await ownership.listOperators()).toEqual([operator]);
+    expect(await ownership.getApproved(1n)).toBe(operator);
+
+    await ownership.revoke(operator, 1n);
+    await ownership.revoke(operator);
+    expect(await ownership.listOperators()).toEqual([]);
+    expect(await ownership.getApproved(1n)).toBeNull();
+    await expect(ownership.revoke(operator, 1n)).rejects.toThrow(AgentTransferError);
+  });
+
+  it('should block transfers to contracts that reject ERC-721 tokens', async () => {
+    const agent = fakeAgent();
+    const ownership = createOwnership(agent);
+
+    const precheck = await ownership.precheckTransfer(1n, receiverContract);
+    expect(precheck.receiverType).toBe('contract');
+    expect(precheck.blockers[0]).toContain('does not accept ERC-721 tokens');
+
+    await expect(ownership.safeTransfer(1n, receiverContract, { force: true })).rejects.toThrow(
+      AgentTransferError
+    );
+    await expect(ownership.safeTransfer(1n, ethers.ZeroAddress)).rejects.toThrow(
+      'not a valid address'
+    );
+    expect(agent.safeTransferAgent).not.toHaveBeenCalled();
+  });
+
+  it('should require force when validations or feedback auths are outstanding', async () => {
+    const agent = fakeAgent({ pending: true });
+    const ownership = createOwnership(agent, 2);
+
+    const precheck = await ownership.precheckTransfer(1n, operator);
+    expect(precheck.blockers).toEqual([]);
+    expect(precheck.pendingValidations).toHaveLength(1);
+    expect(precheck.outstandingFeedbackAuths).toBe(2);
+    expect(precheck.warnings).toHaveLength(2);
+
+    await expect(ownership.safeTransfer(1n, operator)).rejects.toThrow('needs force');
+    const { txHash } = await ownership.safeTransfer(1n, operator, { force: true });
+    expect(txHash).toBe('0xtransfer');
+    expect(agent.safeTransferAgent).toHaveBeenCalledWith(1n, operator, owner);
+  });
+
+  it('should block transfers by a wallet that is neither owner nor approved', async () => {
+    const agent = fakeAgent();
+    agent.state.owner = operator;
+    const ownership = createOwnership(agent);
+
+    const precheck = await ownership.precheckTransfer(1n, receiverContract);
+    expect(precheck.blockers).toContainEqual(
+      `${owner} is neither the owner nor approved for agent #1`
+    );
+  });
+
+  it('should rotate the key, re-issuing the registration file first', async () => {
+    const agent = fakeAgent({ agentWallet: owner });
+    const ownership = createOwnership(agent);
+
+    const result = await ownership.rotateKey(1n);
+
+    const newAddress = result.newWallet.address;
+    expect(result.previousOwner).toBe(owner);
+    expect(result.steps.map((s) => s.step)).toEqual([
+      'registration_file',
+      'agent_wallet_metadata',
+      'transfer',
+    ]);
+    const file = decodeRegistrationDataUri(agent.state.uri);
+    expect(file.domain).toBe('alice.example.com');
+    expect(file.endpoints).toContainEqual({
+      name: 'agentWallet',
+      endpoint: `eip155:84532:${newAddress}`,
+    });
+    expect(agent.state.agentWallet).toBe(newAddress);
+    expect(agent.state.owner).toBe(newAddress);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Domain Verification Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { UriResolver } from '../src/resolver';
+import { buildRegistrationFile } from '../src/RegistrationFile';
+import {
+  AGENT_CARD_PATH,
+  AGENT_REGISTRATION_PATH,
+  buildWellKnownRegistration,
+  normalizeAgentDomain,
+  verifyAgentDomain,
+} from '../src/DomainVerification';
+
+const registry = '0x8004AA63c570c570eBF15376c0dB199918BFe9Fb';
+const chainId = 84532;
+
+function resolverServing(files: Record<string, unknown>) {
+  const fetch = vi.fn(async (url: any) => {
+    const body = files[String(url)];
+    return body === undefined
+      ? new Response('not found', { status: 404 })
+      : new Response(JSON.stringify(body));
+  });
+  return new UriResolver({ fetch: fetch as any });
+}
+
+const wellKnown = buildWellKnownRegistration(
+  buildRegistrationFile({ name: 'Weather', extra: { domain: 'weather.example.com' } }),
+  { agentId: 7n, chainId, identityRegistry: registry }
+);
+
+describe('Domain verification', () => {
+  it('should normalize claimed domains', () => {
+    expect(normalizeAgentDomain('Weather.Example.com')).toBe('weather.example.com');
+    expect(normalizeAgentDomain('https://weather.example.com/')).toBe('weather.example.com');
+    expect(normalizeAgentDomain('https://weather.example.com/agents/7')).toBeNull();
+    expect(normalizeAgentDomain('not a domain')).toBeNull();
+  });
+
+  it('should generate a well-known file listing the registration', () => {
+    expect(wellKnown.registrations).toEqual([
+      { agentId: '7', agentRegistry: `eip155:${chainId}:${registry}` },
+    ]);
+  });
+
+  it('should verify a domain whose agent card lists the agent', async () => {
+    const result = await verifyAgentDomain({
+      agentId: 7n,
+      domain: 'weather.example.com',
+      chainId,
+      identityRegistry: registry.toLowerCase(),
+      uriResolver: resolverServing({
+        [`https://weather.example.com${AGENT_CARD_PATH}`]: wellKnown,
+      }),
+    });
+
+    expect(result.verified).toBe(true);
+    expect(result.source).toBe(`https://weather.example.com${AGENT_CARD_PATH}`);
+  });
+
+  it('should fall back to the ERC-8004 registration path', async () => {
+    const result = await verifyAgentDomain({
+      agentId: 7n,
+      domain: 'weather.example.com',
+      chainId,
+      identityRegistry: registry,
+      uriResolver: resolverServing({
+        [`https://weather.example.com${AGENT_REGISTRATION_PATH}`]: wellKnown,
+      }),
+    });
+
+    expect(result.verified).toBe(true);
+    expect(result.checks.map((check) => check.error)).toEqual(['http_error', undefined]);
+  });
+
+  it('should reject another agent, chain or registry claiming the domain', async () => {
+    const uriResolver = resolverServing({
+      [`https://weather.example.com${AGENT_CARD_PATH}`]: wellKnown,
+    });
+    const verify = (agentId: bigint, chain: number, identityRegistry: string) =>
+      verifyAgentDomain({
+        agentId,
+        domain: 'weather.example.com',
+        chainId: chain,
+        identityRegistry,
+        uriResolver,
+      });
+
+    expect((await verify(8n, chainId, registry)).reason).toBe('not_listed');
+    expect((await verify(7n, 1, registry)).reason).toBe('not_listed');
+    expect((await verify(7n, chainId, `0x${'1'.repeat(40)}`)).reason).toBe('not_listed');
+  });
+
+  it('should explain why a domain could not be verified', async () => {
+    const uriResolver = resolverServing({});
+    const params = { agentId: 7n, chainId, identityRegistry: registry, uriResolver };
+
+    expect((await verifyAgentDomain({ ...params, domain: undefined })).reason).toBe('no_domain');
+    expect((await verifyAgentDomain({ ...params, domain: 'x.com/path' })).reason).toBe(
+      'invalid_domain'
+    );
+    expect((await verifyAgentDomain({ ...params, domain: 'down.example.com' })).reason).toBe(
+      'unreachable'
+    );
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ProcessIntegrity } from '../src/ProcessIntegrity';
+import { ExecutionContext, REDACTED } from '../src/ExecutionTrace';
+
+describe('Execution tracing', () => {
+  const fetchPrice = async (inputs: Record<string, any>, ctx: ExecutionContext) => {
+    const response = await ctx.fetch(`https://prices.example/${inputs.symbol}`);
+    const { price } = await response.json();
+    const fee = await ctx.call('fee', { amount: price });
+    return { price, fee, jitter: ctx.random(), at: ctx.now() };
+  };
+  const fee = async (inputs: Record<string, any>) => inputs.amount / 100;
+
+  function createVerifier(fetchImpl = mockFetch(100)) {
+    const verifier = new ProcessIntegrity('TraceAgent');
+    verifier.registerFunction(fetchPrice, 'fetchPrice');
+    verifier.registerFunction(fee, 'fee');
+    verifier.setExecutionTracing({ fetch: fetchImpl });
+    return verifier;
+  }
+
+  function mockFetch(price: number) {
+    return vi.fn(
+      async () =>
+        new Response(JSON.stringify({ price }), {
+          status: 200,
+          headers: { 'content-type': 'application/json' },
+        })
+    ) as unknown as typeof fetch;
+  }
+
+  it('should record I/O and commit to the trace hash', async () => {
+    const verifier = createVerifier();
+    const [result, proof] = await verifier.executeWithProof(
+      'fetchPrice',
+      { symbol: 'ETH' },
+      true,
+      false
+    );
+
+    expect(result.price).toBe(100);
+    expect(result.fee).toBe(1);
+    expect(proof!.execution_trace!.events.map((e) => e.type)).toEqual([
+      'fetch',
+      'call',
+      'random',
+      'now',
+    ]);
+
+    const verdict = await verifier.verifyProof(proof!);
+    expect(verdict.valid).toBe(true);
+    expect(verdict.checks.map((c) => c.check)).toContain('execution_trace');
+  });
+
+  it('should replay a proof without performing real I/O', async () => {
+    const [, proof] = await createVerifier().executeWithProof(
+      'fetchPrice',
+      { symbol: 'ETH' },
+      true,
+      false
+    );
+
+    const offlineFetch = vi.fn();
+    const validator = createVerifier(offlineFetch as unknown as typeof fetch);
+    const replay = await validator.replayProof(JSON.parse(JSON.stringify(proof)));
+
+    expect(replay.matches).toBe(true);
+    expect(replay.execution_hash).toBe(proof!.execution_hash);
+    expect(offlineFetch).not.toHaveBeenCalled();
+
+    const verdict = await validator.verifyProof(proof!, { replay: true });
+    expect(verdict.checks.find((c) => c.check === 'replay')?.passed).toBe(true);
+  });
+
+  it('should reject a tampered trace', async () => {
+    const verifier = createVerifier();
+    const [, proof] = await verifier.executeWithProof('fetchPrice', { symbol: 'ETH' }, true, false);
+
+    proof!.execution_trace!.events[0].response.body = JSON.stringify({ price: 5 });
+    const verdict = await verifier.verifyProof(proof!, { replay: true });
+
+    expect(verdict.valid).toBe(false);
+    const failed = verdict.checks.filter((c) => !c.passed).map((c) => c.check);
+    expect(failed).toEqual(['execution_trace', 'replay']);
+  });
+
+  it('should detect a function that diverges from the recorded I/O', async () => {
+    const [, proof] = await createVerifier().executeWithProof(
+      'fetchPrice',
+      { symbol: 'ETH' },
+      true,
+      false
+    );
+
+    // Same code hash, but asked for a different URL during replay
+    proof!.inputs = { symbol: 'BTC' };
+    const replay = await createVerifier().replayProof(proof!);
+
+    expect(replay.matches).toBe(false);
+    expect(replay.error).toContain('Trace divergence at event 0');
+  });
+
+  it('should record concurrent I/O in call order and replay it', async () => {
+    const delays: Record<string, number> = { slow: 20, fast: 0 };
+    const fetchImpl = vi.fn(async (url: string) => {
+      const name = url.split('/').pop()!;
+      await new Promise((resolve) => setTimeout(resolve, delays[name]));
+      return new Response(JSON.stringify({ name }), { status: 200 });
+    }) as unknown as typeof fetch;
+    const both = async (_inputs: Record<string, any>, ctx: ExecutionContext) => {
+      const responses = await Promise.all([
+        ctx.fetch('https://api.example/slow'),
+        ctx.fetch('https://api.example/fast'),
+      ]);
+      return Promise.all(responses.map((response) => response.json()));
+    };
+    const verifier = new ProcessIntegrity('TraceAgent');
+    verifier.registerFunction(both, 'both');
+    verifier.setExecutionTracing({ fetch: fetchImpl });
+
+    const [, proof] = await verifier.executeWithProof('both', {}, true, false);
+
+    const urls = proof!.execution_trace!.events.map((e) => e.request.url);
+    expect(urls).toEqual(['https://api.example/slow', 'https://api.example/fast']);
+    expect((await verifier.replayProof(proof!)).matches).toBe(true);
+  });
+
+  it('should record failed I/O and replay the failure', async () => {
+    const failing = vi.fn(async () => {
+      throw new Error('connection refused');
+    }) as unknown as typeof fetch;
+    const withFallback = async (_inputs: Record<string, any>, ctx: ExecutionContext) => {
+      try {
+        await ctx.fetch('https://prices.example/ETH');
+        return 'live';
+      } catch (error) {
+        return `fallback: ${(error as Error).message}`;
+      }
+    };
+    const verifier = new ProcessIntegrity('TraceAgent');
+    verifier.registerFunction(withFallback, 'withFallback');
+    verifier.setExecutionTracing({ fetch: failing });
+
+    const [result, proof] = await verifier.executeWithProof('withFallback', {}, true, false);
+
+    expect(result).toBe('fallback: connection refused');
+    expect(proof!.execution_trace!.events[0]).toMatchObject({
+      type: 'fetch',
+      response: null,
+      error: 'connection refused',
+    });
+    expect((await verifier.replayProof(proof!)).matches).toBe(true);
+  });
+
+  it('should redact credentials from recorded headers', async () => {
+    const fetchImpl = vi.fn(
+      async () =>
+        new Response('{}', { status: 200, headers: { 'set-cookie': 'session=abc', etag: 'v1' } })
+    ) as unknown as typeof fetch;
+    const authed = async (inputs: Record<string, any>, ctx: ExecutionContext) => {
+      const response = await ctx.fetch('https://api.example/me', {
+        headers: { Authorization: `Bearer ${inputs.token}`, Accept: 'application/json' },
+      });
+      return response.headers;
+    };
+    const verifier = new ProcessIntegrity('TraceAgent');
+    verifier.registerFunction(authed, 'authed');
+    verifier.setExecutionTracing({ fetch: fetchImpl });
+
+    const [, proof] = await verifier.executeWithProof('authed', { token: 'secret' }, true, false);
+
+    expect((fetchImpl as any).mock.calls[0][1].headers.Authorization).toBe('Bearer secret');
+    const [event] = proof!.execution_trace!.events;
+    expect(event.request.headers).toEqual({
+      Authorization: REDACTED,
+      Accept: 'application/json',
+    });
+    expect(event.response.headers).toMatchObject({ 'set-cookie': REDACTED, etag: 'v1' });
+    expect(JSON.stringify(proof!.execution_trace)).not.toContain('secret');
+    expect((await verifier.replayProof(proof!)).matches).toBe(true);
+  });
+
+  it('should leave untraced execution hashes unchanged', async () => {
+    const verifier = new ProcessIntegrity('TraceAgent');
+    verifier.registerFunction(fee, 'fee');
+    const [, proof] = await verifier.executeWithProof('fee', { amount: 300 }, true, false);
+
+    expect(proof!.execution_trace).toBeUndefined();
+    expect((await verifier.verifyProof(proof!)).valid).toBe(true);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Feedback Authorization Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ethers } from 'ethers';
+import { ChaosAgent } from '../src/ChaosAgent';
+import { ChaosChainSDK } from '../src/ChaosChainSDK';
+import { AgentRole, NetworkConfig } from '../src/types';
+import { ValidationError } from '../src/exceptions';
+import { getContractAddresses } from '../src/utils/networks';
+import {
+  FeedbackAuthLedger,
+  decodeFeedbackAuth,
+  feedbackAuthDigest,
+  verifyFeedbackAuth,
+} from '../src/FeedbackAuth';
+
+const privateKey = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const owner = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const client = '0x70997970c51812dC3A010c7D01b50E17B4d7Dc79';
+const registry = getContractAddresses(NetworkConfig.BASE_SEPOLIA).identity;
+const now = Math.floor(Date.now() / 1000);
+
+function createAgent() {
+  const provider = { getNetwork: async () => ({ chainId: 84532n }) } as any;
+  const signer = new ethers.Wallet(privateKey, provider);
+  return new ChaosAgent(getContractAddresses(NetworkConfig.BASE_SEPOLIA), signer, provider);
+}
+
+function tempFile(name: string) {
+  return join(mkdtempSync(join(tmpdir(), 'feedback-auth-')), name);
+}
+
+describe('FeedbackAuth', () => {
+  it('should decode authorizations written by generateFeedbackAuthorization', async () => {
+    const blob = await createAgent().generateFeedbackAuthorization(7n, client, 3n, 2000000000n);
+    const auth = decodeFeedbackAuth(blob);
+
+    expect(auth).toMatchObject({
+      agentId: 7n,
+      clientAddress: client,
+      indexLimit: 3n,
+      expiry: 2000000000n,
+      chainId: 84532n,
+      identityRegistry: ethers.getAddress(registry),
+      signerAddress: owner,
+      indexLimitAlignment: 'left',
+    });
+    expect(() => decodeFeedbackAuth('0x1234')).toThrow(ValidationError);
+  });
+
+  it('should decode ABI-encoded (right-aligned) index limits', async () => {
+    const wallet = new ethers.Wallet(privateKey);
+    const fields = {
+      agentId: 7n,
+      clientAddress: client,
+      indexLimit: 5n,
+      expiry: 2000000000n,
+      chainId: 84532n,
+      identityRegistry: registry,
+      signerAddress: owner,
+    };
+    const struct = ethers.AbiCoder.defaultAbiCoder().encode(
+      ['uint256', 'address', 'uint64', 'uint256', 'uint256', 'address', 'address'],
+      Object.values(fields)
+    );
+    const signature = await wallet.signMessage(ethers.getBytes(feedbackAuthDigest(fields)));
+    const blob = ethers.concat([struct, signature]);
+
+    const result = await verifyFeedbackAuth(blob, { chainId: 84532, identityRegistry: registry });
+    expect(result.auth).toMatchObject({ indexLimit: 5n, indexLimitAlignment: 'right' });
+    expect(result.valid).toBe(true);
+  });
+
+  it('should report every failed check', async () => {
+    const blob = await createAgent().generateFeedbackAuthorization(7n, client, 3n, BigInt(now - 1));
+    const tampered = ethers.concat([
+      ethers.dataSlice(blob, 0, 31),
+      '0x08',
+      ethers.dataSlice(blob, 32),
+    ]);
+
+    const result = await verifyFeedbackAuth(tampered, {
+      chainId: 1,
+      identityRegistry: ethers.ZeroAddress,
+      agentId: 7n,
+      clientAddress: owner,
+      lastIndex: 3n,
+      isAuthorizedSigner: async () => false,
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.failures).toEqual([
+      'bad_signature',
+      'expired',
+      'wrong_chain',
+      'wrong_registry',
+      'wrong_agent',
+      'wrong_client',
+      'index_limit_reached',
+      'unauthorized_signer',
+    ]);
+  });
+
+  it('should track, report and expire issued grants', async () => {
+    const agent = createAgent();
+    const ledger = new FeedbackAuthLedger(tempFile('ledger.json'));
+    const other = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+    ledger.record(await agent.generateFeedbackAuthorization(7n, client, 2n, BigInt(now + 3600)));
+    ledger.record(await agent.generateFeedbackAuthorization(7n, other, 1n, BigInt(now + 3600)));
+    ledger.record(await agent.generateFeedbackAuthorization(7n, other, 2n, BigInt(now - 10)));
+    ledger.record(await agent.generateFeedbackAuthorization(8n, client, 1n, BigInt(now + 3600)));
+
+    const lastIndexes: Record<string, bigint> = { [client]: 1n, [other]: 1n };
+    const getLastIndex = vi.fn(async (address: string) => lastIndexes[address]);
+    const report = await ledger.report(7n, getLastIndex);
+
+    expect(report.map((grant) => grant.status)).toEqual(['outstanding', 'used', 'expired']);
+    expect(getLastIndex).toHaveBeenCalledTimes(2);
+    expect(ledger.list({ clientAddress: client.toLowerCase() })).toHaveLength(2);
+
+    expect(ledger.expire()).toHaveLength(1);
+    expect(new FeedbackAuthLedger((ledger as any).path).list()).toHaveLength(3);
+  });
+
+  it('should issue authorizations with the next index limit', async () => {
+    const sdk = new ChaosChainSDK({
+      agentName: 'Alice',
+      agentDomain: 'alice.example.com',
+      agentRole: AgentRole.SERVER,
+      network: NetworkConfig.BASE_SEPOLIA,
+      privateKey,
+      enablePayments: false,
+      enableStorage: false,
+      feedbackAuthLedgerFile: tempFile('ledger.json'),
+    });
+    const agent = createAgent();
+    (sdk as any).chaosAgent = Object.assign(agent, {
+      getLastIndex: vi.fn(async () => 4n),
+      getAgentOwner: vi.fn(async () => owner),
+    });
+    (sdk as any)._agentId = 7n;
+
+    const { feedbackAuth, grant } = await sdk.issueFeedbackAuth(client, { feedbackCount: 2 });
+
+    expect(grant).toMatchObject({ agentId: '7', clientAddress: client, indexLimit: '6' });
+    expect(grant!.expiry).toBeGreaterThan(now + 86000);
+    const verification = await sdk.verifyFeedbackAuth(feedbackAuth, { clientAddress: client });
+    expect(verification.failures).toEqual([]);
+    expect((await sdk.getFeedbackAuthReport()).map((r) => r.status)).toEqual(['outstanding']);
+  });
+
+  it('should still sign authorizations when the ledger cannot be written', async () => {
+    // The ledger directory would have to be created inside a regular file
+    const blocker = tempFile('blocker');
+    writeFileSync(blocker, '');
+    const sdk = new ChaosChainSDK({
+      agentName: 'Alice',
+      agentDomain: 'alice.example.com',
+      agentRole: AgentRole.SERVER,
+      network: NetworkConfig.BASE_SEPOLIA,
+      privateKey,
+      enablePayments: false,
+      enableStorage: false,
+      feedbackAuthLedgerFile: join(blocker, 'ledger.json'),
+    });
+    (sdk as any).chaosAgent = Object.assign(createAgent(), {
+      getLastIndex: vi.fn(async () => 0n),
+    });
+    (sdk as any)._agentId = 7n;
+
+    const blob = await sdk.generateFeedbackAuthorization(7n, client, 1n, BigInt(now + 3600));
+    expect(decodeFeedbackAuth(blob).agentId).toBe(7n);
+    expect((await sdk.issueFeedbackAuth(client)).grant).toBeNull();
+  });
+});
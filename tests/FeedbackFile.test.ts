@@ -0,0 +1,158 @@
+/**
+ * ERC-8004 Feedback File Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { ChaosChainSDK } from '../src/ChaosChainSDK';
+import { AgentRole, NetworkConfig } from '../src/types';
+import { ValidationError } from '../src/exceptions';
+import { UriResolver } from '../src/resolver';
+import {
+  buildFeedbackFile,
+  computeFeedbackHash,
+  encodeFeedbackFile,
+  verifyFeedbackEvents,
+} from '../src/FeedbackFile';
+
+const privateKey = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const client = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const otherClient = '0x70997970c51812dC3A010c7D01b50E17B4d7Dc79';
+const registry = '0x8004aa7C931bCE1233973a0C6A667f73F66282e7';
+
+function feedbackFile(score: number, clientAddress = client) {
+  return buildFeedbackFile({
+    agentId: 5n,
+    chainId: 84532,
+    identityRegistry: registry,
+    clientAddress,
+    score,
+    tag1: 'quality',
+    skill: 'summarize',
+    task: 'task-42',
+    proofOfPayment: { fromAddress: client, toAddress: registry, chainId: 84532, txHash: '0xabc' },
+    context: { notes: 'fast and accurate' },
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+  });
+}
+
+function dataUri(bytes: Uint8Array) {
+  return `data:application/json;base64,${Buffer.from(bytes).toString('base64')}`;
+}
+
+function newFeedback(
+  blockNumber: number,
+  args: { score: number; feedbackUri: string; feedbackHash: string; clientAddress?: string }
+) {
+  return {
+    blockNumber,
+    index: 0,
+    transactionHash: `0x${blockNumber.toString(16).padStart(64, '0')}`,
+    args: {
+      agentId: 5n,
+      clientAddress: client,
+      tag1: ethers.ZeroHash,
+      tag2: ethers.ZeroHash,
+      ...args,
+      score: BigInt(args.score),
+    },
+  } as any;
+}
+
+describe('Feedback files', () => {
+  it('should build files and hash their canonical bytes', () => {
+    const file = feedbackFile(90);
+    expect(file.agentRegistry).toBe(`eip155:84532:${registry}`);
+    expect(file.clientAddress).toBe(`eip155:84532:${client}`);
+    expect(file.agentId).toBe('5');
+
+    const bytes = encodeFeedbackFile(file);
+    const reordered = encodeFeedbackFile(Object.fromEntries(Object.entries(file).reverse()) as any);
+    expect(computeFeedbackHash(bytes)).toBe(ethers.keccak256(bytes));
+    expect(computeFeedbackHash(reordered)).toBe(computeFeedbackHash(bytes));
+    expect(() => feedbackFile(101)).toThrow(ValidationError);
+  });
+
+  it('should verify feedback files against on-chain hashes', async () => {
+    const good = encodeFeedbackFile(feedbackFile(90));
+    const tampered = encodeFeedbackFile(feedbackFile(10));
+    const otherFile = encodeFeedbackFile(feedbackFile(70, otherClient));
+    const events = [
+      newFeedback(1, {
+        score: 90,
+        feedbackUri: dataUri(good),
+        feedbackHash: computeFeedbackHash(good),
+      }),
+      newFeedback(2, {
+        score: 90,
+        feedbackUri: dataUri(tampered),
+        feedbackHash: computeFeedbackHash(good),
+      }),
+      newFeedback(3, {
+        score: 70,
+        feedbackUri: dataUri(otherFile),
+        feedbackHash: ethers.ZeroHash,
+        clientAddress: otherClient,
+      }),
+      newFeedback(4, { score: 50, feedbackUri: 'ipfs://not-a-cid', feedbackHash: ethers.ZeroHash }),
+      newFeedback(5, { score: 50, feedbackUri: '', feedbackHash: ethers.ZeroHash }),
+    ];
+
+    const feedback = await verifyFeedbackEvents(events, new UriResolver({ fetch: vi.fn() as any }));
+
+    expect(feedback.map((entry) => entry.verification)).toEqual([
+      'verified',
+      'mismatch',
+      'unhashed',
+      'unresolvable',
+      'no_uri',
+    ]);
+    expect(feedback.map((entry) => entry.feedbackIndex)).toEqual([1n, 2n, 1n, 3n, 4n]);
+    expect(feedback[0].file?.skill).toBe('summarize');
+    expect(feedback[0].inconsistencies).toEqual([]);
+    expect(feedback[1].inconsistencies).toEqual(['score']);
+    expect(feedback[3].error).toContain('invalid_uri');
+
+    // Later entries keep the indexes they have when reading from the start
+    const fetch = vi.fn();
+    const recent = await verifyFeedbackEvents(events, new UriResolver({ fetch: fetch as any }), 3);
+    expect(recent.map((entry) => [entry.blockNumber, entry.feedbackIndex])).toEqual([
+      [3, 1n],
+      [4, 3n],
+      [5, 4n],
+    ]);
+  });
+
+  it('should give feedback with the hash of the published file bytes', async () => {
+    const sdk = new ChaosChainSDK({
+      agentName: 'Client',
+      agentDomain: 'client.example.com',
+      agentRole: AgentRole.CLIENT,
+      network: NetworkConfig.BASE_SEPOLIA,
+      privateKey,
+      enablePayments: false,
+      enableStorage: false,
+    });
+    const giveFeedback = vi.fn(async () => '0xfeedback');
+    (sdk as any).chaosAgent = { giveFeedback };
+
+    const result = await sdk.giveFeedbackWithFile(5n, 95, {
+      tag1: 'quality',
+      task: 'task-42',
+      inline: true,
+    });
+
+    const bytes = Buffer.from(result.feedbackUri.split(',')[1], 'base64');
+    expect(result.feedbackHash).toBe(ethers.keccak256(bytes));
+    expect(JSON.parse(bytes.toString('utf8'))).toEqual(result.file);
+    expect(giveFeedback).toHaveBeenCalledWith(
+      expect.objectContaining({
+        agentId: 5n,
+        rating: 95,
+        feedbackUri: result.feedbackUri,
+        feedbackHash: result.feedbackHash,
+        feedbackData: expect.objectContaining({ tag1: ethers.encodeBytes32String('quality') }),
+      })
+    );
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Feedback Response Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { ChaosChainSDK } from '../src/ChaosChainSDK';
+import { AgentRole, NetworkConfig } from '../src/types';
+import { ValidationError } from '../src/exceptions';
+import { UriResolver } from '../src/resolver';
+import { VerifiedFeedback, buildFeedbackFile, encodeFeedbackFile } from '../src/FeedbackFile';
+import {
+  FeedbackResponder,
+  buildFeedbackResponse,
+  buildFeedbackThreads,
+  draftFeedbackResponse,
+  encodeFeedbackResponse,
+} from '../src/FeedbackResponse';
+
+const privateKey = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const agentOwner = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const client = '0x70997970c51812dC3A010c7D01b50E17B4d7Dc79';
+const otherClient = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const registry = '0x8004aa7C931bCE1233973a0C6A667f73F66282e7';
+const settings = { chainId: 84532, identityRegistry: registry, responder: agentOwner };
+
+function dataUri(bytes: Uint8Array) {
+  return `data:application/json;base64,${Buffer.from(bytes).toString('base64')}`;
+}
+
+function verifiedFeedback(overrides: Partial<VerifiedFeedback> = {}): VerifiedFeedback {
+  return {
+    agentId: 5n,
+    clientAddress: client,
+    feedbackIndex: 2n,
+    score: 20,
+    tag1: ethers.ZeroHash,
+    tag2: ethers.ZeroHash,
+    feedbackUri: 'ipfs://feedback',
+    feedbackHash: ethers.id('feedback'),
+    blockNumber: 10,
+    txHash: ethers.id('tx'),
+    verification: 'verified',
+    file: buildFeedbackFile({
+      agentId: 5n,
+      chainId: 84532,
+      identityRegistry: registry,
+      clientAddress: client,
+      score: 20,
+      proofOfPayment: {
+        fromAddress: client,
+        toAddress: agentOwner,
+        chainId: 84532,
+        txHash: '0xpay',
+      },
+    }),
+    inconsistencies: [],
+    ...overrides,
+  };
+}
+
+function responseEvent(
+  blockNumber: number,
+  args: { clientAddress: string; feedbackIndex: bigint; responseUri: string; responseHash: string }
+) {
+  return {
+    blockNumber,
+    transactionHash: ethers.id(`response-${blockNumber}`),
+    args: { agentId: 5n, responder: agentOwner, ...args },
+  } as any;
+}
+
+describe('Feedback responses', () => {
+  it('should draft responses with payment receipts and disputes', () => {
+    const draft = draftFeedbackResponse(verifiedFeedback(), settings);
+    expect(draft).toMatchObject({
+      agentRegistry: `eip155:84532:${registry}`,
+      clientAddress: `eip155:84532:${client}`,
+      feedbackIndex: '2',
+      feedbackHash: ethers.id('feedback'),
+      kind: 'acknowledgement',
+    });
+    expect(draft.evidence).toEqual([
+      expect.objectContaining({ type: 'payment_receipt', txHash: '0xpay' }),
+    ]);
+
+    const dispute = draftFeedbackResponse(verifiedFeedback({ inconsistencies: ['score'] }), {
+      ...settings,
+      evidence: [{ type: 'integrity_proof', uri: 'ipfs://proof', hash: '0xproof' }],
+    });
+    expect(dispute.kind).toBe('dispute');
+    expect(dispute.message).toContain('(score)');
+    expect(dispute.evidence.map((item) => item.type)).toEqual([
+      'payment_receipt',
+      'integrity_proof',
+    ]);
+
+    expect(() =>
+      buildFeedbackResponse({
+        ...settings,
+        agentId: 5n,
+        clientAddress: client,
+        feedbackIndex: 0n,
+        kind: 'dispute',
+        message: 'x',
+      })
+    ).toThrow(ValidationError);
+  });
+
+  it('should thread responses under the feedback they answer', async () => {
+    const response = encodeFeedbackResponse(draftFeedbackResponse(verifiedFeedback(), settings));
+    const feedback = [
+      verifiedFeedback({ feedbackIndex: 1n }),
+      verifiedFeedback(),
+      verifiedFeedback({ clientAddress: otherClient, feedbackIndex: 2n }),
+    ];
+    const events = [
+      responseEvent(11, {
+        clientAddress: client,
+        feedbackIndex: 2n,
+        responseUri: dataUri(response),
+        responseHash: ethers.keccak256(response),
+      }),
+      responseEvent(12, {
+        clientAddress: client,
+        feedbackIndex: 2n,
+        responseUri: dataUri(response),
+        responseHash: ethers.id('something else'),
+      }),
+    ];
+
+    const threads = await buildFeedbackThreads(
+      feedback,
+      events,
+      new UriResolver({ fetch: vi.fn() as any })
+    );
+
+    expect(threads.map((thread) => thread.responses.length)).toEqual([0, 2, 0]);
+    expect(threads[1].responses.map((entry) => entry.verification)).toEqual([
+      'verified',
+      'mismatch',
+    ]);
+    expect(threads[1].responses[0].response?.kind).toBe('acknowledgement');
+  });
+
+  it('should draft responses to new low scores and publish approved ones', async () => {
+    const low = verifiedFeedback();
+    const file = encodeFeedbackFile(low.file!);
+    const feedbackEvent = (index: number, score: number, hash: string) => ({
+      blockNumber: 10,
+      index,
+      transactionHash: ethers.id('tx'),
+      args: {
+        agentId: 5n,
+        clientAddress: client,
+        score: BigInt(score),
+        tag1: ethers.ZeroHash,
+        tag2: ethers.ZeroHash,
+        feedbackUri: dataUri(file),
+        feedbackHash: hash,
+      },
+    });
+    const chaosAgent = {
+      getFeedbackEvents: vi.fn(async () => [
+        feedbackEvent(0, 90, ethers.id('good')),
+        feedbackEvent(1, 20, ethers.keccak256(file)),
+      ]),
+      appendResponse: vi.fn(async () => '0xresponse'),
+    };
+    const upload = vi.fn(async (bytes: Uint8Array) => dataUri(bytes));
+    const resolver = new UriResolver({ fetch: vi.fn() as any });
+    const resolve = vi.spyOn(resolver, 'resolve');
+    const config = { ...settings, agentId: 5n, upload, uriResolver: resolver };
+
+    const reviewer = new FeedbackResponder(chaosAgent as any, {
+      ...config,
+      review: async (draft) => ({ ...draft, message: 'Refunded.' }),
+    });
+    const published = await reviewer.handleFeedback(client, 10, 1);
+
+    expect(published).toMatchObject({
+      txHash: '0xresponse',
+      response: { message: 'Refunded.', feedbackIndex: '2' },
+    });
+    const uploaded = upload.mock.calls[0][0];
+    expect(chaosAgent.appendResponse).toHaveBeenCalledWith(
+      5n,
+      client,
+      2n,
+      dataUri(uploaded),
+      ethers.keccak256(uploaded)
+    );
+    // Only the answered feedback's file is fetched
+    expect(resolve).toHaveBeenCalledTimes(1);
+    expect(resolve).toHaveBeenCalledWith(dataUri(file));
+    expect(await reviewer.handleFeedback(client, 10, 1)).toBeNull();
+    expect(await reviewer.handleFeedback(client, 10, 0)).toBeNull();
+    expect(await reviewer.handleFeedback(client, 11, 0)).toBeNull();
+    expect(resolve).toHaveBeenCalledTimes(1);
+
+    const drafter = new FeedbackResponder(chaosAgent as any, config);
+    await drafter.handleFeedback(client, 10, 1);
+    expect(drafter.getPendingDrafts()).toHaveLength(1);
+    expect(chaosAgent.appendResponse).toHaveBeenCalledTimes(1);
+  });
+
+  it('should create responders only for registered agents', () => {
+    const sdk = new ChaosChainSDK({
+      agentName: 'Alice',
+      agentDomain: 'alice.example.com',
+      agentRole: AgentRole.SERVER,
+      network: NetworkConfig.BASE_SEPOLIA,
+      privateKey,
+      enablePayments: false,
+      enableStorage: false,
+    });
+
+    expect(() => sdk.createFeedbackResponder()).toThrow('Agent must be registered');
+    (sdk as any)._agentId = 5n;
+    expect(sdk.createFeedbackResponder({ scoreThreshold: 30 })).toBeInstanceOf(FeedbackResponder);
+    expect(() => sdk.createFeedbackResponder({ scoreThreshold: 130 })).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Feedback Tag Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { ChaosAgent } from '../src/ChaosAgent';
+import { NetworkConfig } from '../src/types';
+import { ValidationError } from '../src/exceptions';
+import { getContractAddresses } from '../src/utils/networks';
+import {
+  FEEDBACK_TAGS,
+  FEEDBACK_TAG_DESCRIPTIONS,
+  FeedbackTagRegistry,
+  decodeTag,
+  encodeTag,
+} from '../src/FeedbackTags';
+
+const privateKey = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+function createAgent() {
+  const provider = { getNetwork: async () => ({ chainId: 84532n }) } as any;
+  const signer = new ethers.Wallet(privateKey, provider);
+  return new ChaosAgent(getContractAddresses(NetworkConfig.BASE_SEPOLIA), signer, provider);
+}
+
+describe('Feedback tags', () => {
+  it('should encode short tags as bytes32 strings and hash long ones', () => {
+    const registry = new FeedbackTagRegistry([]);
+    const long = 'summarization-of-legal-documents-in-german';
+
+    expect(encodeTag('latency', registry)).toBe(ethers.encodeBytes32String('latency'));
+    expect(encodeTag(long, registry)).toBe(ethers.id(long));
+    expect(encodeTag(undefined)).toBe(ethers.ZeroHash);
+    expect(encodeTag(`0x${ethers.id(long).slice(2).toUpperCase()}`)).toBe(ethers.id(long));
+    expect(() => encodeTag('0x1234')).toThrow(ValidationError);
+
+    expect(decodeTag(encodeTag('latency', registry), registry)).toBe('latency');
+    expect(decodeTag(ethers.id(long), registry)).toBe(long);
+    expect(decodeTag(ethers.id('never-registered-and-long-enough-to-hash'))).toBe(
+      ethers.id('never-registered-and-long-enough-to-hash')
+    );
+    expect(decodeTag(ethers.ZeroHash)).toBe('');
+  });
+
+  it('should ship a taxonomy that round-trips through bytes32', () => {
+    for (const tag of Object.values(FEEDBACK_TAGS)) {
+      expect(FEEDBACK_TAG_DESCRIPTIONS[tag]).toBeTruthy();
+      expect(decodeTag(encodeTag(tag))).toBe(tag);
+    }
+  });
+
+  it('should encode readable tags in feedback and validation calls', async () => {
+    const agent = createAgent();
+    const tx = { wait: async () => ({ hash: '0xtx' }) };
+    const reputation = {
+      giveFeedback: vi.fn(async () => tx),
+      getSummary: vi.fn(async () => ({ count: 1n, averageScore: 90n })),
+    };
+    const validation = { validationResponse: vi.fn(async () => tx) };
+    Object.assign(agent as any, { reputationContract: reputation, validationContract: validation });
+
+    await agent.giveFeedback({
+      agentId: 5n,
+      rating: 90,
+      feedbackUri: 'ipfs://feedback',
+      feedbackData: { tag1: FEEDBACK_TAGS.ACCURACY },
+    });
+    await agent.getSummary(5n, [], FEEDBACK_TAGS.ACCURACY);
+    await agent.respondToValidation(ethers.ZeroHash, 100, 'ipfs://r', ethers.ZeroHash, 'safety');
+
+    const accuracy = ethers.encodeBytes32String('accuracy');
+    expect(reputation.giveFeedback.mock.calls[0].slice(2, 4)).toEqual([accuracy, ethers.ZeroHash]);
+    expect(reputation.getSummary).toHaveBeenCalledWith(5n, [], accuracy, ethers.ZeroHash);
+    expect((validation.validationResponse.mock.calls[0] as unknown[])[4]).toBe(
+      ethers.encodeBytes32String('safety')
+    );
+    await expect(
+      agent.respondToValidation(ethers.ZeroHash, 100, 'ipfs://r', ethers.ZeroHash, '0xdead')
+    ).rejects.toThrow(ValidationError);
+  });
+});
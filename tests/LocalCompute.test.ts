@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { LocalComputeProvider, verifyLocalExecutionReceipt } from '../src/providers/compute';
+import { ProcessIntegrity } from '../src/ProcessIntegrity';
+
+describe('LocalComputeProvider', () => {
+  it('should run a registered function in a worker and sign a receipt', async () => {
+    const signer = ethers.Wallet.createRandom();
+    const compute = new LocalComputeProvider({ signer });
+    compute.registerFunction(
+      async (inputs: { a: number; b: number }) => inputs.a + inputs.b,
+      'add'
+    );
+
+    const jobId = await compute.submit({ function: 'add', inputs: { a: 2, b: 3 } });
+    await compute.wait(jobId);
+
+    expect((await compute.status(jobId)).state).toBe('completed');
+    const result = await compute.result(jobId);
+    expect(result.success).toBe(true);
+    expect(result.output).toBe(5);
+
+    const receipt = await compute.attestation(jobId);
+    expect(receipt.signer).toBe(signer.address);
+    expect(receipt.execution_hash).toBe(result.execution_hash);
+    expect(verifyLocalExecutionReceipt(receipt)).toBe(true);
+    expect(verifyLocalExecutionReceipt({ ...receipt, output_hash: '0'.repeat(64) })).toBe(false);
+  });
+
+  it('should expose registered functions through inference', async () => {
+    const compute = new LocalComputeProvider();
+    compute.registerFunction((inputs: { text: string }) => inputs.text.toUpperCase(), 'shout');
+
+    expect(await compute.getModels()).toEqual(['shout']);
+    expect(await compute.inference('shout', { text: 'hi' })).toBe('HI');
+  });
+
+  it('should terminate jobs that exceed the time limit', async () => {
+    const compute = new LocalComputeProvider({ timeoutMs: 300 });
+    compute.registerFunction(() => {
+      for (;;) {
+        // spin
+      }
+    }, 'spin');
+
+    const jobId = await compute.submit({ function: 'spin' });
+    await compute.wait(jobId);
+
+    const status = await compute.status(jobId);
+    expect(status.state).toBe('failed');
+    expect(status.error).toContain('time limit');
+    await expect(compute.attestation(jobId)).rejects.toThrow('No receipt');
+  });
+
+  it('should not leak the parent environment into workers', async () => {
+    process.env.LOCAL_COMPUTE_SECRET = 'secret';
+    const compute = new LocalComputeProvider();
+    compute.registerFunction(() => process.env.LOCAL_COMPUTE_SECRET ?? null, 'readEnv');
+
+    expect(await compute.inference('readEnv', {})).toBeNull();
+    delete process.env.LOCAL_COMPUTE_SECRET;
+  });
+
+  it('should reject functions that cannot be serialized', () => {
+    const compute = new LocalComputeProvider();
+    const holder = {
+      method(inputs: unknown) {
+        return inputs;
+      },
+    };
+    expect(() => compute.registerFunction(holder.method, 'method')).toThrow('cannot be serialized');
+  });
+
+  it('should supply TEE attestations to ProcessIntegrity', async () => {
+    const compute = new LocalComputeProvider();
+    const double = async (inputs: { x: number }) => inputs.x * 2;
+    compute.registerFunction(double, 'double');
+
+    const integrity = new ProcessIntegrity('LocalAgent', null, compute);
+    integrity.registerFunction(double, 'double');
+    const [result, proof] = await integrity.executeWithProof('double', { x: 21 }, true, true);
+
+    expect(result).toBe(42);
+    expect(proof!.tee_provider).toBe('local');
+    expect(verifyLocalExecutionReceipt(proof!.tee_attestation!.attestation_data)).toBe(true);
+    expect((await integrity.verifyProof(proof!)).valid).toBe(true);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Metadata Version History Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { UriResolver } from '../src/resolver';
+import { buildMetadataTimeline, diffMetadata } from '../src/MetadataHistory';
+import { buildRegistrationFile, encodeRegistrationDataUri } from '../src/RegistrationFile';
+
+const owner = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const operator = '0x70997970C51812dc3A010C7d01b50e17b4d7dc79';
+
+const v1 = buildRegistrationFile({
+  name: 'Alice',
+  a2a: 'https://alice.example.com/a2a',
+  extra: { capabilities: ['search', 'summarize'] },
+});
+const v2 = buildRegistrationFile({
+  name: 'Alice',
+  a2a: 'https://alice-v2.example.com/a2a',
+  mcp: 'https://alice.example.com/mcp',
+  extra: { capabilities: ['search', 'translate'] },
+});
+
+function event(
+  eventName: string,
+  blockNumber: number,
+  args: Record<string, any>,
+  from: string = owner
+) {
+  return {
+    eventName,
+    blockNumber,
+    args,
+    index: 0,
+    transactionHash: `0x${blockNumber.toString(16).padStart(64, '0')}`,
+    getTransaction: vi.fn(async () => ({ from })),
+  } as any;
+}
+
+const events = [
+  event('Registered', 10, { agentId: 1n, tokenURI: encodeRegistrationDataUri(v1), owner }),
+  event('MetadataSet', 12, { agentId: 1n, key: 'agentName', value: '0x416c696365' }, operator),
+  event('UriUpdated', 20, {
+    agentId: 1n,
+    newUri: encodeRegistrationDataUri(v2),
+    updatedBy: operator,
+  }),
+  event('UriUpdated', 25, { agentId: 1n, newUri: 'ipfs://not-a-cid', updatedBy: owner }),
+];
+
+const resolver = new UriResolver({ fetch: vi.fn() as any });
+
+describe('Metadata history', () => {
+  it('should build a timeline with resolved versions and updaters', async () => {
+    const timeline = await buildMetadataTimeline(1n, events, resolver);
+
+    expect(timeline.versions.map((v) => [v.kind, v.blockNumber, v.updatedBy])).toEqual([
+      ['registered', 10, owner],
+      ['metadata_set', 12, operator],
+      ['uri_updated', 20, operator],
+      ['uri_updated', 25, owner],
+    ]);
+    expect(timeline.versions[0].document?.name).toBe('Alice');
+    expect(timeline.versions[0].changes).toEqual([{ path: '<root>', kind: 'added', after: v1 }]);
+    expect(timeline.versions[1].changes).toEqual([
+      { path: 'onChain.agentName', kind: 'added', after: '0x416c696365' },
+    ]);
+    expect(timeline.versions[3].resolutionError?.reason).toBe('invalid_uri');
+    expect(timeline.flagged).toEqual([]);
+  });
+
+  it('should diff endpoints by name and capabilities as sets', async () => {
+    const timeline = await buildMetadataTimeline(1n, events, resolver);
+
+    expect(timeline.versions[2].changes).toEqual([
+      { path: 'capabilities', kind: 'removed', before: 'summarize' },
+      { path: 'capabilities', kind: 'added', after: 'translate' },
+      {
+        path: 'endpoints[A2A].endpoint',
+        kind: 'changed',
+        before: 'https://alice.example.com/a2a',
+        after: 'https://alice-v2.example.com/a2a',
+      },
+      {
+        path: 'endpoints[MCP]',
+        kind: 'added',
+        after: { name: 'MCP', endpoint: 'https://alice.example.com/mcp' },
+      },
+    ]);
+  });
+
+  it('should flag changes made by an address other than the current owner', async () => {
+    const timeline = await buildMetadataTimeline(1n, events, resolver, {
+      currentOwner: owner.toLowerCase(),
+    });
+
+    expect(timeline.flagged.map((v) => v.blockNumber)).toEqual([12, 20]);
+    expect(timeline.versions[0].byNonOwner).toBe(false);
+  });
+
+  it('should report scalar changes and removals', () => {
+    expect(diffMetadata({ a: 1, b: { c: 'x' } }, { a: 2, b: {} })).toEqual([
+      { path: 'a', kind: 'changed', before: 1, after: 2 },
+      { path: 'b.c', kind: 'removed', before: 'x' },
+    ]);
+    expect(diffMetadata({ a: [1, 2] }, { a: [2, 1] })).toEqual([]);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Cross-chain Identity Linking Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import { MultiNetworkIdentity } from '../src/MultiNetworkIdentity';
+import { buildRegistrationFile, encodeRegistrationDataUri } from '../src/RegistrationFile';
+import { FakeRegistry, fakeRegistry } from './helpers/fakeRegistry';
+
+const networks = ['base-sepolia', 'linea-sepolia', '0g-testnet'];
+
+function createManager(
+  registries: Record<string, FakeRegistry>,
+  wallet: ethers.HDNodeWallet = ethers.Wallet.createRandom()
+) {
+  const manager = new MultiNetworkIdentity(wallet, { networks });
+  Object.entries(registries).forEach(([network, registry]) =>
+    (manager as any).agents.set(network, registry)
+  );
+  return manager;
+}
+
+const file = buildRegistrationFile({ name: 'Alice' });
+
+describe('MultiNetworkIdentity', () => {
+  it('should register on every network and link the registrations', async () => {
+    const wallet = ethers.Wallet.createRandom();
+    const registries = Object.fromEntries(
+      networks.map((n) => [n, fakeRegistry({}, wallet.address)])
+    );
+    const manager = createManager(registries, wallet);
+
+    const { identities, file: linked } = await manager.register(file);
+
+    expect(identities.map((i) => [i.network, i.agentId, i.registered])).toEqual([
+      ['base-sepolia', 50n, true],
+      ['linea-sepolia', 50n, true],
+      ['0g-testnet', 50n, true],
+    ]);
+    expect(linked.registrations.map((r) => r.agentRegistry)).toEqual([
+      'eip155:84532:0x8004AA63c570c570eBF15376c0dB199918BFe9Fb',
+      'eip155:59141:0x8004aa7C931bCE1233973a0C6A667f73F66282e7',
+      'eip155:16600:0x80043ed9cf33a3472768dcd53175bb44e03a1e4a',
+    ]);
+
+    // Linea was registered with Base's entry only, then updated with all three
+    const lineaFile = registries['linea-sepolia'].registerWithTokenUri.mock.calls[0][0];
+    expect(lineaFile).toBe(
+      encodeRegistrationDataUri({ ...file, registrations: [linked.registrations[0]] })
+    );
+    networks.forEach((n) => expect(registries[n].updateAgentMetadata).toHaveBeenCalledOnce());
+
+    const report = await manager.verifyLinks(identities);
+    expect(report.linked).toBe(true);
+    expect(report.networks.every((status) => status.missing.length === 0)).toBe(true);
+  });
+
+  it('should reuse existing identities', async () => {
+    const wallet = ethers.Wallet.createRandom();
+    const bob = buildRegistrationFile({ name: 'Bob' });
+    const registries = {
+      'base-sepolia': fakeRegistry({ 7: file }, wallet.address),
+      'linea-sepolia': fakeRegistry({ 2: bob }, wallet.address),
+      '0g-testnet': fakeRegistry({ 3: file }, wallet.address),
+    };
+    const manager = createManager(registries, wallet);
+
+    const { identities } = await manager.register(file, { agentIds: { '0g-testnet': 3n } });
+
+    expect(identities.map((i) => [i.agentId, i.registered])).toEqual([
+      [7n, false],
+      [50n, true],
+      [3n, false],
+    ]);
+    expect(registries['0g-testnet'].registerWithTokenUri).not.toHaveBeenCalled();
+    expect(registries['base-sepolia'].updateAgentMetadata).toHaveBeenCalledWith(
+      7n,
+      expect.objectContaining({ registrations: expect.any(Array) })
+    );
+    // Bob is another agent of the same wallet and is left alone
+    expect(registries['linea-sepolia'].updateAgentMetadata).not.toHaveBeenCalledWith(
+      2n,
+      expect.anything()
+    );
+
+    const found = await manager.lookup(file);
+    expect(found.map((i) => [i.network, i.agentId])).toEqual([
+      ['base-sepolia', 7n],
+      ['linea-sepolia', 50n],
+      ['0g-testnet', 3n],
+    ]);
+  });
+
+  it('should report identities that do not point back', async () => {
+    const wallet = ethers.Wallet.createRandom();
+    const registries = Object.fromEntries(
+      networks.map((n) => [n, fakeRegistry({}, wallet.address)])
+    );
+    const manager = createManager(registries, wallet);
+    const { identities } = await manager.register(file);
+
+    // Linea's file is replaced with one that only lists itself
+    const linea = identities[1];
+    registries['linea-sepolia'].store.get(linea.agentId)!.uri = encodeRegistrationDataUri({
+      ...file,
+      registrations: [{ agentId: '50', agentRegistry: linea.agentRegistry }],
+    });
+
+    const report = await manager.verifyLinks(identities);
+    expect(report.linked).toBe(false);
+    expect(report.networks[1].missing).toEqual(['base-sepolia', '0g-testnet']);
+    expect(report.networks[0].linked).toBe(true);
+  });
+
+  it('should not link identities owned by different addresses', async () => {
+    const registries = Object.fromEntries(
+      networks.map((n) => [n, fakeRegistry({}, ethers.Wallet.createRandom().address)])
+    );
+    const manager = createManager(registries);
+    const { identities } = await manager.register(file);
+
+    const report = await manager.verifyLinks(identities);
+    expect(report.networks.every((status) => status.linked)).toBe(true);
+    expect(report.linked).toBe(false);
+  });
+});
@@ -0,0 +1,282 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { ProcessInsurance, verifyInsurancePolicy } from '../src/ProcessInsurance';
+import { ProcessIntegrity } from '../src/ProcessIntegrity';
+import { ChaosAgent } from '../src/ChaosAgent';
+import { StorageBackend } from '../src/StorageBackends';
+import { X402PaymentManager } from '../src/X402PaymentManager';
+
+describe('ProcessInsurance', () => {
+  const validator = '0x70997970C51812dc3A010C7d01b50e17b4d7dc79';
+  const beneficiary = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+  const escrowAddress = '0x90F79bf6EB2c4f870365E785982E1f101E93b906';
+  const insurer = ethers.Wallet.createRandom();
+
+  let dir: string;
+  let verifier: ProcessIntegrity;
+  let uploads: Buffer[];
+  let validationStatus: { response: number; responseHash: string; validatorAddress: string };
+  let requestValidation: ReturnType<typeof vi.fn>;
+  let executePayment: ReturnType<typeof vi.fn>;
+  let chaosAgent: ChaosAgent;
+  let storage: StorageBackend;
+  let paymentManager: X402PaymentManager;
+
+  function createInsurance(overrides: Record<string, any> = {}) {
+    return new ProcessInsurance(verifier, chaosAgent, storage, {
+      agentName: 'Insurer',
+      signer: insurer,
+      chainId: 84532,
+      agentId: 7n,
+      validatorAddress: validator,
+      storePath: path.join(dir, 'insurance.json'),
+      paymentManager,
+      ...overrides,
+    });
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'insurance-'));
+    verifier = new ProcessIntegrity('Insurer');
+    let calls = 0;
+    verifier.registerFunction(async (inputs: Record<string, any>) => inputs.x + calls++, 'flaky');
+
+    uploads = [];
+    storage = {
+      put: async (data) => {
+        uploads.push(Buffer.from(data));
+        return { cid: `cid${uploads.length}`, provider: 'memory' };
+      },
+      get: async () => Buffer.from(''),
+    };
+
+    validationStatus = { response: 0, responseHash: ethers.ZeroHash, validatorAddress: validator };
+    requestValidation = vi.fn(async () => '0xclaimtx');
+    chaosAgent = {
+      requestValidation,
+      getValidationStatus: async () => ({
+        ...validationStatus,
+        agentId: 7n,
+        tag: '',
+        lastUpdate: 1n,
+      }),
+      onValidationResponse: vi.fn(),
+    } as unknown as ChaosAgent;
+
+    executePayment = vi.fn(async (request: any, recipient: string) => ({
+      payment_id: request.payment_id,
+      transaction_hash: `0xpay_${recipient.slice(2, 8)}`,
+      status: 'confirmed',
+    }));
+    paymentManager = {
+      createPaymentRequest: (_from: string, _to: string, amount: number) => ({
+        payment_id: `x402_${amount}`,
+        amount,
+      }),
+      executePayment,
+    } as unknown as X402PaymentManager;
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('policies', () => {
+    it('should issue a policy signed by the insurer and pinned to the code hash', async () => {
+      const insurance = createInsurance();
+      const policy = await insurance.createPolicy('flaky', 100, { conditions: { sla: '99.9%' } });
+
+      expect(policy.code_hash).toBe(verifier.getCodeHash('flaky'));
+      expect(policy.insurer_address).toBe(insurer.address);
+      expect(policy.status).toBe('active');
+      expect(verifyInsurancePolicy(policy)).toBe(true);
+      expect(verifyInsurancePolicy({ ...policy, coverage_amount: 1000 })).toBe(false);
+    });
+
+    it('should refuse to insure an unregistered function', async () => {
+      await expect(createInsurance().createPolicy('missing', 100)).rejects.toThrow(
+        'not registered'
+      );
+    });
+
+    it('should persist policies and reload them', async () => {
+      const policy = await createInsurance().createPolicy('flaky', 100);
+
+      const reloaded = createInsurance();
+      expect(reloaded.getPolicy(policy.policy_id)).toEqual(policy);
+    });
+
+    it('should reject a tampered store', async () => {
+      await createInsurance().createPolicy('flaky', 100);
+      const storePath = path.join(dir, 'insurance.json');
+      const data = JSON.parse(readFileSync(storePath, 'utf8'));
+      data.policies[0].coverage_amount = 1_000_000;
+      writeFileSync(storePath, JSON.stringify(data));
+
+      expect(() => createInsurance()).toThrow('invalid signature');
+    });
+
+    it('should deposit the coverage in escrow when requested', async () => {
+      const insurance = createInsurance({ escrow: { address: escrowAddress } });
+      const policy = await insurance.createPolicy('flaky', 250, { escrow: true });
+
+      expect(executePayment).toHaveBeenCalledWith(expect.anything(), escrowAddress);
+      expect(policy.escrow_address).toBe(escrowAddress);
+      expect(policy.escrow_deposit?.amount).toBe(250);
+    });
+  });
+
+  describe('claims', () => {
+    it('should file a claim for a proof that fails verification', async () => {
+      const insurance = createInsurance();
+      const policy = await insurance.createPolicy('flaky', 100);
+      const [, proof] = await verifier.executeWithProof('flaky', { x: 1 }, true, false);
+
+      const claim = await insurance.fileClaim(
+        policy.policy_id,
+        { ...proof!, result: 999 },
+        { beneficiary }
+      );
+
+      expect(claim.grounds).toBe('failed_verification');
+      expect(claim.failed_checks.map((c) => c.check)).toContain('execution_hash');
+      expect(requestValidation).toHaveBeenCalledWith(
+        validator,
+        7n,
+        'ipfs://cid1',
+        claim.claim_hash
+      );
+      const evidence = JSON.parse(uploads[0].toString());
+      expect(evidence.policy.policy_id).toBe(policy.policy_id);
+      expect(ethers.keccak256(uploads[0])).toBe(claim.claim_hash);
+    });
+
+    it('should file a claim for contradicting proofs', async () => {
+      const insurance = createInsurance();
+      const policy = await insurance.createPolicy('flaky', 100);
+      const [, first] = await verifier.executeWithProof('flaky', { x: 1 }, true, false);
+      const [, second] = await verifier.executeWithProof('flaky', { x: 1 }, true, false);
+
+      const claim = await insurance.fileClaim(policy.policy_id, first!, {
+        beneficiary,
+        contradictingProof: second!,
+      });
+      expect(claim.grounds).toBe('contradicted');
+    });
+
+    it('should reject a claim with a valid, uncontradicted proof', async () => {
+      const insurance = createInsurance();
+      const policy = await insurance.createPolicy('flaky', 100);
+      const [, proof] = await verifier.executeWithProof('flaky', { x: 1 }, true, false);
+
+      await expect(insurance.fileClaim(policy.policy_id, proof!, { beneficiary })).rejects.toThrow(
+        'nothing to claim'
+      );
+      expect(requestValidation).not.toHaveBeenCalled();
+    });
+
+    it('should pay out once the validator approves', async () => {
+      const insurance = createInsurance();
+      const policy = await insurance.createPolicy('flaky', 100);
+      const [, proof] = await verifier.executeWithProof('flaky', { x: 1 }, true, false);
+      const claim = await insurance.fileClaim(
+        policy.policy_id,
+        { ...proof!, result: 0 },
+        { beneficiary }
+      );
+
+      expect((await insurance.adjudicateClaim(claim.claim_id)).status).toBe('pending');
+
+      validationStatus = { ...validationStatus, response: 90, responseHash: ethers.id('ok') };
+      const settled = await insurance.adjudicateClaim(claim.claim_id);
+
+      expect(settled.status).toBe('paid');
+      expect(settled.validator_response).toBe(90);
+      expect(executePayment).toHaveBeenCalledWith(expect.anything(), beneficiary);
+      expect(insurance.getPolicy(policy.policy_id).status).toBe('claimed');
+      expect(createInsurance().getClaim(claim.claim_id).status).toBe('paid');
+    });
+
+    it('should reject a claim the validator scores below the threshold', async () => {
+      const insurance = createInsurance({ approvalThreshold: 80 });
+      const policy = await insurance.createPolicy('flaky', 100);
+      const [, proof] = await verifier.executeWithProof('flaky', { x: 1 }, true, false);
+      const claim = await insurance.fileClaim(
+        policy.policy_id,
+        { ...proof!, result: 0 },
+        { beneficiary }
+      );
+
+      validationStatus = { ...validationStatus, response: 40, responseHash: ethers.id('no') };
+      const settled = await insurance.adjudicateClaim(claim.claim_id);
+
+      expect(settled.status).toBe('rejected');
+      expect(executePayment).toHaveBeenCalledTimes(0);
+      expect(insurance.getPolicy(policy.policy_id).status).toBe('active');
+    });
+
+    it('should reject proofs of a different build of the function', async () => {
+      const insurance = createInsurance();
+      const policy = await insurance.createPolicy('flaky', 100);
+      const [, proof] = await verifier.executeWithProof('flaky', { x: 1 }, true, false);
+
+      await expect(
+        insurance.fileClaim(policy.policy_id, { ...proof!, code_hash: '0xother' }, { beneficiary })
+      ).rejects.toThrow('different build');
+    });
+
+    it('should pay a policy out only once', async () => {
+      const insurance = createInsurance();
+      const policy = await insurance.createPolicy('flaky', 100);
+      const [, proof] = await verifier.executeWithProof('flaky', { x: 1 }, true, false);
+      const file = () =>
+        insurance.fileClaim(policy.policy_id, { ...proof!, result: 0 }, { beneficiary });
+      const first = await file();
+      const second = await file();
+
+      validationStatus = { ...validationStatus, response: 90, responseHash: ethers.id('ok') };
+      const [a, b] = await Promise.all([
+        insurance.adjudicateClaim(first.claim_id),
+        insurance.adjudicateClaim(first.claim_id),
+      ]);
+      expect(a.status).toBe('paid');
+      expect(b.status).toBe('paid');
+      expect((await insurance.adjudicateClaim(second.claim_id)).status).toBe('rejected');
+      await expect(file()).rejects.toThrow(`Policy ${policy.policy_id} is claimed`);
+      expect(executePayment).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pay escrowed policies from the escrow wallet', async () => {
+      const escrowPayment = vi.fn(async (request: any) => ({
+        payment_id: request.payment_id,
+        transaction_hash: '0xescrowpayout',
+        status: 'confirmed',
+      }));
+      const escrowManager = {
+        createPaymentRequest: (_from: string, _to: string, amount: number) => ({
+          payment_id: `escrow_${amount}`,
+        }),
+        executePayment: escrowPayment,
+      } as unknown as X402PaymentManager;
+      const insurance = createInsurance({
+        escrow: { address: escrowAddress, paymentManager: escrowManager },
+      });
+      const policy = await insurance.createPolicy('flaky', 100, { escrow: true });
+      const [, proof] = await verifier.executeWithProof('flaky', { x: 1 }, true, false);
+      const claim = await insurance.fileClaim(
+        policy.policy_id,
+        { ...proof!, result: 0 },
+        { beneficiary }
+      );
+
+      validationStatus = { ...validationStatus, response: 100, responseHash: ethers.id('ok') };
+      const settled = await insurance.adjudicateClaim(claim.claim_id);
+
+      expect(escrowPayment).toHaveBeenCalledWith(expect.anything(), beneficiary);
+      expect(settled.payout?.transaction_hash).toBe('0xescrowpayout');
+    });
+  });
+});
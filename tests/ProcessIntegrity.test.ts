@@ -0,0 +1,294 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ethers } from 'ethers';
+import {
+  ProcessIntegrity,
+  ProofEvent,
+  IntegrityCheckedResult,
+  integrityCheckedFunction,
+  recoverIntegrityProofSigner,
+  withIntegrityProof,
+} from '../src/ProcessIntegrity';
+import * as sdk from '../src';
+
+describe('ProcessIntegrity', () => {
+  let verifier: ProcessIntegrity;
+
+  const double = async (inputs: Record<string, any>) => ({ value: inputs.x * 2 });
+
+  beforeEach(() => {
+    verifier = new ProcessIntegrity('TestAgent');
+    verifier.registerFunction(double, 'double');
+  });
+
+  describe('verifyProof', () => {
+    it('should verify a freshly generated proof', async () => {
+      const [result, proof] = await verifier.executeWithProof('double', { x: 21 }, true, false);
+
+      expect(result).toEqual({ value: 42 });
+      const verdict = await verifier.verifyProof(proof!);
+
+      expect(verdict.valid).toBe(true);
+      expect(verdict.proof_id).toBe(proof!.proof_id);
+      expect(verdict.checks.map((c) => c.check)).toEqual([
+        'structure',
+        'code_hash',
+        'execution_hash',
+      ]);
+    });
+
+    it('should verify a proof round-tripped through JSON', async () => {
+      const [, proof] = await verifier.executeWithProof('double', { x: 1 }, true, false);
+      const parsed = JSON.parse(JSON.stringify(proof));
+
+      const verdict = await verifier.verifyProof(parsed);
+      expect(verdict.valid).toBe(true);
+    });
+
+    it('should reject a proof with tampered result', async () => {
+      const [, proof] = await verifier.executeWithProof('double', { x: 2 }, true, false);
+      proof!.result = { value: 5 };
+
+      const verdict = await verifier.verifyProof(proof!);
+      const check = verdict.checks.find((c) => c.check === 'execution_hash');
+
+      expect(verdict.valid).toBe(false);
+      expect(check?.passed).toBe(false);
+    });
+
+    it('should reject a proof whose code hash does not match the registered function', async () => {
+      const [, proof] = await verifier.executeWithProof('double', { x: 2 }, true, false);
+      proof!.code_hash = '0'.repeat(64);
+
+      const verdict = await verifier.verifyProof(proof!);
+      expect(verdict.checks.find((c) => c.check === 'code_hash')?.passed).toBe(false);
+    });
+
+    it('should reject proofs for unregistered functions', async () => {
+      const [, proof] = await verifier.executeWithProof('double', { x: 2 }, true, false);
+      const other = new ProcessIntegrity('TestAgent');
+
+      const verdict = await other.verifyProof(proof!);
+      expect(verdict.valid).toBe(false);
+      expect(verdict.checks.find((c) => c.check === 'code_hash')?.message).toContain(
+        'not registered'
+      );
+    });
+
+    it('should flag TEE fields that do not match the attestation', async () => {
+      const [, proof] = await verifier.executeWithProof('double', { x: 3 }, true, false);
+      proof!.tee_attestation = {
+        job_id: 'job-1',
+        provider: '0g-compute',
+        execution_hash: 'abc',
+        verification_method: 'tee-ml',
+        attestation_data: {},
+        timestamp: new Date().toISOString(),
+      };
+      proof!.tee_provider = '0g-compute';
+      proof!.tee_job_id = 'job-2';
+      proof!.tee_execution_hash = 'abc';
+
+      const verdict = await verifier.verifyProof(proof!);
+      const check = verdict.checks.find((c) => c.check === 'tee_attestation');
+
+      expect(check?.passed).toBe(false);
+      expect(check?.message).toContain('tee_job_id');
+    });
+
+    it('should report missing fields as a structural failure', async () => {
+      const verdict = await verifier.verifyProof({ proof_id: 'proof_x' });
+
+      expect(verdict.valid).toBe(false);
+      expect(verdict.checks).toHaveLength(1);
+      expect(verdict.checks[0].check).toBe('structure');
+    });
+  });
+
+  describe('EIP-712 signed proofs', () => {
+    const wallet = new ethers.Wallet(
+      '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80'
+    );
+
+    beforeEach(() => {
+      verifier.configureSigning(wallet, 84532, 7n);
+    });
+
+    it('should sign proofs with the agent wallet', async () => {
+      const [, proof] = await verifier.executeWithProof('double', { x: 4 }, true, false);
+
+      expect(proof!.signature).toMatch(/^0x[0-9a-f]{130}$/);
+      expect(proof!.agent_address).toBe(wallet.address);
+      expect(proof!.agent_id).toBe('7');
+      expect(proof!.chain_id).toBe(84532);
+      expect(recoverIntegrityProofSigner(proof!)).toBe(wallet.address);
+    });
+
+    it('should check the signer owns the claimed agent', async () => {
+      const [, proof] = await verifier.executeWithProof('double', { x: 4 }, true, false);
+
+      const owned = await verifier.verifyProof(proof!, { ownerOf: async () => wallet.address });
+      expect(owned.valid).toBe(true);
+      expect(owned.checks.find((c) => c.check === 'agent_ownership')?.passed).toBe(true);
+
+      const notOwned = await verifier.verifyProof(proof!, {
+        ownerOf: async () => ethers.ZeroAddress,
+      });
+      expect(notOwned.valid).toBe(false);
+    });
+
+    it('should reject proofs re-attributed to another agent', async () => {
+      const [, proof] = await verifier.executeWithProof('double', { x: 4 }, true, false);
+      proof!.agent_id = '8';
+
+      const verdict = await verifier.verifyProof(proof!);
+      expect(verdict.checks.find((c) => c.check === 'signature')?.passed).toBe(false);
+    });
+
+    it('should require a signature when asked to', async () => {
+      const unsigned = new ProcessIntegrity('TestAgent');
+      unsigned.registerFunction(double, 'double');
+      const [, proof] = await unsigned.executeWithProof('double', { x: 4 }, true, false);
+
+      const verdict = await unsigned.verifyProof(proof!, { requireSignature: true });
+      expect(verdict.valid).toBe(false);
+    });
+  });
+});
+
+describe('withIntegrityProof', () => {
+  it('should return the result together with a verifiable proof', async () => {
+    const verifier = new ProcessIntegrity('WrapperAgent');
+    const add = withIntegrityProof(verifier, async (a: number, b: number) => a + b, {
+      name: 'add',
+      proofDelivery: 'result',
+      useTee: false,
+    });
+
+    const { result, proof } = await add(2, 3);
+
+    expect(result).toBe(5);
+    expect(proof.function_name).toBe('add');
+    expect(proof.inputs).toEqual({ args: [2, 3] });
+    expect(verifier.isRegistered('add')).toBe(true);
+    expect((await verifier.verifyProof(proof)).valid).toBe(true);
+  });
+
+  it('should keep the plain return value and emit the proof by default', async () => {
+    const verifier = new ProcessIntegrity('WrapperAgent');
+    const events: ProofEvent[] = [];
+    const unsubscribe = verifier.onProof((event) => events.push(event));
+
+    const square = withIntegrityProof(verifier, (x: number) => x * x, {
+      name: 'square',
+      useTee: false,
+    });
+
+    expect(await square(4)).toBe(16);
+    expect(events).toHaveLength(1);
+    expect(events[0].result).toBe(16);
+    expect(events[0].proof.function_name).toBe('square');
+
+    unsubscribe();
+    await square(5);
+    expect(events).toHaveLength(1);
+  });
+
+  it('should require a name for anonymous functions', () => {
+    const verifier = new ProcessIntegrity('WrapperAgent');
+    expect(() =>
+      withIntegrityProof(
+        verifier,
+        (
+          () => (x: number) =>
+            x
+        )()
+      )
+    ).toThrow('explicit name');
+  });
+});
+
+describe('integrityCheckedFunction', () => {
+  it('should register decorated methods as Class.method and bind this', async () => {
+    const verifier = new ProcessIntegrity('DecoratedAgent');
+    const listener = vi.fn();
+    verifier.onProof(listener);
+
+    class Analyst {
+      constructor(private multiplier: number) {}
+
+      @integrityCheckedFunction(verifier, { useTee: false })
+      async scale(value: number) {
+        return value * this.multiplier;
+      }
+    }
+    class Reporter {
+      @integrityCheckedFunction(verifier, { useTee: false })
+      async scale(value: number) {
+        return value;
+      }
+
+      @integrityCheckedFunction(verifier, { useTee: false })
+      static async describe() {
+        return 'reporter';
+      }
+    }
+    class SeniorAnalyst extends Analyst {}
+
+    expect(verifier.isRegistered('Reporter.describe')).toBe(true);
+    expect(await new SeniorAnalyst(3).scale(7)).toBe(21);
+    expect(await new Reporter().scale(7)).toBe(7);
+    expect(verifier.isRegistered('Analyst.scale')).toBe(true);
+    expect(verifier.isRegistered('Reporter.scale')).toBe(true);
+
+    const [event] = listener.mock.calls[0] as [ProofEvent];
+    expect(event.function_name).toBe('Analyst.scale');
+    expect(event.proof.inputs).toEqual({ args: [7] });
+    expect((await verifier.verifyProof(event.proof)).valid).toBe(true);
+  });
+
+  it('should resolve to the result and proof in result mode', async () => {
+    const verifier = new ProcessIntegrity('DecoratedAgent');
+
+    class Greeter {
+      @integrityCheckedFunction(verifier, { name: 'greet', proofDelivery: 'result', useTee: false })
+      async greet(name: string) {
+        return `hello ${name}`;
+      }
+    }
+
+    const output = (await new Greeter().greet('ada')) as unknown as IntegrityCheckedResult<string>;
+    expect(output.result).toBe('hello ada');
+    expect(output.proof.function_name).toBe('greet');
+  });
+});
+
+describe('ChaosChainSDK process integrity', () => {
+  it('should store proofs through the storage backend', async () => {
+    const put = vi.fn(async () => ({ cid: 'bafyproof', provider: 'test' }));
+    const chaos = new sdk.ChaosChainSDK({
+      agentName: 'Alice',
+      agentDomain: 'alice.example.com',
+      agentRole: sdk.AgentRole.SERVER,
+      network: sdk.NetworkConfig.BASE_SEPOLIA,
+      privateKey: '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+      enablePayments: false,
+      storageProvider: { put, get: vi.fn() } as any,
+    });
+    chaos.registerFunction(async (inputs: Record<string, any>) => inputs.x * 2, 'double');
+
+    const { result, proof } = await chaos.executeWithIntegrityProof('double', { x: 2 });
+
+    expect(result).toBe(4);
+    expect(proof.ipfs_cid).toBe('bafyproof');
+    const stored = JSON.parse(String((put.mock.calls[0] as unknown[])[0]));
+    expect(stored.proof.proof_id).toBe(proof.proof_id);
+  });
+});
+
+describe('package entry point', () => {
+  it('should export ProcessIntegrity and the wrappers', () => {
+    expect(sdk.ProcessIntegrity).toBe(ProcessIntegrity);
+    expect(sdk.withIntegrityProof).toBe(withIntegrityProof);
+    expect(sdk.integrityCheckedFunction).toBe(integrityCheckedFunction);
+  });
+});
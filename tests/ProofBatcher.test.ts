@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { IntegrityProofBatcher, computeProofLeaf } from '../src/ProofBatcher';
+import { ProcessIntegrity } from '../src/ProcessIntegrity';
+import { ChaosAgent } from '../src/ChaosAgent';
+import { StorageBackend } from '../src/StorageBackends';
+import { MerkleTree, verifyMerkleProof } from '../src/utils/merkle';
+
+describe('MerkleTree', () => {
+  const leaves = ['a', 'b', 'c', 'd', 'e'].map((v) => ethers.id(v));
+
+  it('should produce inclusion proofs for every leaf', () => {
+    const tree = new MerkleTree(leaves);
+
+    leaves.forEach((leaf, index) => {
+      expect(verifyMerkleProof(leaf, tree.getProof(index), tree.getRoot())).toBe(true);
+    });
+  });
+
+  it('should reject a leaf that is not in the tree', () => {
+    const tree = new MerkleTree(leaves);
+    expect(verifyMerkleProof(ethers.id('z'), tree.getProof(0), tree.getRoot())).toBe(false);
+  });
+
+  it('should use the leaf itself as the root of a single-leaf tree', () => {
+    const tree = new MerkleTree([leaves[0]]);
+    expect(tree.getRoot()).toBe(leaves[0]);
+    expect(tree.getProof(0)).toEqual([]);
+  });
+});
+
+describe('IntegrityProofBatcher', () => {
+  const validator = '0x70997970C51812dc3A010C7d01b50e17b4d7dc79';
+
+  function createBatcher(maxBatchSize = 3) {
+    const uploads: Buffer[] = [];
+    const storage: StorageBackend = {
+      put: async (data) => {
+        uploads.push(Buffer.from(data));
+        return { cid: `cid${uploads.length}`, provider: 'memory' };
+      },
+      get: async () => Buffer.from(''),
+    };
+    const requestValidation = vi.fn(async () => '0xanchor');
+    const chaosAgent = { requestValidation } as unknown as ChaosAgent;
+
+    const batcher = new IntegrityProofBatcher(chaosAgent, storage, {
+      validatorAddress: validator,
+      agentId: 5n,
+      maxBatchSize,
+    });
+    return { batcher, uploads, requestValidation };
+  }
+
+  async function createProofs(count: number) {
+    const verifier = new ProcessIntegrity('BatchAgent');
+    verifier.registerFunction(async (inputs: Record<string, any>) => inputs.n + 1, 'inc');
+
+    const proofs = [];
+    for (let n = 0; n < count; n++) {
+      const [, proof] = await verifier.executeWithProof('inc', { n }, true, false);
+      proofs.push(proof!);
+    }
+    return proofs;
+  }
+
+  it('should anchor the batch root as the validation request hash', async () => {
+    const { batcher, uploads, requestValidation } = createBatcher(10);
+    const proofs = await createProofs(3);
+    for (const proof of proofs) await batcher.add(proof);
+
+    const batch = await batcher.flush();
+
+    expect(batch!.proof_ids).toHaveLength(3);
+    expect(requestValidation).toHaveBeenCalledWith(validator, 5n, 'ipfs://cid1', batch!.root);
+    const document = JSON.parse(uploads[0].toString());
+    expect(document.root).toBe(batch!.root);
+    expect(document.leaves.map((l: any) => l.proof_id)).toEqual(batch!.proof_ids);
+  });
+
+  it('should give each proof a verifiable inclusion path', async () => {
+    const { batcher } = createBatcher(10);
+    const proofs = await createProofs(5);
+    for (const proof of proofs) await batcher.add(proof);
+    await batcher.flush();
+
+    for (const proof of proofs) {
+      expect(proof.batch!.leaf).toBe(computeProofLeaf(proof));
+      expect(IntegrityProofBatcher.verifyInclusion(proof)).toBe(true);
+      expect(IntegrityProofBatcher.verifyInclusion(JSON.parse(JSON.stringify(proof)))).toBe(true);
+    }
+
+    proofs[2].execution_hash = '0'.repeat(64);
+    expect(IntegrityProofBatcher.verifyInclusion(proofs[2])).toBe(false);
+  });
+
+  it('should flush automatically when the batch is full', async () => {
+    const { batcher, requestValidation } = createBatcher(2);
+    const proofs = await createProofs(3);
+    for (const proof of proofs) await batcher.add(proof);
+
+    expect(requestValidation).toHaveBeenCalledTimes(1);
+    expect(batcher.getPendingCount()).toBe(1);
+  });
+
+  it('should keep proofs pending when anchoring fails', async () => {
+    const { batcher, requestValidation } = createBatcher(10);
+    requestValidation.mockRejectedValueOnce(new Error('rpc down'));
+    const proofs = await createProofs(2);
+    for (const proof of proofs) await batcher.add(proof);
+
+    await expect(batcher.flush()).rejects.toThrow('Failed to anchor');
+    expect(batcher.getPendingCount()).toBe(2);
+
+    await batcher.flush();
+    expect(batcher.getPendingCount()).toBe(0);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * ERC-8004 Registration File Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  REGISTRATION_FILE_TYPE,
+  buildRegistrationFile,
+  decodeRegistrationDataUri,
+  encodeRegistrationDataUri,
+  registrationFileFromMetadata,
+  validateRegistrationFile,
+  withRegistration,
+} from '../src/RegistrationFile';
+
+describe('Registration files', () => {
+  const wallet = '0x70997970C51812dc3A010C7d01b50e17b4d7dc79';
+
+  it('should build a file with the ERC-8004 endpoint names', () => {
+    const file = buildRegistrationFile({
+      name: 'Alice',
+      description: 'Research agent',
+      a2a: { endpoint: 'https://alice.example.com/.well-known/agent-card.json', version: '0.3.0' },
+      mcp: 'https://alice.example.com/mcp',
+      ens: 'alice.eth',
+      did: 'did:web:alice.example.com',
+      agentWallet: { address: wallet, chainId: 84532 },
+      supportedTrust: ['reputation', 'tee-attestation'],
+    });
+
+    expect(file.type).toBe(REGISTRATION_FILE_TYPE);
+    expect(file.endpoints.map((e) => e.name)).toEqual(['A2A', 'MCP', 'ENS', 'DID', 'agentWallet']);
+    expect(file.endpoints[0].version).toBe('0.3.0');
+    expect(file.endpoints[4].endpoint).toBe(`eip155:84532:${wallet}`);
+    expect(file.registrations).toEqual([]);
+  });
+
+  it('should keep SDK metadata fields without an ERC-8004 equivalent', () => {
+    const file = registrationFileFromMetadata({
+      name: 'Bob',
+      domain: 'bob.example.com',
+      role: 'server',
+      capabilities: ['search'],
+    });
+
+    expect(file.name).toBe('Bob');
+    expect(file.description).toBe('');
+    expect(file.domain).toBe('bob.example.com');
+    expect(file.capabilities).toEqual(['search']);
+  });
+
+  it('should report every schema violation', () => {
+    expect(() =>
+      validateRegistrationFile({
+        type: 'agent',
+        name: '',
+        description: 'x',
+        endpoints: [{ name: 'agentWallet', endpoint: wallet }],
+        registrations: [{ agentId: 1, agentRegistry: 'registry' }],
+      })
+    ).toThrow(/type:.*name:.*registrations\.0\.agentRegistry/);
+  });
+
+  it('should reject an agent wallet that is not a CAIP-10 address', () => {
+    const file = buildRegistrationFile({ name: 'Carol' });
+    expect(() =>
+      validateRegistrationFile({
+        ...file,
+        endpoints: [{ name: 'agentWallet', endpoint: wallet }],
+      })
+    ).toThrow('endpoints.0.endpoint');
+  });
+
+  it('should add or replace registry entries', () => {
+    const registry = 'eip155:84532:0x8004AA63c570c570eBF15376c0dB199918BFe9Fb';
+    let file = buildRegistrationFile({ name: 'Dave' });
+    file = withRegistration(file, { agentId: 12n, agentRegistry: registry });
+    file = withRegistration(file, { agentId: 13n, agentRegistry: registry });
+
+    expect(file.registrations).toEqual([{ agentId: '13', agentRegistry: registry }]);
+  });
+
+  describe('data URIs', () => {
+    const file = buildRegistrationFile({
+      name: 'Eve #1 100% real',
+      description: 'Uses characters that broke unescaped URIs: # % & ? ü',
+    });
+
+    it('should round-trip through a base64 data URI', () => {
+      const uri = encodeRegistrationDataUri(file);
+
+      expect(uri.startsWith('data:application/json;base64,')).toBe(true);
+      expect(uri).not.toMatch(/[#%?]/);
+      expect(decodeRegistrationDataUri(uri)).toEqual(file);
+    });
+
+    it('should read URIs written by earlier versions', () => {
+      const raw = `data:application/json,${JSON.stringify(file)}`;
+      const escaped = `data:application/json,${encodeURIComponent(JSON.stringify(file))}`;
+
+      expect(decodeRegistrationDataUri(raw)).toEqual(file);
+      expect(decodeRegistrationDataUri(escaped)).toEqual(file);
+    });
+
+    it('should reject other URIs', () => {
+      expect(() => decodeRegistrationDataUri('ipfs://bafy')).toThrow('Not a JSON data URI');
+    });
+  });
+});
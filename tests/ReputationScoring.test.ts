@@ -0,0 +1,195 @@
+/**
+ * Reputation Scoring Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { ChaosChainSDK } from '../src/ChaosChainSDK';
+import { AgentRole, NetworkConfig } from '../src/types';
+import {
+  FeedbackSample,
+  buildFeedbackSamples,
+  clientReputationWeight,
+  onePerClient,
+  paymentVolumeWeight,
+  scoreReputation,
+  timeDecay,
+} from '../src/ReputationScoring';
+
+const privateKey = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const alice = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const bob = '0x70997970c51812dC3A010c7D01b50E17B4d7Dc79';
+const carol = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const now = 1_800_000_000;
+const day = 86400;
+const quality = ethers.encodeBytes32String('quality');
+const speed = ethers.encodeBytes32String('speed');
+
+function sample(clientAddress: string, score: number, extra: Partial<FeedbackSample> = {}) {
+  return {
+    clientAddress,
+    score,
+    tag1: quality,
+    tag2: ethers.ZeroHash,
+    revoked: false,
+    ...extra,
+  };
+}
+
+describe('Reputation scoring', () => {
+  it('should shrink toward the prior and narrow with more feedback', async () => {
+    const one = await scoreReputation([sample(alice, 100)], { now });
+    const many = await scoreReputation(
+      Array.from({ length: 20 }, () => sample(alice, 100)),
+      { now }
+    );
+
+    expect(one.rawAverage).toBe(100);
+    expect(one.score).toBeCloseTo(66.7, 1);
+    expect(many.score).toBeGreaterThan(one.score);
+    expect(many.interval.high - many.interval.low).toBeLessThan(
+      one.interval.high - one.interval.low
+    );
+    expect((await scoreReputation([], { now })).score).toBe(50);
+  });
+
+  it('should stop a client giving repeated feedback from dominating', async () => {
+    const samples = [
+      ...Array.from({ length: 9 }, () => sample(alice, 0)),
+      sample(bob, 100),
+      sample(carol, 100),
+    ];
+
+    const flat = await scoreReputation(samples, { now, prior: { score: 50, weight: 0 } });
+    const fair = await scoreReputation(samples, {
+      now,
+      prior: { score: 50, weight: 0 },
+      strategies: [onePerClient()],
+    });
+
+    expect(flat.score).toBeCloseTo(18.2, 1);
+    expect(fair.score).toBeCloseTo(66.7, 1);
+    expect(fair.breakdown[0].factors).toEqual({ onePerClient: 1 / 9 });
+  });
+
+  it('should decay old feedback and weigh clients by reputation and payments', async () => {
+    const samples = [
+      sample(alice, 20, { timestamp: now - 60 * day }),
+      sample(bob, 80, { timestamp: now }),
+    ];
+    const getReputation = vi.fn(async (client: string) => (client === alice ? 90 : null));
+    const getVolume = vi.fn(async (client: string) => (client === bob ? 999 : 0));
+
+    const decayed = await scoreReputation(samples, { now, strategies: [timeDecay(30)] });
+    expect(decayed.breakdown[0].factors.timeDecay).toBeCloseTo(0.25);
+    expect(decayed.breakdown[1].factors.timeDecay).toBe(1);
+
+    const weighted = await scoreReputation([...samples, sample(alice, 40)], {
+      now,
+      strategies: [clientReputationWeight(getReputation), paymentVolumeWeight(getVolume)],
+    });
+    expect(weighted.breakdown.map((entry) => entry.weight)).toEqual([
+      expect.closeTo(0.09),
+      expect.closeTo(0.3),
+      expect.closeTo(0.09),
+    ]);
+    expect(getReputation).toHaveBeenCalledTimes(2);
+    expect(weighted.explanation[1]).toContain('clientReputation');
+  });
+
+  it('should trim outliers, skip revoked entries and score per tag', async () => {
+    const result = await scoreReputation(
+      [
+        sample(alice, 0),
+        sample(alice, 70, { tag2: speed }),
+        sample(bob, 80, { tag2: speed }),
+        sample(bob, 90),
+        sample(carol, 100),
+        sample(carol, 5, { revoked: true }),
+      ],
+      { now, trim: 0.2 }
+    );
+
+    expect(result.breakdown.map((entry) => entry.excluded)).toEqual([
+      'trimmed',
+      undefined,
+      undefined,
+      undefined,
+      'trimmed',
+      'revoked',
+    ]);
+    expect(result.count).toBe(3);
+    expect(Object.keys(result.byTag)).toEqual(['quality', 'speed']);
+    expect(result.byTag.speed.count).toBe(2);
+    expect(result.explanation[0]).toBe(
+      '3 of 6 feedback entries counted (1 revoked, 2 trimmed as outliers)'
+    );
+  });
+
+  it('should join on-chain feedback with event block timestamps', async () => {
+    const event = (clientAddress: string, blockNumber: number) =>
+      ({ blockNumber, args: { clientAddress } }) as any;
+    const feedback = {
+      clients: [alice, alice, bob],
+      scores: [60, 70, 80],
+      tag1s: [quality, quality, quality],
+      tag2s: [ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash],
+      revokedStatuses: [false, true, false],
+    };
+    const events = [event(alice, 10), event(bob, 11), event(alice, 12)];
+    const getTimestamp = vi.fn(async (blockNumber: number) => now - (20 - blockNumber) * day);
+
+    const samples = await buildFeedbackSamples(feedback, events, getTimestamp);
+    expect(samples.map((s) => [s.feedbackIndex, s.blockNumber, s.timestamp])).toEqual([
+      [1n, 10, now - 10 * day],
+      [2n, 12, now - 8 * day],
+      [1n, 11, now - 9 * day],
+    ]);
+
+    const sdk = new ChaosChainSDK({
+      agentName: 'Alice',
+      agentDomain: 'alice.example.com',
+      agentRole: AgentRole.SERVER,
+      network: NetworkConfig.BASE_SEPOLIA,
+      privateKey,
+      enablePayments: false,
+      enableStorage: false,
+    });
+    const readAllFeedback = vi.fn(async () => feedback);
+    (sdk as any).chaosAgent = { readAllFeedback, getFeedbackEvents: vi.fn(async () => events) };
+    (sdk as any).provider = {
+      getBlock: async (n: number) => ({ timestamp: await getTimestamp(n) }),
+    };
+
+    const result = await sdk.scoreReputation(5n, { now, strategies: [timeDecay(10)] });
+    expect(readAllFeedback).toHaveBeenCalledWith(5n, [], ethers.ZeroHash, ethers.ZeroHash, true);
+    expect(result.count).toBe(2);
+    expect(result.breakdown[0].factors.timeDecay).toBeCloseTo(0.5);
+  });
+
+  it('should leave block times off when a client is missing a leading event', async () => {
+    const event = (clientAddress: string, blockNumber: number) =>
+      ({ blockNumber, args: { clientAddress } }) as any;
+    const feedback = {
+      clients: [alice, alice, bob],
+      scores: [60, 70, 80],
+      tag1s: [quality, quality, quality],
+      tag2s: [ethers.ZeroHash, ethers.ZeroHash, ethers.ZeroHash],
+      revokedStatuses: [false, false, false],
+    };
+    // Alice's first event predates the log query window
+    const events = [event(bob, 11), event(alice, 12)];
+    const getTimestamp = vi.fn(async (blockNumber: number) => now - (20 - blockNumber) * day);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const samples = await buildFeedbackSamples(feedback, events, getTimestamp);
+    expect(samples.map((s) => [s.feedbackIndex, s.blockNumber, s.timestamp])).toEqual([
+      [1n, undefined, undefined],
+      [2n, undefined, undefined],
+      [1n, 11, now - 9 * day],
+    ]);
+    expect(getTimestamp).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+});
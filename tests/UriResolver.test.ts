@@ -0,0 +1,208 @@
+/**
+ * Token URI Resolver Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createHash } from 'crypto';
+import { ethers } from 'ethers';
+import { UriResolver, formatCid, parseCid } from '../src/resolver';
+import { UriResolutionError } from '../src/exceptions';
+
+const content = Buffer.from(JSON.stringify({ name: 'Alice', domain: 'alice.example.com' }));
+const sha256 = (bytes: Uint8Array) => createHash('sha256').update(bytes).digest();
+
+// CIDv1, raw codec: the CID hashes the content itself
+const rawCid = formatCid({
+  version: 1,
+  codec: 0x55,
+  multihash: { code: 0x12, digest: sha256(content) },
+  bytes: Buffer.concat([Buffer.from([0x01, 0x55, 0x12, 0x20]), sha256(content)]),
+});
+
+// CIDv0: a single dag-pb UnixFS node wrapping the content
+const unixfs = Buffer.concat([
+  Buffer.from([0x08, 0x02, 0x12, content.length]),
+  content,
+  Buffer.from([0x18, content.length]),
+]);
+const dagPbNode = Buffer.concat([Buffer.from([0x0a, unixfs.length]), unixfs]);
+const v0Cid = ethers.encodeBase58(Buffer.concat([Buffer.from([0x12, 0x20]), sha256(dagPbNode)]));
+
+type Route = (url: string, signal?: AbortSignal) => Promise<Response>;
+
+function stubFetch(routes: Record<string, Route>) {
+  return vi.fn(async (input: any, init?: RequestInit) => {
+    const url = String(input);
+    const gateway = Object.keys(routes).find((prefix) => url.startsWith(prefix));
+    if (!gateway) throw new TypeError(`fetch failed: ${url}`);
+    return routes[gateway](url, init?.signal ?? undefined);
+  }) as unknown as typeof fetch & ReturnType<typeof vi.fn>;
+}
+
+const serve =
+  (body: Uint8Array, status = 200): Route =>
+  async () =>
+    new Response(body, { status });
+
+const hang: Route = (_url, signal) =>
+  new Promise((_resolve, reject) => {
+    signal?.addEventListener('abort', () => reject(new Error('aborted')));
+  });
+
+async function failureOf(promise: Promise<unknown>): Promise<UriResolutionError> {
+  const error = await promise.then(
+    () => undefined,
+    (e) => e
+  );
+  expect(error).toBeInstanceOf(UriResolutionError);
+  return error;
+}
+
+describe('UriResolver', () => {
+  it('should parse CIDs it formats', () => {
+    expect(formatCid(parseCid(rawCid))).toBe(rawCid);
+    expect(formatCid(parseCid(v0Cid))).toBe(v0Cid);
+    expect(() => parseCid('bnotacid!')).toThrow(UriResolutionError);
+  });
+
+  it('should resolve data URIs', async () => {
+    const resolver = new UriResolver({ fetch: stubFetch({}) });
+    const uri = `data:application/json;base64,${content.toString('base64')}`;
+
+    expect(await resolver.resolveJson(uri)).toEqual({
+      name: 'Alice',
+      domain: 'alice.example.com',
+    });
+  });
+
+  it('should verify raw IPFS blocks against their CID', async () => {
+    const resolver = new UriResolver({
+      ipfsGateways: ['https://gw.test/'],
+      fetch: stubFetch({ 'https://gw.test': serve(content) }),
+    });
+
+    const resolved = await resolver.resolve(`ipfs://${rawCid}`);
+    expect(resolved.verified).toBe(true);
+    expect(Buffer.from(resolved.bytes).equals(content)).toBe(true);
+    expect(resolved.source).toBe(`https://gw.test/ipfs/${rawCid}?format=raw`);
+  });
+
+  it('should unwrap dag-pb blocks and accept gateways that serve the file', async () => {
+    const blockGateway = new UriResolver({
+      ipfsGateways: ['https://blocks.test'],
+      fetch: stubFetch({ 'https://blocks.test': serve(dagPbNode) }),
+    });
+    const fileGateway = new UriResolver({
+      ipfsGateways: ['https://files.test'],
+      fetch: stubFetch({ 'https://files.test': serve(content) }),
+    });
+
+    for (const resolver of [blockGateway, fileGateway]) {
+      const resolved = await resolver.resolve(`ipfs://${v0Cid}`);
+      expect(resolved.verified).toBe(true);
+      expect(Buffer.from(resolved.bytes).equals(content)).toBe(true);
+    }
+  });
+
+  it('should fall back when a gateway serves content that does not match the CID', async () => {
+    const fetch = stubFetch({
+      'https://evil.test': serve(Buffer.from('{"name":"Mallory"}')),
+      'https://good.test': serve(content),
+    });
+    const resolver = new UriResolver({
+      ipfsGateways: ['https://evil.test', 'https://good.test'],
+      raceSize: 1,
+      fetch,
+    });
+
+    const resolved = await resolver.resolve(`ipfs://${rawCid}`);
+    expect(resolved.source.startsWith('https://good.test')).toBe(true);
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    const onlyEvil = new UriResolver({ ipfsGateways: ['https://evil.test'], fetch });
+    const error = await failureOf(onlyEvil.resolve(`ipfs://${rawCid}`));
+    expect(error.reason).toBe('content_mismatch');
+  });
+
+  it('should race gateways and abort the slower one', async () => {
+    let aborted = false;
+    const resolver = new UriResolver({
+      ipfsGateways: ['https://slow.test', 'https://fast.test'],
+      fetch: stubFetch({
+        'https://slow.test': (url, signal) => {
+          signal?.addEventListener('abort', () => (aborted = true));
+          return hang(url, signal);
+        },
+        'https://fast.test': serve(content),
+      }),
+    });
+
+    const resolved = await resolver.resolve(`ipfs://${rawCid}`);
+    expect(resolved.source.startsWith('https://fast.test')).toBe(true);
+    expect(aborted).toBe(true);
+  });
+
+  it('should report timeouts, size limits and HTTP errors', async () => {
+    const resolver = new UriResolver({
+      timeoutMs: 20,
+      maxBytes: 16,
+      fetch: stubFetch({
+        'https://slow.test': hang,
+        'https://big.test': serve(content),
+        'https://missing.test': serve(Buffer.from('not found'), 404),
+      }),
+    });
+
+    expect((await failureOf(resolver.resolve('https://slow.test/a.json'))).reason).toBe('timeout');
+    expect((await failureOf(resolver.resolve('https://big.test/a.json'))).reason).toBe('too_large');
+    expect((await failureOf(resolver.resolve('https://missing.test/a'))).reason).toBe('http_error');
+  });
+
+  it('should explain failures across gateways', async () => {
+    const resolver = new UriResolver({
+      arweaveGateways: ['https://missing.test', 'https://offline.test'],
+      fetch: stubFetch({ 'https://missing.test': serve(Buffer.from(''), 404) }),
+    });
+
+    const error = await failureOf(resolver.resolve('ar://tx123'));
+    expect(error.reason).toBe('all_sources_failed');
+    expect(error.details?.attempts.map((a: any) => a.reason).sort()).toEqual([
+      'http_error',
+      'network_error',
+    ]);
+  });
+
+  it('should reject unknown schemes and non-JSON content', async () => {
+    const resolver = new UriResolver({
+      fetch: stubFetch({ 'https://text.test': serve(Buffer.from('hello')) }),
+    });
+
+    expect((await failureOf(resolver.resolve('ftp://example.com/a'))).reason).toBe(
+      'unsupported_scheme'
+    );
+    expect((await failureOf(resolver.resolveJson('https://text.test/a'))).reason).toBe(
+      'invalid_content'
+    );
+  });
+
+  it('should accept custom scheme handlers', async () => {
+    const resolver = new UriResolver({
+      fetch: stubFetch({}),
+      handlers: [
+        {
+          scheme: 'mem',
+          resolve: async (uri) => ({
+            uri,
+            bytes: content,
+            contentType: 'application/json',
+            source: 'memory',
+            verified: false,
+          }),
+        },
+      ],
+    });
+
+    expect(resolver.getSupportedSchemes()).toContain('mem');
+    expect((await resolver.resolveJson('mem://alice')).name).toBe('Alice');
+  });
+});
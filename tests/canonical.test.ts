@@ -0,0 +1,80 @@
+/**
+ * Canonical JSON (RFC 8785) Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { canonicalize, canonicalHash, canonicalKeccak256 } from '../src/utils/canonical';
+
+describe('Canonical JSON', () => {
+  it('should sort object keys regardless of insertion order', () => {
+    expect(canonicalize({ b: 1, a: { d: true, c: null } })).toBe('{"a":{"c":null,"d":true},"b":1}');
+    expect(canonicalHash({ x: 1, y: 2 })).toBe(canonicalHash({ y: 2, x: 1 }));
+  });
+
+  it('should sort keys by UTF-16 code units (RFC 8785 section 3.2.3)', () => {
+    const input = {
+      '€': 'Euro Sign',
+      '\r': 'Carriage Return',
+      דּ: 'Hebrew Letter Dalet With Dagesh',
+      '1': 'One',
+      '😀': 'Emoji: Grinning Face',
+      '\u0080': 'Control',
+      ö: 'Latin Small Letter O With Diaeresis',
+    };
+
+    // Object.keys would hoist the integer-like key, so read the keys off the string
+    const keys = [...canonicalize(input).matchAll(/"([^"]*)":/g)].map((m) =>
+      JSON.parse(`"${m[1]}"`)
+    );
+    expect(keys).toEqual(['\r', '1', '\u0080', 'ö', '€', '😀', 'דּ']);
+  });
+
+  it('should serialize numbers as ECMAScript does', () => {
+    expect(canonicalize([1e21, 0.000001, 1e-7, -0, 4.5, 333333333.3333333])).toBe(
+      '[1e+21,0.000001,1e-7,0,4.5,333333333.3333333]'
+    );
+  });
+
+  it('should reject non-finite numbers', () => {
+    expect(() => canonicalize({ value: NaN })).toThrow();
+    expect(() => canonicalize(Infinity)).toThrow();
+  });
+
+  it('should encode bigint, bytes and dates as strings', () => {
+    const value = {
+      amount: 12345678901234567890n,
+      data: Buffer.from([0, 255]),
+      raw: new Uint8Array([1, 2]),
+      at: new Date('2025-01-02T03:04:05.678Z'),
+    };
+
+    expect(canonicalize(value)).toBe(
+      '{"amount":"12345678901234567890","at":"2025-01-02T03:04:05.678Z","data":"0x00ff","raw":"0x0102"}'
+    );
+  });
+
+  it('should hash identically after a canonical JSON round trip', () => {
+    const value = { amount: 10n, at: new Date(0), data: Buffer.from('hi') };
+    const roundTripped = JSON.parse(canonicalize(value));
+
+    expect(canonicalHash(roundTripped)).toBe(canonicalHash(value));
+    expect(canonicalKeccak256(roundTripped)).toBe(canonicalKeccak256(value));
+  });
+
+  it('should omit undefined members and null them in arrays', () => {
+    expect(canonicalize({ a: undefined, b: [undefined, () => 1] })).toBe('{"b":[null,null]}');
+  });
+
+  it('should reject circular structures and maps', () => {
+    const circular: Record<string, unknown> = {};
+    circular.self = circular;
+
+    expect(() => canonicalize(circular)).toThrow('circular');
+    expect(() => canonicalize(new Map())).toThrow('Map');
+  });
+
+  it('should allow repeated references that are not cycles', () => {
+    const shared = { k: 1 };
+    expect(canonicalize({ a: shared, b: shared })).toBe('{"a":{"k":1},"b":{"k":1}}');
+  });
+});
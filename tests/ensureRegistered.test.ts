@@ -0,0 +1,177 @@
+/**
+ * Idempotent Registration Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { ethers } from 'ethers';
+import { ChaosAgent } from '../src/ChaosAgent';
+import { NetworkConfig } from '../src/types';
+import { IDENTITY_REGISTRY_ABI } from '../src/utils/contracts';
+import { getContractAddresses } from '../src/utils/networks';
+import { decodeRegistrationDataUri, encodeRegistrationDataUri } from '../src/RegistrationFile';
+import {
+  TEST_OWNER as owner,
+  TEST_PRIVATE_KEY,
+  createSdk,
+  fakeRegistry,
+} from './helpers/fakeRegistry';
+
+describe('ensureRegistered', () => {
+  it('should register once and reuse the persisted agent ID', async () => {
+    const registry = fakeRegistry();
+    const sdk = createSdk(registry);
+
+    const first = await sdk.ensureRegistered();
+    expect(first).toMatchObject({ agentId: 50n, status: 'registered', source: 'registration' });
+
+    const stateFile = (sdk as any).agentStateFile;
+    const state = JSON.parse(readFileSync(stateFile, 'utf8'));
+    expect(Object.values(state)).toMatchObject([{ agentId: '50', owner, chainId: 84532 }]);
+
+    const second = await sdk.ensureRegistered();
+    expect(second).toMatchObject({ agentId: 50n, status: 'unchanged', source: 'state_file' });
+    expect(registry.registerWithTokenUri).toHaveBeenCalledOnce();
+    expect(registry.setAgentUri).not.toHaveBeenCalled();
+    expect(sdk.getAgentId()).toBe(50n);
+  });
+
+  it('should recover an agent by name and domain from registry logs', async () => {
+    const registry = fakeRegistry({
+      3: { name: 'Alice', domain: 'other.example.com' },
+      4: { name: 'Alice', domain: 'ALICE.example.com' },
+    });
+    const sdk = createSdk(registry);
+
+    const result = await sdk.ensureRegistered();
+
+    expect(result).toMatchObject({ agentId: 4n, status: 'updated', source: 'registry_logs' });
+    expect(registry.registerWithTokenUri).not.toHaveBeenCalled();
+    const file = decodeRegistrationDataUri(registry.store.get(4n)!.uri);
+    expect(file.domain).toBe('alice.example.com');
+    expect(file.type).toBeDefined();
+  });
+
+  it('should rewrite drifted metadata but keep cross-chain registrations', async () => {
+    const registry = fakeRegistry();
+    const sdk = createSdk(registry);
+    await sdk.ensureRegistered();
+
+    const published = decodeRegistrationDataUri(registry.store.get(50n)!.uri);
+    const registrations = [
+      { agentId: '9', agentRegistry: 'eip155:59141:0x8004aa7C931bCE1233973a0C6A667f73F66282e7' },
+    ];
+    registry.store.get(50n)!.uri = encodeRegistrationDataUri({ ...published, registrations });
+
+    const result = await sdk.ensureRegistered({
+      metadata: { name: 'Alice', domain: 'alice.example.com', role: 'server', version: '2.0' },
+    });
+
+    expect(result.status).toBe('updated');
+    const file = decodeRegistrationDataUri(registry.store.get(50n)!.uri);
+    expect(file.version).toBe('2.0');
+    expect(file.registrations).toEqual(registrations);
+  });
+
+  it('should keep published fields and leave unreadable files alone', async () => {
+    const registry = fakeRegistry();
+    const sdk = createSdk(registry);
+    await sdk.ensureRegistered();
+
+    const published = decodeRegistrationDataUri(registry.store.get(50n)!.uri);
+    const lifecycle = { status: 'paused', reason: 'Maintenance' };
+    registry.store.get(50n)!.uri = encodeRegistrationDataUri({
+      ...published,
+      active: false,
+      lifecycle,
+    });
+
+    expect((await sdk.ensureRegistered()).status).toBe('unchanged');
+    const updated = await sdk.ensureRegistered({
+      metadata: { name: 'Alice', domain: 'alice.example.com', role: 'server', version: '2.0' },
+    });
+    expect(updated.status).toBe('updated');
+    expect(decodeRegistrationDataUri(registry.store.get(50n)!.uri)).toMatchObject({
+      version: '2.0',
+      active: false,
+      lifecycle,
+    });
+
+    registry.getAgentMetadata.mockRejectedValueOnce(new Error('gateway timeout'));
+    const uri = registry.store.get(50n)!.uri;
+    expect((await sdk.ensureRegistered({ metadata: { name: 'Alice' } })).status).toBe('unchanged');
+    expect(registry.store.get(50n)!.uri).toBe(uri);
+    expect(registry.setAgentUri).toHaveBeenCalledOnce();
+  });
+
+  it('should not reuse a persisted agent the wallet no longer owns', async () => {
+    const registry = fakeRegistry();
+    const sdk = createSdk(registry);
+    await sdk.ensureRegistered();
+    registry.store.get(50n)!.owner = '0x0000000000000000000000000000000000000001';
+
+    const result = await sdk.ensureRegistered();
+
+    expect(result).toMatchObject({ agentId: 51n, status: 'registered' });
+  });
+});
+
+describe('ChaosAgent.getOwnedAgentIds', () => {
+  it('should query Transfer and Registered logs and keep agents still owned', async () => {
+    const registry = new ethers.Interface(IDENTITY_REGISTRY_ABI);
+    const other = '0x70997970c51812dc3a010c7d01b50e17b4d7dc79';
+    const log = (event: string, args: unknown[], blockNumber: number) => ({
+      ...registry.encodeEventLog(event, args),
+      address: getContractAddresses(NetworkConfig.BASE_SEPOLIA).identity,
+      blockNumber,
+      blockHash: ethers.ZeroHash,
+      transactionHash: ethers.id(`${event}-${blockNumber}`),
+      transactionIndex: 0,
+      index: 0,
+      removed: false,
+    });
+    const logs = [
+      log('Registered', [1n, 'ipfs://one', owner], 1),
+      log('Transfer', [ethers.ZeroAddress, owner, 1n], 1),
+      log('Transfer', [other, owner, 2n], 2),
+      log('Registered', [3n, 'ipfs://three', owner], 3),
+      log('Transfer', [owner, other, 3n], 4),
+    ];
+    const owners: Record<string, string> = { 1: owner, 2: owner, 3: other };
+
+    // Answers eth_getLogs by topic and eth_call for balanceOf/ownerOf
+    const filters: Array<Array<string | null>> = [];
+    const provider = {
+      getBlockNumber: async () => 4,
+      getLogs: async (filter: { topics: Array<string | null> }) => {
+        filters.push(filter.topics);
+        return logs.filter((entry) =>
+          filter.topics.every((topic, i) => topic === null || topic === entry.topics[i])
+        );
+      },
+      call: async (tx: { data: string }) => {
+        const call = registry.parseTransaction({ data: tx.data })!;
+        return call.name === 'balanceOf'
+          ? registry.encodeFunctionResult(call.fragment, [2n])
+          : registry.encodeFunctionResult(call.fragment, [owners[String(call.args[0])]]);
+      },
+    } as unknown as ethers.Provider;
+    const agent = new ChaosAgent(
+      getContractAddresses(NetworkConfig.BASE_SEPOLIA),
+      new ethers.Wallet(TEST_PRIVATE_KEY, provider),
+      provider,
+      undefined,
+      { startBlock: 0 }
+    );
+
+    expect(await agent.getOwnedAgentIds(owner)).toEqual([1n, 2n]);
+
+    const ownerTopic = ethers.zeroPadValue(owner, 32).toLowerCase();
+    expect(filters).toEqual(
+      expect.arrayContaining([
+        [registry.getEvent('Transfer')!.topicHash, null, ownerTopic],
+        [registry.getEvent('Registered')!.topicHash, null, ownerTopic],
+      ])
+    );
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * In-memory identity registry and SDK factory shared by SDK tests
+ */
+
+import { vi } from 'vitest';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ChaosChainSDK } from '../../src/ChaosChainSDK';
+import { AgentRole, ChaosChainSDKConfig, NetworkConfig } from '../../src/types';
+import { MetadataCodec } from '../../src/utils/metadata';
+import { decodeRegistrationDataUri, encodeRegistrationDataUri } from '../../src/RegistrationFile';
+
+export const TEST_PRIVATE_KEY =
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+/** Address of TEST_PRIVATE_KEY */
+export const TEST_OWNER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+interface FakeAgent {
+  owner: string;
+  uri: string;
+  metadata: Record<string, string>;
+}
+
+/**
+ * Identity registry standing in for ChaosAgent. `documents` maps agent IDs to
+ * the registration files they publish; agents registered through the fake get
+ * IDs from 50 up. Every agent is owned by `owner` until a test changes it.
+ */
+export function fakeRegistry(documents: Record<string, object> = {}, owner: string = TEST_OWNER) {
+  const store = new Map<bigint, FakeAgent>(
+    Object.entries(documents).map(([id, document]) => [
+      BigInt(id),
+      { owner, uri: encodeRegistrationDataUri(document), metadata: {} },
+    ])
+  );
+  let nextId = 50n;
+  const agent = (id: bigint) => {
+    const found = store.get(id);
+    if (!found) throw new Error('ERC721NonexistentToken');
+    return found;
+  };
+
+  return {
+    store,
+    getAgentOwner: vi.fn(async (id: bigint) => agent(id).owner),
+    getOwnedAgentIds: vi.fn(async (address: string) =>
+      [...store.entries()]
+        .filter(([, a]) => a.owner.toLowerCase() === address.toLowerCase())
+        .map(([id]) => id)
+    ),
+    getAgentUri: vi.fn(async (id: bigint) => agent(id).uri),
+    getAgentMetadata: vi.fn(async (id: bigint) => decodeRegistrationDataUri(agent(id).uri)),
+    registerWithTokenUri: vi.fn(async (uri: string) => {
+      const agentId = nextId++;
+      store.set(agentId, { owner, uri, metadata: {} });
+      return { agentId, txHash: '0xregister', owner };
+    }),
+    setAgentUri: vi.fn(async (id: bigint, uri: string) => {
+      agent(id).uri = uri;
+      return '0xupdate';
+    }),
+    updateAgentMetadata: vi.fn(async (id: bigint, file: object) => {
+      agent(id).uri = encodeRegistrationDataUri(file);
+      return '0xuri';
+    }),
+    getMetadata: vi.fn(async (id: bigint, key: string, codec: MetadataCodec<unknown>) => {
+      const value = agent(id).metadata[key];
+      return value ? codec.decode(value) : null;
+    }),
+    setMetadata: vi.fn(
+      async (id: bigint, key: string, value: unknown, codec: MetadataCodec<unknown>) => {
+        agent(id).metadata[key] = codec.encode(value);
+        return '0xmetadata';
+      }
+    ),
+  };
+}
+
+export type FakeRegistry = ReturnType<typeof fakeRegistry>;
+
+/**
+ * SDK for the agent Alice backed by `registry`, with its own state file.
+ * `agentId` marks the SDK as already registered.
+ */
+export function createSdk(
+  registry: FakeRegistry,
+  options: Partial<ChaosChainSDKConfig> & { agentId?: bigint } = {}
+) {
+  const { agentId, ...config } = options;
+  const sdk = new ChaosChainSDK({
+    agentName: 'Alice',
+    agentDomain: 'alice.example.com',
+    agentRole: AgentRole.SERVER,
+    network: NetworkConfig.BASE_SEPOLIA,
+    privateKey: TEST_PRIVATE_KEY,
+    enablePayments: false,
+    enableStorage: false,
+    agentStateFile: join(mkdtempSync(join(tmpdir(), 'agent-state-')), 'agents.json'),
+    ...config,
+  });
+  (sdk as any).chaosAgent = registry;
+  if (agentId !== undefined) {
+    (sdk as any)._agentId = agentId;
+  }
+  return sdk;
+}
@@ -0,0 +1,145 @@
+/**
+ * ERC-8004 On-chain Metadata Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { ChaosAgent } from '../src/ChaosAgent';
+import { MetadataCodecs, METADATA_KEYS, metadataEntry } from '../src/utils/metadata';
+
+describe('Metadata codecs', () => {
+  it('should round-trip strings as UTF-8', () => {
+    const encoded = MetadataCodecs.string.encode('https://agent.example.com/a2a');
+    expect(ethers.toUtf8String(encoded)).toBe('https://agent.example.com/a2a');
+    expect(MetadataCodecs.string.decode(encoded)).toBe('https://agent.example.com/a2a');
+  });
+
+  it('should store addresses as 20 bytes and decode them checksummed', () => {
+    const address = '0x70997970c51812dc3a010c7d01b50e17b4d7dc79';
+    const encoded = MetadataCodecs.address.encode(address);
+
+    expect(ethers.getBytes(encoded)).toHaveLength(20);
+    expect(MetadataCodecs.address.decode(encoded)).toBe(ethers.getAddress(address));
+    expect(() => MetadataCodecs.address.encode('not-an-address')).toThrow();
+    expect(() => MetadataCodecs.address.decode('0x1234')).toThrow('20 bytes');
+  });
+
+  it('should ABI-encode numbers as uint256', () => {
+    const encoded = MetadataCodecs.number.encode(42);
+    expect(ethers.getBytes(encoded)).toHaveLength(32);
+    expect(MetadataCodecs.number.decode(encoded)).toBe(42n);
+    expect(() => MetadataCodecs.number.encode(-1n)).toThrow();
+  });
+
+  it('should encode JSON canonically', () => {
+    const encoded = MetadataCodecs.json.encode({ b: 1, a: [true] });
+    expect(ethers.toUtf8String(encoded)).toBe('{"a":[true],"b":1}');
+    expect(MetadataCodecs.json.decode(encoded)).toEqual({ a: [true], b: 1 });
+  });
+
+  it('should build registration entries', () => {
+    expect(metadataEntry(METADATA_KEYS.AGENT_NAME, 'Alice', MetadataCodecs.string)).toEqual({
+      key: 'agentName',
+      value: ethers.hexlify(ethers.toUtf8Bytes('Alice')),
+    });
+    expect(() => metadataEntry('', 'x', MetadataCodecs.string)).toThrow();
+  });
+});
+
+describe('ChaosAgent metadata', () => {
+  const addresses = {
+    identity: '0x8004a6090Cd10A7288092483047B097295Fb8847',
+    reputation: '0x8004B8FD1A363aa02fDC07635C0c5F94f6Af5B7E',
+    validation: '0x8004CB39f29c09145F24Ad9dDe2A108C1A2cdfC5',
+  };
+  const wallet = ethers.Wallet.createRandom();
+
+  function createAgent(identityContract: Record<string, any>) {
+    const agent = new ChaosAgent(addresses, wallet, new ethers.JsonRpcProvider());
+    (agent as any).identityContract = identityContract;
+    return agent;
+  }
+
+  it('should register with initial metadata entries', async () => {
+    const iface = new ethers.Interface([
+      'event Registered(uint256 indexed agentId, string tokenURI, address indexed owner)',
+    ]);
+    const log = iface.encodeEventLog('Registered', [9n, 'data:', wallet.address]);
+    const register = vi.fn(async () => ({
+      wait: async () => ({ hash: '0xreg', logs: [{ ...log }] }),
+    }));
+    const agent = createAgent({ 'register(string,(string,bytes)[])': register, interface: iface });
+
+    const entry = metadataEntry(METADATA_KEYS.AGENT_WALLET, wallet.address, MetadataCodecs.address);
+    const registration = await agent.registerIdentity(
+      { name: 'A', domain: 'a.example.com', role: 'server' },
+      [entry]
+    );
+
+    expect(registration.agentId).toBe(9n);
+    expect(register).toHaveBeenCalledWith(
+      expect.stringMatching(/^data:application\/json;base64,/),
+      [[entry.key, entry.value]]
+    );
+  });
+
+  it('should decode values and treat empty bytes as unset', async () => {
+    const stored: Record<string, string> = {
+      [METADATA_KEYS.A2A_ENDPOINT]: MetadataCodecs.string.encode('https://a.example.com/a2a'),
+    };
+    const agent = createAgent({
+      getMetadata: async (_agentId: bigint, key: string) => stored[key] ?? '0x',
+    });
+
+    expect(await agent.getMetadata(1n, METADATA_KEYS.A2A_ENDPOINT, MetadataCodecs.string)).toBe(
+      'https://a.example.com/a2a'
+    );
+    expect(await agent.getMetadata(1n, METADATA_KEYS.MCP_ENDPOINT, MetadataCodecs.string)).toBe(
+      null
+    );
+  });
+
+  it('should list the history of a key oldest first', async () => {
+    const value = (n: number) => MetadataCodecs.number.encode(n);
+    const event = (blockNumber: number, index: number, n: number) => ({
+      blockNumber,
+      index,
+      transactionHash: `0x${blockNumber}${index}`,
+      args: { agentId: 3n, key: 'version', value: value(n) },
+    });
+    const MetadataSet = vi.fn(() => 'filter');
+    const queryFilter = vi
+      .fn()
+      .mockResolvedValueOnce([event(20, 0, 2), event(10, 1, 1)])
+      .mockResolvedValue([event(20, 3, 3)]);
+    const agent = createAgent({ filters: { MetadataSet }, queryFilter });
+    (agent as any).provider = { getBlockNumber: async () => 2010 };
+
+    const history = await agent.getMetadataHistory(3n, 'version', MetadataCodecs.number, 5);
+
+    expect(MetadataSet).toHaveBeenCalledWith(3n, 'version');
+    expect(queryFilter.mock.calls).toEqual([
+      ['filter', 5, 2004],
+      ['filter', 2005, 2010],
+    ]);
+    expect(history.map((h) => h.value)).toEqual([1n, 2n, 3n]);
+    expect(history[0]).toMatchObject({ blockNumber: 10, logIndex: 1, rawValue: value(1) });
+  });
+
+  it('should read logs from the configured start block by default', async () => {
+    const provider = { getBlockNumber: async () => 160 } as any;
+    const agent = new ChaosAgent(addresses, wallet, provider, undefined, {
+      startBlock: 100,
+      blockRange: 50,
+    });
+    const queryFilter = vi.fn(async () => []);
+    (agent as any).identityContract = { filters: { MetadataSet: () => 'filter' }, queryFilter };
+
+    await agent.getMetadataHistory(3n, 'version', MetadataCodecs.number);
+
+    expect(queryFilter.mock.calls.map((call: unknown[]) => call.slice(1))).toEqual([
+      [100, 149],
+      [150, 160],
+    ]);
+  });
+});
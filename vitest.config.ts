@@ -1,6 +1,10 @@
 import { defineConfig } from 'vitest/config';
 
 export default defineConfig({
+  // Match tsconfig so standard decorators are lowered for Node
+  esbuild: {
+    target: 'es2022'
+  },
   test: {
     globals: true,
     environment: 'node',